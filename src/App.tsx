@@ -1,52 +1,146 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { CityManager } from './components/CityManager';
 import { MatrixEditor } from './components/MatrixEditor';
 import { LittleAlgorithm } from './components/LittleAlgorithm';
 import { GraphVisualization } from './components/GraphVisualization';
 import { DecisionTree } from './components/DecisionTree';
 import { ResultDisplay } from './components/ResultDisplay';
-import { MapPin, Settings, Play, RotateCcw } from 'lucide-react';
+import { ProjectManager } from './components/ProjectManager';
+import { PrecedencePanel } from './components/PrecedencePanel';
+import { TimeWindowPanel } from './components/TimeWindowPanel';
+import { SelectionPanel } from './components/SelectionPanel';
+import { MapPin, Settings, Play, RotateCcw, FolderOpen, X, FolderKanban, Share2 } from 'lucide-react';
+import { City, ProblemSettings, SolverSettings, TSPResult, WizardStep } from './types';
+import { parseSessionFile } from './utils/session';
+import { ProjectData, clearAutosave, listProjects, loadAutosave, saveAutosave, saveProject } from './utils/projects';
+import { createShareUrl, decodeShareFragment, getShareFragment } from './utils/share';
+import { DEFAULT_SOLVER_SETTINGS } from './utils/solverSettings';
+import { formatCost } from './utils/costs';
+import { DEFAULT_PROBLEM_SETTINGS } from './utils/problem';
 
-export interface City {
-  id: string;
-  name: string;
-  x?: number;
-  y?: number;
-}
+function App() {
+  // Reprise de la sauvegarde automatique (rafraîchissement de la page)
+  const [restored] = useState(loadAutosave);
+  const [currentStep, setCurrentStep] = useState<WizardStep>(restored?.step ?? 'cities');
+  const [cities, setCities] = useState<City[]>(restored?.session.cities ?? []);
+  const [costMatrix, setCostMatrix] = useState<number[][]>(restored?.session.costMatrix ?? []);
+  const [result, setResult] = useState<TSPResult | null>(restored?.session.result ?? null);
+  const [problem, setProblem] = useState<ProblemSettings>(restored?.session.problem ?? DEFAULT_PROBLEM_SETTINGS);
+  const [isRunning, setIsRunning] = useState(false);
+  const [openedSession, setOpenedSession] = useState<string | null>(null); // Nom du fichier de session chargé
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(restored?.projectId ?? null);
+  const [showProjects, setShowProjects] = useState(false);
+  const [solverSettings, setSolverSettings] = useState<SolverSettings>(restored?.session.settings ?? DEFAULT_SOLVER_SETTINGS);
+  const [shareNotice, setShareNotice] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
 
-export interface LittleStep {
-  step: number;
-  type: 'reduction' | 'regret' | 'branch' | 'final';
-  title: string;
-  matrix: number[][];
-  bound: number;
-  description: string;
-  selectedArc?: [number, number];
-  regrets?: number[][];
-  eliminated?: boolean;
-}
+  // Données déjà écrites dans le projet ouvert : évite de modifier sa date sans changement réel
+  const savedProjectData = useRef<ProjectData | null>(restored?.session ?? null);
 
-export interface TSPResult {
-  path: number[];
-  cost: number;
-  steps: LittleStep[];
-}
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      if (cities.length < 3) {
+        clearAutosave();
+        return;
+      }
+      const session: ProjectData = { cities, costMatrix, result, problem, settings: solverSettings };
+      saveAutosave({ session, step: currentStep, projectId: currentProjectId });
 
-function App() {
-  const [currentStep, setCurrentStep] = useState<'cities' | 'matrix' | 'algorithm' | 'result'>('cities');
-  const [cities, setCities] = useState<City[]>([]);
-  const [costMatrix, setCostMatrix] = useState<number[][]>([]);
-  const [result, setResult] = useState<TSPResult | null>(null);
-  const [isRunning, setIsRunning] = useState(false);
+      const saved = savedProjectData.current;
+      const project = listProjects().find(p => p.id === currentProjectId);
+      if (project && (!saved || saved.cities !== cities || saved.costMatrix !== costMatrix ||
+          saved.result !== result || saved.problem !== problem || saved.settings !== solverSettings)) {
+        saveProject(project.id, project.name, session);
+        savedProjectData.current = session;
+      }
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [cities, costMatrix, result, problem, solverSettings, currentStep, currentProjectId]);
+
+  // Lien de partage (#tsp=...) : prioritaire sur la sauvegarde automatique
+  useEffect(() => {
+    const fragment = getShareFragment(window.location.hash);
+    if (!fragment) return;
+
+    decodeShareFragment(fragment)
+      .then(shared => {
+        setCities(shared.cities);
+        setCostMatrix(shared.costMatrix);
+        setSolverSettings(shared.settings);
+        setProblem(shared.problem);
+        setResult(null);
+        setCurrentProjectId(null);
+        const complete = shared.costMatrix.every(row => row.every(value => !isNaN(value)));
+        setCurrentStep(complete ? 'algorithm' : 'matrix');
+        setShareNotice({ type: 'success', message: `Instance partagée chargée (${shared.cities.length} villes).` });
+      })
+      .catch((error: Error) => {
+        setShareNotice({ type: 'error', message: `Lien de partage invalide : ${error.message}.` });
+      })
+      .finally(() => {
+        // Le fragment n'est plus utile : un rafraîchissement repart de la sauvegarde automatique
+        history.replaceState(null, '', window.location.pathname + window.location.search);
+      });
+  }, []);
+
+  const shareInstance = async () => {
+    try {
+      const url = await createShareUrl(cities, costMatrix, solverSettings, problem);
+      try {
+        await navigator.clipboard.writeText(url);
+        setShareNotice({ type: 'success', message: 'Lien de partage copié dans le presse-papiers.' });
+      } catch {
+        prompt('Copiez le lien de partage :', url);
+      }
+    } catch (error) {
+      setShareNotice({ type: 'error', message: `Impossible de créer le lien : ${(error as Error).message}` });
+    }
+  };
+
+  const handleProjectOpened = (projectId: string, session: ProjectData) => {
+    savedProjectData.current = session;
+    setCities(session.cities);
+    setCostMatrix(session.costMatrix);
+    setResult(session.result);
+    setProblem(session.problem);
+    setSolverSettings(session.settings);
+    setIsRunning(false);
+    setCurrentStep(session.result ? 'result' : 'matrix');
+    setCurrentProjectId(projectId);
+    setOpenedSession(null);
+    setShowProjects(false);
+  };
+
+  const handleCurrentProjectChange = (projectId: string | null) => {
+    savedProjectData.current = { cities, costMatrix, result, problem, settings: solverSettings };
+    setCurrentProjectId(projectId);
+  };
 
   const handleCitiesConfirmed = (newCities: City[]) => {
+    // Villes inchangées (retour à l'étape 1) : la matrice saisie est conservée
+    const unchanged = newCities.length === cities.length &&
+      newCities.every((city, i) => city.id === cities[i].id);
     setCities(newCities);
+    if (unchanged && costMatrix.length === newCities.length) {
+      setCurrentStep('matrix');
+      return;
+    }
     const n = newCities.length;
-    const matrix = Array(n).fill(null).map(() => Array(n).fill(0));
+    const matrix = Array(n).fill(null).map((_, i) =>
+      Array(n).fill(null).map((_, j) => i === j ? 0 : NaN)
+    );
     setCostMatrix(matrix);
     setCurrentStep('matrix');
   };
 
+  // Instance complète (ex. fichier TSPLIB) : villes et matrice chargées ensemble
+  const handleInstanceLoaded = (newCities: City[], matrix: number[][]) => {
+    setCities(newCities);
+    setCostMatrix(matrix);
+    setResult(null);
+    setProblem(DEFAULT_PROBLEM_SETTINGS);
+    setCurrentStep('matrix');
+  };
+
   const handleMatrixConfirmed = (matrix: number[][]) => {
     setCostMatrix(matrix);
     setCurrentStep('algorithm');
@@ -58,12 +152,37 @@ function App() {
     setIsRunning(false);
   };
 
+  // Session tsp_result.json : restaure villes, matrice et résultat
+  const openSession = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const session = parseSessionFile(await file.text());
+      setCities(session.cities);
+      setCostMatrix(session.costMatrix);
+      setResult(session.result);
+      setProblem(session.problem);
+      setIsRunning(false);
+      setCurrentStep(session.result ? 'result' : 'matrix');
+      setCurrentProjectId(null);
+      setOpenedSession(file.name);
+    } catch (error) {
+      alert(`Impossible d'ouvrir la session « ${file.name} » : ${(error as Error).message}`);
+    }
+  };
+
   const resetApp = () => {
     setCities([]);
     setCostMatrix([]);
     setResult(null);
+    setProblem(DEFAULT_PROBLEM_SETTINGS);
     setCurrentStep('cities');
     setIsRunning(false);
+    setOpenedSession(null);
+    // Le projet ouvert reste enregistré ; on repart d'un état sans projet
+    setCurrentProjectId(null);
   };
 
   const getStepTitle = () => {
@@ -102,6 +221,40 @@ function App() {
                 <span>{getStepTitle()}</span>
               </div>
               
+              <button
+                onClick={() => setShowProjects(!showProjects)}
+                className={`flex items-center space-x-2 px-4 py-2 rounded-lg transition-colors duration-200 ${
+                  showProjects ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 hover:bg-gray-200'
+                }`}
+              >
+                <FolderKanban className="h-4 w-4" />
+                <span>
+                  Projets
+                  {currentProjectId && ` · ${listProjects().find(p => p.id === currentProjectId)?.name ?? ''}`}
+                </span>
+              </button>
+
+              {cities.length >= 3 && costMatrix.length === cities.length && (
+                <button
+                  onClick={shareInstance}
+                  title="Copier un lien contenant les villes, la matrice et les réglages"
+                  className="flex items-center space-x-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 
+                           rounded-lg transition-colors duration-200"
+                >
+                  <Share2 className="h-4 w-4" />
+                  <span>Partager</span>
+                </button>
+              )}
+
+              <label
+                className="flex items-center space-x-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 
+                         rounded-lg transition-colors duration-200 cursor-pointer"
+              >
+                <FolderOpen className="h-4 w-4" />
+                <span>Ouvrir une session</span>
+                <input type="file" accept=".json,application/json" onChange={openSession} className="hidden" />
+              </label>
+
               {currentStep !== 'cities' && (
                 <button
                   onClick={resetApp}
@@ -174,20 +327,108 @@ function App() {
           ))}
         </div>
         
+        {shareNotice && (
+          <div className={`mt-4 flex items-center justify-between rounded-lg px-4 py-3 border ${
+            shareNotice.type === 'success' ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-800'
+          }`}>
+            <p className="text-sm">{shareNotice.message}</p>
+            <button onClick={() => setShareNotice(null)} title="Masquer" className="p-1 opacity-70 hover:opacity-100">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+
+        {openedSession && (
+          <div className="mt-4 flex items-center justify-between bg-blue-50 border border-blue-200 rounded-lg px-4 py-3">
+            <p className="text-sm text-blue-800">
+              Session « {openedSession} » chargée : {cities.length} villes
+              {result ? `, ${result.tours ? `${result.tours.length} tournées` : result.open ? 'chemin' : 'circuit'} de coût ${formatCost(result.cost)}` : ', sans résultat enregistré'}
+            </p>
+            <div className="flex items-center space-x-2">
+              {result && currentStep !== 'result' && (
+                <button
+                  onClick={() => setCurrentStep('result')}
+                  className="px-3 py-1 text-sm bg-white hover:bg-blue-100 text-blue-700 rounded-lg 
+                           transition-colors duration-200"
+                >
+                  Voir le résultat
+                </button>
+              )}
+              {currentStep !== 'algorithm' && (
+                <button
+                  onClick={() => setCurrentStep('algorithm')}
+                  className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg 
+                           transition-colors duration-200 flex items-center space-x-1"
+                >
+                  <Play className="h-3 w-3" />
+                  <span>Relancer l'algorithme</span>
+                </button>
+              )}
+              <button
+                onClick={() => setOpenedSession(null)}
+                title="Masquer"
+                className="p-1 text-blue-600 hover:text-blue-800"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 pb-12">
+        {showProjects && (
+          <ProjectManager
+            session={{ cities, costMatrix, result, problem, settings: solverSettings }}
+            currentProjectId={currentProjectId}
+            onOpen={handleProjectOpened}
+            onCurrentProjectChange={handleCurrentProjectChange}
+            onClose={() => setShowProjects(false)}
+          />
+        )}
+
         {currentStep === 'cities' && (
-          <CityManager onCitiesConfirmed={handleCitiesConfirmed} />
+          <CityManager
+            initialCities={cities}
+            onCitiesConfirmed={handleCitiesConfirmed}
+            onInstanceLoaded={handleInstanceLoaded}
+            problem={problem}
+            onProblemChange={setProblem}
+          />
         )}
 
         {currentStep === 'matrix' && (
-          <MatrixEditor 
-            cities={cities}
-            initialMatrix={costMatrix}
-            onMatrixConfirmed={handleMatrixConfirmed}
-          />
+          <div className="space-y-6">
+            <MatrixEditor 
+              cities={cities}
+              initialMatrix={costMatrix}
+              onMatrixConfirmed={handleMatrixConfirmed}
+              onMatrixChange={setCostMatrix}
+              onInstanceLoaded={handleInstanceLoaded}
+              problem={problem}
+              onProblemChange={setProblem}
+              settings={solverSettings}
+              onSettingsChange={setSolverSettings}
+            />
+            <PrecedencePanel
+              cities={cities}
+              problem={problem}
+              onProblemChange={setProblem}
+            />
+            <TimeWindowPanel
+              cities={cities}
+              onCitiesChange={setCities}
+              problem={problem}
+              onProblemChange={setProblem}
+            />
+            <SelectionPanel
+              cities={cities}
+              onCitiesChange={setCities}
+              problem={problem}
+              onProblemChange={setProblem}
+            />
+          </div>
         )}
 
         {currentStep === 'algorithm' && (
@@ -195,6 +436,9 @@ function App() {
             <LittleAlgorithm
               cities={cities}
               costMatrix={costMatrix}
+              problem={problem}
+              settings={solverSettings}
+              onSettingsChange={setSolverSettings}
               onComplete={handleAlgorithmComplete}
               isRunning={isRunning}
               setIsRunning={setIsRunning}
@@ -211,6 +455,8 @@ function App() {
             cities={cities}
             result={result}
             costMatrix={costMatrix}
+            problem={problem}
+            onResultChange={setResult}
           />
         )}
       </main>
@@ -0,0 +1,315 @@
+import { isForbidden, roundCost } from '../utils/costs';
+import { Precedence } from './precedence';
+import { OpenPathEnds } from './openPath';
+import { TimeWindowSettings, evaluateRoute } from './timeWindows';
+import { MandatoryArc, restrictToMandatoryArcs } from './mandatoryArcs';
+import { PrizeSettings, totalReward } from './prizeCollecting';
+
+// Solveurs exacts de référence, utilisés pour vérifier le résultat de la méthode de Little
+
+export const BRUTE_FORCE_MAX_CITIES = 9;
+export const HELD_KARP_MAX_CITIES = 18;
+
+export interface ExactResult {
+  path: number[];
+  cost: number;
+  method: 'brute-force' | 'held-karp';
+}
+
+/**
+ * Énumération exhaustive des (n-1)! circuits partant de la ville 0.
+ * Retourne null au-delà de BRUTE_FORCE_MAX_CITIES villes.
+ */
+export const solveBruteForce = (costMatrix: number[][]): ExactResult | null => {
+  const n = costMatrix.length;
+  if (n < 2 || n > BRUTE_FORCE_MAX_CITIES) return null;
+
+  const order = Array.from({ length: n - 1 }, (_, i) => i + 1);
+  let bestCost = Infinity;
+  let bestPath: number[] = [];
+
+  // Permutations en place par échanges récursifs, avec coupure dès que le coût partiel dépasse le meilleur
+  const permute = (k: number, partialCost: number, last: number) => {
+    if (partialCost >= bestCost) return;
+
+    if (k === order.length) {
+      const cost = partialCost + costMatrix[last][0];
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestPath = [0, ...order];
+      }
+      return;
+    }
+
+    for (let i = k; i < order.length; i++) {
+      [order[k], order[i]] = [order[i], order[k]];
+      permute(k + 1, partialCost + costMatrix[last][order[k]], order[k]);
+      [order[k], order[i]] = [order[i], order[k]];
+    }
+  };
+
+  permute(0, 0, 0);
+
+  // Tout circuit emprunte un arc interdit : aucun circuit réalisable (même convention que solveLittle)
+  if (isForbidden(bestCost)) return { path: [], cost: Infinity, method: 'brute-force' };
+  return { path: bestPath, cost: roundCost(bestCost), method: 'brute-force' };
+};
+
+/**
+ * Programmation dynamique de Held–Karp en O(n² 2ⁿ).
+ * dp[S][j] = coût minimal d'un chemin partant de 0, visitant l'ensemble S et finissant en j.
+ * predecessors[k] : villes (bits) à visiter avant la ville k+1 ; une ville n'étend un chemin que si elles y sont toutes.
+ * Retourne null au-delà de HELD_KARP_MAX_CITIES villes.
+ */
+export const solveHeldKarp = (costMatrix: number[][], predecessors: number[] = []): ExactResult | null => {
+  const n = costMatrix.length;
+  if (n < 2 || n > HELD_KARP_MAX_CITIES) return null;
+
+  // Les sous-ensembles portent sur les villes 1..n-1 (bit k ↔ ville k+1)
+  const m = n - 1;
+  const size = 1 << m;
+  const dp = new Float64Array(size * m).fill(Infinity);
+  const parent = new Int8Array(size * m).fill(-1);
+
+  for (let k = 0; k < m; k++) {
+    if (!predecessors[k]) dp[(1 << k) * m + k] = costMatrix[0][k + 1];
+  }
+
+  for (let subset = 1; subset < size; subset++) {
+    for (let last = 0; last < m; last++) {
+      if (!(subset & (1 << last))) continue;
+      const current = dp[subset * m + last];
+      if (current === Infinity) continue;
+
+      for (let next = 0; next < m; next++) {
+        if ((subset & (1 << next)) || (predecessors[next] & ~subset)) continue;
+        const extended = subset | (1 << next);
+        const cost = current + costMatrix[last + 1][next + 1];
+        if (cost < dp[extended * m + next]) {
+          dp[extended * m + next] = cost;
+          parent[extended * m + next] = last;
+        }
+      }
+    }
+  }
+
+  // Refermer le circuit vers la ville 0
+  const full = size - 1;
+  let bestCost = Infinity;
+  let bestLast = -1;
+  for (let last = 0; last < m; last++) {
+    const cost = dp[full * m + last] + costMatrix[last + 1][0];
+    if (cost < bestCost) {
+      bestCost = cost;
+      bestLast = last;
+    }
+  }
+
+  if (isForbidden(bestCost)) return { path: [], cost: Infinity, method: 'held-karp' };
+
+  // Reconstruire le circuit en remontant les parents
+  const reversed: number[] = [];
+  let subset = full;
+  let last = bestLast;
+  while (last !== -1) {
+    reversed.push(last + 1);
+    const previous = parent[subset * m + last];
+    subset &= ~(1 << last);
+    last = previous;
+  }
+
+  return { path: [0, ...reversed.reverse()], cost: roundCost(bestCost), method: 'held-karp' };
+};
+
+/**
+ * Meilleure tournée depot → S → depot pour chaque sous-ensemble S des autres villes (Held–Karp), en O(n² 2ⁿ) :
+ * bit b ↔ customers[b], tourCost[S] = Infinity si aucune tournée n'est possible (S vide compris).
+ * Précédences : une ville n'est visitée qu'après ses « avant », qui appartiennent donc aussi à S.
+ * rebuildTour(S) redonne la tournée [depot, …] correspondante, sans le retour.
+ */
+export const solveSubsetTours = (costMatrix: number[][], depot: number, precedences: Precedence[] = []) => {
+  const n = costMatrix.length;
+  const customers = Array.from({ length: n }, (_, i) => i).filter(i => i !== depot);
+  const c = customers.length;
+  const size = 1 << c;
+  const cost = (from: number, to: number) => from === to ? Infinity : costMatrix[from][to];
+  // predecessors[b] : villes (bits) à visiter avant customers[b]
+  const predecessors = Array(c).fill(0);
+  precedences.forEach(([before, after]) => {
+    if (before !== depot && after !== depot) predecessors[customers.indexOf(after)] |= 1 << customers.indexOf(before);
+  });
+
+  // Meilleur chemin depuis le dépôt couvrant S et finissant en b, puis tournée refermée
+  const path = new Float64Array(size * c).fill(Infinity);
+  const parent = new Int8Array(size * c).fill(-1);
+  for (let b = 0; b < c; b++) {
+    if (!predecessors[b]) path[(1 << b) * c + b] = cost(depot, customers[b]);
+  }
+  for (let subset = 1; subset < size; subset++) {
+    for (let last = 0; last < c; last++) {
+      const current = path[subset * c + last];
+      if (!(subset & (1 << last)) || current === Infinity) continue;
+      for (let next = 0; next < c; next++) {
+        if ((subset & (1 << next)) || (predecessors[next] & ~subset)) continue;
+        const extended = (subset | (1 << next)) * c + next;
+        const value = current + cost(customers[last], customers[next]);
+        if (value < path[extended]) {
+          path[extended] = value;
+          parent[extended] = last;
+        }
+      }
+    }
+  }
+  const tourCost = new Float64Array(size).fill(Infinity);
+  const tourLast = new Int8Array(size).fill(-1);
+  for (let subset = 1; subset < size; subset++) {
+    for (let last = 0; last < c; last++) {
+      const value = path[subset * c + last] + cost(customers[last], depot);
+      if ((subset & (1 << last)) && value < tourCost[subset]) {
+        tourCost[subset] = value;
+        tourLast[subset] = last;
+      }
+    }
+  }
+
+  const rebuildTour = (subset: number): number[] => {
+    const reversed: number[] = [];
+    let last = tourLast[subset];
+    while (last !== -1) {
+      reversed.push(customers[last]);
+      const previous = parent[subset * c + last];
+      subset &= ~(1 << last);
+      last = previous;
+    }
+    return [depot, ...reversed.reverse()];
+  };
+
+  return { customers, tourCost, rebuildTour };
+};
+
+/**
+ * Choisit le solveur exact adapté à la taille de l'instance.
+ * Retourne null si l'instance est trop grande pour une vérification exacte.
+ */
+export const solveExact = (costMatrix: number[][]): ExactResult | null => {
+  if (costMatrix.length <= BRUTE_FORCE_MAX_CITIES) return solveBruteForce(costMatrix);
+  return solveHeldKarp(costMatrix);
+};
+
+/**
+ * Optimum sous contraintes de précédence, sur la tournée partant de origin (Held–Karp sur les villes
+ * renumérotées pour que origin devienne la ville 0). Retourne null si l'instance est trop grande.
+ */
+export const solveExactWithPrecedences = (
+  costMatrix: number[][],
+  origin: number,
+  precedences: Precedence[]
+): ExactResult | null => {
+  const n = costMatrix.length;
+  // L'origine est visitée en premier : elle ne peut suivre aucune ville
+  if (precedences.some(([, after]) => after === origin)) return { path: [], cost: Infinity, method: 'held-karp' };
+
+  const order = [origin, ...Array.from({ length: n }, (_, i) => i).filter(i => i !== origin)];
+  const renumbered = order.map(i => order.map(j => costMatrix[i][j]));
+  const predecessors = Array(n - 1).fill(0);
+  precedences.forEach(([before, after]) => {
+    if (before !== origin) predecessors[order.indexOf(after) - 1] |= 1 << (order.indexOf(before) - 1);
+  });
+
+  const result = solveHeldKarp(renumbered, predecessors);
+  return result && { ...result, path: result.path.map(i => order[i]) };
+};
+
+/**
+ * Optimum avec villes facultatives (mode profit) : tournée depuis depot minimisant trajets + récompenses
+ * perdues, parmi les sous-ensembles contenant toutes les villes obligatoires (voir solveSubsetTours,
+ * précédences comprises). Retourne null au-delà de HELD_KARP_MAX_CITIES villes.
+ */
+export const solveExactWithPrizes = (
+  costMatrix: number[][],
+  prizes: PrizeSettings,
+  depot: number,
+  precedences: Precedence[] = []
+): ExactResult | null => {
+  const n = costMatrix.length;
+  if (n < 2 || n > HELD_KARP_MAX_CITIES) return null;
+  if (precedences.some(([, after]) => after === depot)) return { path: [], cost: Infinity, method: 'held-karp' };
+
+  const { customers, tourCost, rebuildTour } = solveSubsetTours(costMatrix, depot, precedences);
+  let bestCost = Infinity;
+  let bestSubset = -1;
+  for (let subset = 1; subset < 1 << customers.length; subset++) {
+    const skipped = customers.filter((_, b) => !(subset & (1 << b)));
+    if (!skipped.every(city => prizes.optional[city])) continue;
+    const cost = tourCost[subset] + totalReward(skipped, prizes);
+    if (cost < bestCost) {
+      bestCost = cost;
+      bestSubset = subset;
+    }
+  }
+
+  if (isForbidden(bestCost)) return { path: [], cost: Infinity, method: 'held-karp' };
+  return { path: rebuildTour(bestSubset), cost: roundCost(bestCost), method: 'held-karp' };
+};
+
+/**
+ * Optimum sous fenêtres horaires (et précédences, arcs imposés, villes facultatives éventuels) : énumération
+ * des itinéraires partant de origin, coupée dès que le coût partiel (trajets + retards) atteint le meilleur connu.
+ * Chemin ouvert si openPath est fourni. Retourne null au-delà de BRUTE_FORCE_MAX_CITIES villes.
+ */
+export const solveExactWithTimeWindows = (
+  costMatrix: number[][],
+  timeWindows: TimeWindowSettings,
+  origin: number,
+  openPath?: OpenPathEnds,
+  precedences: Precedence[] = [],
+  mandatoryArcs: MandatoryArc[] = [],
+  prizes?: PrizeSettings
+): ExactResult | null => {
+  const n = costMatrix.length;
+  if (n < 2 || n > BRUTE_FORCE_MAX_CITIES) return null;
+  if (precedences.some(([, after]) => after === origin)) return { path: [], cost: Infinity, method: 'brute-force' };
+
+  const closed = !openPath;
+  const end = openPath?.end ?? null;
+  // Un chemin ouvert ne peut pas s'arrêter sur le départ d'un arc imposé
+  const mandatoryFrom = new Set(mandatoryArcs.map(([from]) => from));
+  const restricted = restrictToMandatoryArcs(costMatrix, mandatoryArcs);
+  const isAllowed = (from: number, to: number) => !isForbidden(restricted[from][to]);
+  const route = [origin];
+  const visited = new Set(route);
+  let bestCost = Infinity;
+  let bestPath: number[] = [];
+
+  const search = () => {
+    const last = route[route.length - 1];
+    // Villes facultatives : la tournée peut se refermer dès que les villes restantes peuvent toutes être écartées
+    const skipped = costMatrix.map((_, city) => city).filter(city => !visited.has(city));
+    if (route.length === n || (prizes && route.length > 1 && skipped.every(city => prizes.optional[city]))) {
+      if (closed ? isAllowed(last, origin) : !mandatoryFrom.has(last)) {
+        const cost = roundCost(evaluateRoute(route, costMatrix, timeWindows, closed) + (prizes ? totalReward(skipped, prizes) : 0));
+        if (cost < bestCost) {
+          bestCost = cost;
+          bestPath = [...route];
+        }
+      }
+      if (route.length === n) return;
+    }
+
+    for (let city = 0; city < n; city++) {
+      if (visited.has(city) || !isAllowed(last, city)) continue;
+      // L'arrivée imposée termine le chemin ; une ville n'est visitée qu'après celles qui doivent la précéder
+      if (city === end && route.length < n - 1) continue;
+      if (precedences.some(([before, after]) => after === city && !visited.has(before))) continue;
+
+      route.push(city);
+      visited.add(city);
+      if (evaluateRoute(route, costMatrix, timeWindows, false) < bestCost) search();
+      route.pop();
+      visited.delete(city);
+    }
+  };
+
+  search();
+  return { path: bestPath, cost: bestCost, method: 'brute-force' };
+};
@@ -0,0 +1,115 @@
+import { isForbidden } from '../utils/costs';
+
+// Détection a priori des instances sans circuit hamiltonien (arcs interdits)
+
+export const HAMILTONIAN_CHECK_MAX_CITIES = 16;
+
+export interface FeasibilityReport {
+  feasible: boolean | null; // null : conditions nécessaires vérifiées, test exact non effectué (instance trop grande)
+  reason?: string;
+}
+
+const isAllowed = (matrix: number[][], i: number, j: number) =>
+  i !== j && !isNaN(matrix[i][j]) && !isForbidden(matrix[i][j]);
+
+// Villes atteignables depuis start en suivant les arcs autorisés (ou en sens inverse)
+const reachable = (matrix: number[][], start: number, reverse: boolean): boolean[] => {
+  const n = matrix.length;
+  const seen = Array(n).fill(false);
+  const stack = [start];
+  seen[start] = true;
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    for (let j = 0; j < n; j++) {
+      if (!seen[j] && (reverse ? isAllowed(matrix, j, i) : isAllowed(matrix, i, j))) {
+        seen[j] = true;
+        stack.push(j);
+      }
+    }
+  }
+  return seen;
+};
+
+/**
+ * Existence d'un circuit hamiltonien par programmation dynamique sur les sous-ensembles :
+ * ends[S] = ensemble (bits) des villes où peut finir un chemin partant de 0 et visitant exactement S ∪ {0}.
+ */
+const hasHamiltonianCycle = (matrix: number[][]): boolean => {
+  const n = matrix.length;
+  const m = n - 1; // Bit k ↔ ville k+1
+  const ends = new Uint32Array(1 << m);
+
+  // successors[k] : villes (bits) accessibles depuis la ville k+1
+  const successors = Array.from({ length: m }, (_, k) => {
+    let bits = 0;
+    for (let next = 0; next < m; next++) {
+      if (isAllowed(matrix, k + 1, next + 1)) bits |= 1 << next;
+    }
+    return bits;
+  });
+
+  for (let k = 0; k < m; k++) {
+    if (isAllowed(matrix, 0, k + 1)) ends[1 << k] |= 1 << k;
+  }
+
+  for (let subset = 1; subset < 1 << m; subset++) {
+    const last = ends[subset];
+    if (!last) continue;
+    for (let k = 0; k < m; k++) {
+      if (!(last & (1 << k))) continue;
+      let candidates = successors[k] & ~subset;
+      while (candidates) {
+        const bit = candidates & -candidates;
+        ends[subset | bit] |= bit;
+        candidates ^= bit;
+      }
+    }
+  }
+
+  const full = ends[(1 << m) - 1];
+  for (let k = 0; k < m; k++) {
+    if ((full & (1 << k)) && isAllowed(matrix, k + 1, 0)) return true;
+  }
+  return false;
+};
+
+/**
+ * Vérifie qu'il existe au moins un circuit passant une fois par chaque ville sans arc interdit.
+ * Conditions nécessaires (arc sortant et entrant pour chaque ville, forte connexité) pour toute taille,
+ * test exact jusqu'à HAMILTONIAN_CHECK_MAX_CITIES villes.
+ */
+export const checkFeasibility = (matrix: number[][], cityNames: string[] = []): FeasibilityReport => {
+  const n = matrix.length;
+  const name = (i: number) => cityNames[i] || `Ville ${i + 1}`;
+
+  for (let i = 0; i < n; i++) {
+    const row = Array.from({ length: n }, (_, j) => j);
+    if (!row.some(j => isAllowed(matrix, i, j))) {
+      return { feasible: false, reason: `Aucun arc autorisé ne part de ${name(i)}` };
+    }
+    if (!row.some(j => isAllowed(matrix, j, i))) {
+      return { feasible: false, reason: `Aucun arc autorisé n'arrive en ${name(i)}` };
+    }
+  }
+
+  const forward = reachable(matrix, 0, false);
+  const unreachable = forward.findIndex(seen => !seen);
+  if (unreachable !== -1) {
+    return { feasible: false, reason: `${name(unreachable)} est inaccessible depuis ${name(0)}` };
+  }
+  const backward = reachable(matrix, 0, true);
+  const stuck = backward.findIndex(seen => !seen);
+  if (stuck !== -1) {
+    return { feasible: false, reason: `Impossible de revenir en ${name(0)} depuis ${name(stuck)}` };
+  }
+
+  // Graphe complet : tout ordre de visite convient
+  if (matrix.every((row, i) => row.every((_, j) => i === j || isAllowed(matrix, i, j)))) {
+    return { feasible: true };
+  }
+  if (n > HAMILTONIAN_CHECK_MAX_CITIES) return { feasible: null };
+
+  return hasHamiltonianCycle(matrix)
+    ? { feasible: true }
+    : { feasible: false, reason: 'Aucun circuit ne passe une seule fois par chaque ville avec les arcs autorisés' };
+};
@@ -0,0 +1,461 @@
+import { HeuristicMethod, LittleStep, ReducedMatrix, TSPResult } from '../types';
+import { buildTourMatrix, fromCostMatrix } from './reducedMatrix';
+import { calculateTourCost, rotateTour } from './little';
+import { DUMMY_CITY_NAME, OpenPathEnds, buildOpenPathMatrix, formatRoute, toOpenPath } from './openPath';
+import { MandatoryArc, restrictToMandatoryArcs } from './mandatoryArcs';
+import { formatCost, isSymmetricMatrix, roundCost } from '../utils/costs';
+
+// Heuristiques de construction : un circuit en une seule passe, sans garantie d'optimalité, pour les
+// instances trop grandes pour la méthode de Little. Elles travaillent sur la même matrice (arcs interdits
+// infinis, chemin ouvert ramené à un circuit par la ville fictive, arcs imposés par la matrice restreinte)
+// et peuvent échouer lorsque les arcs interdits les mènent dans une impasse.
+
+export interface HeuristicOptions {
+  cityNames?: string[];
+  openPath?: OpenPathEnds;
+  depot?: number; // Ville par laquelle commence le circuit retourné (0 par défaut)
+  mandatoryArcs?: MandatoryArc[];
+}
+
+export const HEURISTIC_LABELS: Record<HeuristicMethod, string> = {
+  'nearest-neighbour': 'Plus proche voisin (tous les départs)',
+  'greedy-edge': 'Arêtes les moins chères (glouton)',
+  'cheapest-insertion': 'Insertion la moins coûteuse',
+  'farthest-insertion': 'Insertion la plus lointaine'
+};
+
+// Au-delà, les étapes ne transportent pas de matrice (description seule)
+export const HEURISTIC_MATRIX_MAX_CITIES = 20;
+
+interface Construction {
+  matrix: number[][];
+  forcedNext: number[]; // Successeur imposé (seul arc autorisé de la ligne), -1 sinon
+  forcedPrevious: number[]; // Prédécesseur imposé (seul arc autorisé de la colonne), -1 sinon
+  detailed: boolean; // Petite instance : coûts détaillés dans les descriptions
+  starts: number[]; // Plus proche voisin : villes de départ essayées
+  lastCity: number | null; // Ville à visiter en dernier avant le retour au départ (arrivée du chemin ouvert)
+  cityName: (i: number) => string;
+  push: (step: Omit<LittleStep, 'step'>) => void;
+  snapshot: (arcs: Array<[number, number]>) => ReducedMatrix;
+}
+
+const tourArcs = (tour: number[]): Array<[number, number]> =>
+  tour.map((city, k): [number, number] => [city, tour[(k + 1) % tour.length]]);
+
+const chainArcs = (chain: number[]): Array<[number, number]> =>
+  chain.slice(1).map((city, k): [number, number] => [chain[k], city]);
+
+// Coût d'un arc, Infinity pour une boucle ou un arc interdit
+const arcCost = (matrix: number[][], i: number, j: number) => i === j ? Infinity : matrix[i][j];
+
+// Seul arc autorisé de chaque ligne (transposed : de chaque colonne), -1 s'il y en a plusieurs
+const forcedArcs = (matrix: number[][], transposed: boolean): number[] =>
+  matrix.map((_, i) => {
+    const allowed = matrix.flatMap((_, j) => arcCost(matrix, transposed ? j : i, transposed ? i : j) === Infinity ? [] : [j]);
+    return allowed.length === 1 ? allowed[0] : -1;
+  });
+
+/**
+ * Plus proche voisin depuis chaque départ : on rejoint à chaque pas la ville non visitée la plus proche,
+ * puis on revient au départ ; le meilleur circuit est retenu.
+ */
+const nearestNeighbour = ({ matrix, starts, lastCity, detailed, cityName, push, snapshot }: Construction): number[] => {
+  const n = matrix.length;
+  const cost = (i: number, j: number) => arcCost(matrix, i, j);
+  let best: number[] = [];
+  let bestCost = Infinity;
+
+  for (const start of starts) {
+    const tour = [start];
+    const visited = new Set(tour);
+    const legs: string[] = [];
+    while (tour.length < n) {
+      const last = tour[tour.length - 1];
+      // L'arrivée imposée n'est choisie qu'une fois toutes les autres villes visitées
+      const reserved = tour.length < n - 1 ? lastCity : null;
+      let next = -1;
+      for (let j = 0; j < n; j++) {
+        if (visited.has(j) || j === reserved || cost(last, j) === Infinity) continue;
+        if (next === -1 || cost(last, j) < cost(last, next)) next = j;
+      }
+      if (next === -1) break;
+      legs.push(detailed ? `${cityName(next)} (${formatCost(cost(last, next))})` : cityName(next));
+      tour.push(next);
+      visited.add(next);
+    }
+
+    const last = tour[tour.length - 1];
+    const complete = tour.length === n && cost(last, start) !== Infinity;
+    const tourCost = complete ? calculateTourCost(tour, matrix) : Infinity;
+    const improved = tourCost < bestCost;
+    if (improved) {
+      best = tour;
+      bestCost = tourCost;
+    }
+
+    push({
+      type: 'branch',
+      title: `Plus proche voisin - Départ de ${cityName(start)}`,
+      matrix: snapshot(complete ? tourArcs(tour) : chainArcs(tour)),
+      bound: tourCost,
+      description: `À chaque pas, la ville non visitée la plus proche :\n${[cityName(start), ...legs].join(' → ')}` +
+        (complete
+          ? ` → ${cityName(start)} (retour, ${formatCost(cost(last, start))})\nCoût : ${formatCost(tourCost)}` +
+            (improved ? ' — meilleur circuit jusqu\'ici.' : ` (meilleur circuit : ${formatCost(bestCost)}).`)
+          : `\nImpasse en ${cityName(last)} : aucun arc autorisé ${tour.length < n ? 'vers une ville non visitée' : 'de retour au départ'}.`),
+      selectedArc: tour.length > 1 ? [tour[0], tour[1]] : undefined,
+      ...(improved && { incumbent: true })
+    });
+  }
+
+  return best;
+};
+
+/**
+ * Arêtes les moins chères : les arcs sont examinés par coût croissant et retenus tant qu'aucune ville n'a
+ * deux successeurs ou deux prédécesseurs (deux voisins au plus pour une instance symétrique, dont les arêtes
+ * sont sans orientation) et qu'aucun sous-circuit ne se ferme avant le dernier arc.
+ */
+const greedyEdge = ({ matrix, forcedNext, forcedPrevious, cityName, push, snapshot }: Construction): number[] => {
+  const n = matrix.length;
+  const symmetric = isSymmetricMatrix(matrix);
+  const cost = (i: number, j: number) => arcCost(matrix, i, j);
+  const edgeName = ([i, j]: [number, number]) =>
+    symmetric ? `{${cityName(i)}, ${cityName(j)}}` : `(${cityName(i)}, ${cityName(j)})`;
+
+  const candidates: Array<[number, number]> = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = symmetric ? i + 1 : 0; j < n; j++) {
+      if (cost(i, j) !== Infinity) candidates.push([i, j]);
+    }
+  }
+  // Arcs imposés (seul arc autorisé d'une ligne ou d'une colonne) : examinés en premier, retenus d'office
+  const forced = ([i, j]: [number, number]) => forcedNext[i] === j || forcedPrevious[j] === i
+    || (symmetric && (forcedNext[j] === i || forcedPrevious[i] === j));
+  candidates.sort((a, b) => Number(forced(b)) - Number(forced(a)) || cost(...a) - cost(...b));
+
+  // Fragments (chaînes) formés par les arcs retenus : union-find
+  const parent = Array.from({ length: n }, (_, i) => i);
+  const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+  const degree = Array(n).fill(0);
+  const hasSuccessor = Array(n).fill(false);
+  const hasPredecessor = Array(n).fill(false);
+  const chosen: Array<[number, number]> = [];
+  let rejected: string[] = [];
+
+  for (const arc of candidates) {
+    if (chosen.length === n) break;
+    const [i, j] = arc;
+    const reason = symmetric
+      ? degree[i] >= 2 ? `${cityName(i)} a déjà deux voisins` : degree[j] >= 2 ? `${cityName(j)} a déjà deux voisins` : null
+      : hasSuccessor[i] ? `${cityName(i)} a déjà un successeur` : hasPredecessor[j] ? `${cityName(j)} a déjà un prédécesseur` : null;
+    const closesSubtour = !reason && find(i) === find(j) && chosen.length < n - 1;
+    if (reason || closesSubtour) {
+      rejected.push(`${edgeName(arc)} (${reason ?? 'fermerait un sous-circuit'})`);
+      continue;
+    }
+
+    parent[find(i)] = find(j);
+    degree[i]++;
+    degree[j]++;
+    hasSuccessor[i] = true;
+    hasPredecessor[j] = true;
+    chosen.push(arc);
+
+    push({
+      type: 'branch',
+      title: `Arêtes les moins chères - ${chosen.length} / ${n}`,
+      matrix: snapshot(chosen),
+      bound: chosen.reduce((sum, [a, b]) => roundCost(sum + cost(a, b)), 0),
+      description: `${symmetric ? 'Arête' : 'Arc'} ${edgeName(arc)} retenu${symmetric ? 'e' : ''} (coût ${formatCost(cost(i, j))}) : ` +
+        (forced(arc)
+          ? `seul ${symmetric ? 'arête' : 'arc'} autorisé${symmetric ? 'e' : ''} pour l'une de ses villes, retenu${symmetric ? 'e' : ''} d'office.`
+          : `le moins cher des candidats restants compatibles avec les ${symmetric ? 'arêtes' : 'arcs'} déjà choisis.`) +
+        (chosen.length === n ? ' Il referme le circuit.' : '') +
+        (rejected.length > 0
+          ? `\nÉcartés depuis le choix précédent : ${rejected.slice(0, 5).join(', ')}` +
+            (rejected.length > 5 ? ` et ${rejected.length - 5} autre(s)` : '')
+          : ''),
+      selectedArc: arc
+    });
+    rejected = [];
+  }
+
+  if (chosen.length < n) {
+    push({
+      type: 'branch',
+      title: 'Arêtes les moins chères - Impasse',
+      matrix: snapshot(chosen),
+      bound: Infinity,
+      description: `Plus aucun ${symmetric ? 'arête' : 'arc'} autorisé ne relie les ${n - chosen.length} fragment(s) restant(s) en un circuit.`
+    });
+    return [];
+  }
+
+  // Parcours du circuit depuis la ville 0 (instance symétrique : dans l'un des deux sens)
+  const neighbours = Array.from({ length: n }, () => [] as number[]);
+  chosen.forEach(([i, j]) => {
+    neighbours[i].push(j);
+    if (symmetric) neighbours[j].push(i);
+  });
+  const tour = [0];
+  while (tour.length < n) {
+    const last = tour[tour.length - 1];
+    tour.push(neighbours[last].find(city => city !== tour[tour.length - 2])!);
+  }
+  return tour;
+};
+
+/**
+ * Insertion : partant d'un sous-tour, on insère à chaque pas une ville à la position de plus faible surcoût
+ * c(a, k) + c(k, b) − c(a, b). Insertion la moins coûteuse : la ville et la position de plus faible surcoût ;
+ * insertion la plus lointaine : la ville la plus éloignée du sous-tour, à sa meilleure position.
+ * Une ville liée à d'autres par des arcs imposés est insérée avec toute sa chaîne.
+ */
+const insertion = (farthest: boolean) => ({
+  matrix, forcedNext, forcedPrevious, starts, cityName, push, snapshot
+}: Construction): number[] => {
+  const n = matrix.length;
+  const cost = (i: number, j: number) => arcCost(matrix, i, j);
+  const title = farthest ? 'Insertion la plus lointaine' : 'Insertion la moins coûteuse';
+
+  // Chaîne d'arcs imposés contenant k, limitée aux villes hors du sous-tour
+  const chainOf = (k: number, inTour: Set<number>): number[] => {
+    const chain = [k];
+    for (let city = forcedPrevious[k]; city !== -1 && !inTour.has(city) && !chain.includes(city); city = forcedPrevious[city]) {
+      chain.unshift(city);
+    }
+    for (let city = forcedNext[k]; city !== -1 && !inTour.has(city) && !chain.includes(city); city = forcedNext[city]) {
+      chain.push(city);
+    }
+    return chain;
+  };
+  const chainCost = (chain: number[]) => chain.slice(1).reduce((sum, city, k) => sum + cost(chain[k], city), 0);
+  // Surcoût de l'insertion de chain entre a et b
+  const insertionCost = (a: number, chain: number[], b: number) =>
+    cost(a, chain[0]) + chainCost(chain) + cost(chain[chain.length - 1], b) - cost(a, b);
+
+  // Sous-tour initial : aller-retour entre le départ (avec sa chaîne d'arcs imposés) et la ville
+  // la plus proche (la plus éloignée)
+  const origin = chainOf(starts[0], new Set());
+  let partner: number[] = [];
+  let partnerTrip = Infinity;
+  for (let j = 0; j < n; j++) {
+    if (origin.includes(j)) continue;
+    const chain = chainOf(j, new Set(origin));
+    const roundTrip = cost(origin[origin.length - 1], chain[0]) + chainCost(chain) + cost(chain[chain.length - 1], origin[0]);
+    if (roundTrip === Infinity) continue;
+    if (partner.length === 0 || (farthest ? roundTrip > partnerTrip : roundTrip < partnerTrip)) {
+      partner = chain;
+      partnerTrip = roundTrip;
+    }
+  }
+  let tour = [...origin, ...partner];
+  if (tour.length < 2 || tour.some((city, k) => cost(city, tour[(k + 1) % tour.length]) === Infinity)) {
+    push({
+      type: 'branch',
+      title: `${title} - Impasse`,
+      matrix: snapshot([]),
+      bound: Infinity,
+      description: `Aucun sous-tour initial autorisé depuis ${cityName(starts[0])}.`
+    });
+    return [];
+  }
+
+  push({
+    type: 'branch',
+    title: `${title} - Sous-tour initial`,
+    matrix: snapshot(tourArcs(tour)),
+    bound: calculateTourCost(tour, matrix),
+    description: `Sous-tour de départ : ${formatRoute(tour, cityName)}` +
+      (partner.length > 0
+        ? ` : ${partner.map(cityName).join(' → ')} donne l'aller-retour ${farthest ? 'le plus long' : 'le plus court'} depuis ${origin.map(cityName).join(' → ')}.`
+        : ' (arcs imposés).')
+  });
+
+  // Distance de chaque ville au sous-tour (dans un sens ou dans l'autre)
+  const distance = Array(n).fill(Infinity);
+  const approach = (city: number) => {
+    for (let k = 0; k < n; k++) distance[k] = Math.min(distance[k], cost(city, k), cost(k, city));
+  };
+  tour.forEach(approach);
+
+  // Meilleure position d'insertion de chain : surcoût et indice de l'arc (a, b) remplacé
+  const bestPosition = (current: number[], chain: number[]) => {
+    let delta = Infinity;
+    let position = -1;
+    current.forEach((a, p) => {
+      const value = insertionCost(a, chain, current[(p + 1) % current.length]);
+      if (value < delta) {
+        delta = value;
+        position = p;
+      }
+    });
+    return { delta, position };
+  };
+
+  while (tour.length < n) {
+    const current: number[] = tour;
+    const inTour = new Set(current);
+    const remaining = Array.from({ length: n }, (_, k) => k).filter(k => !inTour.has(k));
+    let chain: number[] = [];
+    let choice = { delta: Infinity, position: -1 };
+    let farDistance = Infinity;
+    if (farthest) {
+      // La plus éloignée parmi les villes insérables avec des arcs autorisés
+      const byDistance = remaining.filter(k => distance[k] !== Infinity).sort((k, l) => distance[l] - distance[k]);
+      for (const city of byDistance) {
+        chain = chainOf(city, inTour);
+        choice = bestPosition(current, chain);
+        farDistance = distance[city];
+        if (choice.delta !== Infinity) break;
+      }
+    } else {
+      for (const k of remaining) {
+        const candidate = chainOf(k, inTour);
+        const position = bestPosition(current, candidate);
+        if (chain.length === 0 || position.delta < choice.delta) {
+          chain = candidate;
+          choice = position;
+        }
+      }
+    }
+
+    const chainName = chain.map(cityName).join(' → ');
+    if (chain.length === 0 || choice.delta === Infinity) {
+      push({
+        type: 'branch',
+        title: `${title} - Impasse`,
+        matrix: snapshot(tourArcs(current)),
+        bound: Infinity,
+        description: `${chain.length === 0 ? 'Aucune ville restante' : chainName} ne peut être insérée dans le sous-tour ${formatRoute(current, cityName)} avec des arcs autorisés.`
+      });
+      return [];
+    }
+
+    const a = current[choice.position];
+    const b = current[(choice.position + 1) % current.length];
+    const head = chain[0];
+    const tail = chain[chain.length - 1];
+    tour = [...current.slice(0, choice.position + 1), ...chain, ...current.slice(choice.position + 1)];
+    chain.forEach(approach);
+
+    push({
+      type: 'branch',
+      title: `${title} - ${chainName} (${tour.length} / ${n})`,
+      matrix: snapshot(tourArcs(tour)),
+      bound: calculateTourCost(tour, matrix),
+      description: (farthest
+        ? `${chainName} : ville la plus éloignée du sous-tour (distance ${formatCost(farDistance)}). `
+        : `${chainName} : plus faible surcoût d'insertion parmi les ${remaining.length} villes restantes. `) +
+        (chain.length > 1 ? 'Chaîne d\'arcs imposés, insérée d\'un bloc. ' : '') +
+        `Insérée entre ${cityName(a)} et ${cityName(b)} : surcoût c(${cityName(a)}, ${cityName(head)})` +
+        (chain.length > 1 ? ` + ${formatCost(chainCost(chain))}` : '') +
+        ` + c(${cityName(tail)}, ${cityName(b)}) − c(${cityName(a)}, ${cityName(b)}) = ` +
+        `${formatCost(cost(a, head))} + ${chain.length > 1 ? `${formatCost(chainCost(chain))} + ` : ''}${formatCost(cost(tail, b))} − ${formatCost(cost(a, b))} = ${formatCost(roundCost(choice.delta))}.\n` +
+        `Sous-tour : ${formatRoute(tour, cityName)}`,
+      selectedArc: [a, head]
+    });
+  }
+
+  return tour;
+};
+
+const CONSTRUCTIONS: Record<HeuristicMethod, (construction: Construction) => number[]> = {
+  'nearest-neighbour': nearestNeighbour,
+  'greedy-edge': greedyEdge,
+  'cheapest-insertion': insertion(false),
+  'farthest-insertion': insertion(true)
+};
+
+const PRINCIPLES: Record<HeuristicMethod, string> = {
+  'nearest-neighbour': 'Depuis chaque ville de départ, on rejoint à chaque pas la ville non visitée la plus proche, puis on revient au départ. Le meilleur de ces circuits est retenu.',
+  'greedy-edge': 'Les arcs sont examinés par coût croissant ; chacun est retenu s\'il ne donne pas deux successeurs ou deux prédécesseurs à une ville (deux voisins au plus pour une instance symétrique) et ne ferme pas de sous-circuit avant la fin.',
+  'cheapest-insertion': 'Partant d\'un petit sous-tour, on insère à chaque pas la ville et la position de plus faible surcoût c(a, k) + c(k, b) − c(a, b).',
+  'farthest-insertion': 'Partant d\'un petit sous-tour, on insère à chaque pas la ville la plus éloignée du sous-tour, à la position de plus faible surcoût c(a, k) + c(k, b) − c(a, b).'
+};
+
+/**
+ * Construit un circuit (ou un chemin ouvert) par l'heuristique method, avec ses étapes.
+ * Coût Infinity et itinéraire vide si l'heuristique aboutit à une impasse.
+ * Retourne null si la matrice contient moins de 3 villes.
+ */
+export const solveHeuristic = (
+  inputMatrix: number[][],
+  method: HeuristicMethod,
+  options: HeuristicOptions = {}
+): TSPResult | null => {
+  if (inputMatrix.length < 3) return null;
+
+  // Chemin ouvert : circuit passant par la ville fictive (dernier indice), construit depuis celle-ci
+  const { openPath } = options;
+  const costMatrix = restrictToMandatoryArcs(
+    openPath ? buildOpenPathMatrix(inputMatrix, openPath) : inputMatrix,
+    options.mandatoryArcs ?? []
+  );
+  const n = costMatrix.length;
+  const dummy = openPath ? n - 1 : -1;
+  const depot = !openPath && options.depot !== undefined && options.depot < n ? options.depot : 0;
+  const cityName = (i: number): string => i === dummy ? DUMMY_CITY_NAME : options.cityNames?.[i] || `Ville ${i + 1}`;
+  const routeName = openPath ? 'Chemin' : 'Circuit';
+  const label = HEURISTIC_LABELS[method];
+
+  const steps: LittleStep[] = [];
+  const push = (step: Omit<LittleStep, 'step'>) => steps.push({ step: steps.length + 1, ...step });
+  const small = n <= HEURISTIC_MATRIX_MAX_CITIES;
+  const snapshot = (arcs: Array<[number, number]>): ReducedMatrix => {
+    if (!small) return { rows: [], cols: [], values: [] };
+    const matrix = fromCostMatrix(costMatrix);
+    const kept = new Set(arcs.map(([i, j]) => `${i}-${j}`));
+    matrix.values = matrix.values.map((row, i) => row.map((value, j) => kept.has(`${i}-${j}`) ? value : Infinity));
+    return matrix;
+  };
+
+  push({
+    type: 'reduction',
+    title: `Heuristique : ${label}`,
+    matrix: small ? fromCostMatrix(costMatrix) : snapshot([]),
+    bound: 0,
+    description: PRINCIPLES[method] +
+      (openPath
+        ? `\nChemin ouvert de ${cityName(openPath.start)} ${openPath.end === null ? 'vers une arrivée libre' : `à ${cityName(openPath.end)}`} : la ${DUMMY_CITY_NAME.toLowerCase()} relie l'arrivée au départ, le chemin se construit comme un circuit à partir d'elle.`
+        : '') +
+      (options.mandatoryArcs?.length ? '\nArcs imposés : leurs arcs concurrents sont interdits (∞).' : '') +
+      (small ? '' : `\nAu-delà de ${HEURISTIC_MATRIX_MAX_CITIES} villes, les étapes ne présentent pas la matrice.`)
+  });
+
+  const tour = CONSTRUCTIONS[method]({
+    matrix: costMatrix,
+    forcedNext: forcedArcs(costMatrix, false),
+    forcedPrevious: forcedArcs(costMatrix, true),
+    detailed: small,
+    // Chemin ouvert : construit depuis la ville fictive, qui mène au départ ; circuit : dépôt essayé en premier
+    starts: openPath ? [dummy] : [depot, ...Array.from({ length: n }, (_, i) => i).filter(i => i !== depot)],
+    lastCity: openPath?.end ?? null,
+    cityName,
+    push,
+    snapshot
+  });
+
+  const rotated = rotateTour(tour, openPath ? dummy : depot);
+  const path = openPath ? toOpenPath(rotated, dummy) : rotated;
+  const cost = tour.length > 0 ? calculateTourCost(rotated, costMatrix) : Infinity;
+
+  push({
+    type: 'final',
+    title: tour.length > 0 ? 'Solution heuristique' : 'Aucun circuit construit',
+    matrix: tour.length > 0 && small ? buildTourMatrix(rotated, costMatrix) : snapshot([]),
+    bound: cost,
+    description: tour.length > 0
+      ? `${label} — ${routeName}: ${formatRoute(path, cityName, !!openPath)}\nCoût: ${formatCost(cost)}. Solution approchée : son optimalité n'est pas garantie.`
+      : `${label} : les arcs interdits ont mené à une impasse, aucun ${routeName.toLowerCase()} n'a été construit. Essayez une autre heuristique ou la méthode de Little.`
+  });
+
+  return {
+    path,
+    cost,
+    steps,
+    heuristic: method,
+    ...(openPath && { open: true })
+  };
+};
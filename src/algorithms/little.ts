@@ -0,0 +1,692 @@
+import { BranchKind, LittleStep, ReducedMatrix, TSPResult } from '../types';
+import {
+  blockArc,
+  buildTourMatrix,
+  calculateRegrets,
+  cloneMatrix,
+  findMaxRegret,
+  fromCostMatrix,
+  hasUsableArcEverywhere,
+  reduceMatrix,
+  removeRowAndColumn
+} from './reducedMatrix';
+import { computeOneTreePenalties, oneTreeBound } from './oneTree';
+import { DUMMY_CITY_NAME, OpenPathEnds, buildOpenPathMatrix, formatRoute, toOpenPath } from './openPath';
+import { Precedence, findPrecedenceViolation, precedenceBlockedArcs } from './precedence';
+import { SalesmenSettings, buildDepotCopiesMatrix, flattenTours, formatTours, splitDepotTour } from './multipleTsp';
+import { TimeWindowSettings, computeSchedule, firstLateStop, latenessCost } from './timeWindows';
+import { MandatoryArc, describeMandatoryConflict } from './mandatoryArcs';
+import { PrizeSettings, hasInvalidSelectiveCycle, isSelectiveTour, missingCities, totalReward } from './prizeCollecting';
+import { formatCost, isSymmetricMatrix, roundCost } from '../utils/costs';
+
+export interface LittleProgress {
+  exploredNodes: number; // Sommets développés
+  openNodes: number; // Sommets en attente dans la file
+  bestCost: number; // Coût du meilleur circuit connu (Infinity si aucun)
+  bestPath: number[]; // Itinéraire (chemin ouvert : ville fictive retirée)
+  bestTours?: number[][]; // Plusieurs voyageurs : tournées du meilleur itinéraire
+  bestSkipped?: number[]; // Villes facultatives : villes écartées du meilleur circuit
+}
+
+export interface LittleOptions {
+  // Noms des villes utilisés dans les descriptions des étapes (sinon "Ville k")
+  cityNames?: string[];
+  // Appelé pour chaque étape, au fur et à mesure de la résolution
+  onStep?: (step: LittleStep) => void;
+  // Appelé tous les progressInterval sommets développés et à chaque nouveau meilleur circuit
+  onProgress?: (progress: LittleProgress) => void;
+  progressInterval?: number;
+  // Chemin ouvert : résolu comme un circuit passant par une ville fictive (voir openPath.ts)
+  openPath?: OpenPathEnds;
+  // Dépôt : ville par laquelle commencent les circuits décrits et retournés (0 par défaut)
+  depot?: number;
+  // Plusieurs voyageurs (coût total) : résolu comme un circuit passant par des copies du dépôt (voir multipleTsp.ts)
+  salesmen?: SalesmenSettings;
+  // Précédences [avant, après] sur la tournée partant du dépôt (ou du départ du chemin) ; ignorées avec plusieurs voyageurs
+  precedences?: Precedence[];
+  // Fenêtres horaires (matrice = temps de trajet) sur la tournée partant du dépôt ; ignorées avec plusieurs voyageurs
+  timeWindows?: TimeWindowSettings;
+  // Arcs imposés, inclus d'office à la racine (avec plusieurs voyageurs, aucun ne doit toucher le dépôt)
+  mandatoryArcs?: MandatoryArc[];
+  // Villes facultatives (mode profit) : boucle (i, i) au prix de la récompense de i ; ignorées pour un chemin ouvert ou plusieurs voyageurs
+  prizes?: PrizeSettings;
+}
+
+interface BranchNode {
+  id: number;
+  parentId?: number;
+  arc?: [number, number]; // Arc exclu ou inclus pour obtenir ce sommet
+  matrix: ReducedMatrix;
+  bound: number;
+  reductionBound: number; // Borne de Little (somme des réductions) ; bound peut être relevée par le 1-arbre
+  includedArcs: Array<[number, number]>;
+  excluded: Array<[number, number]>;
+  level: number;
+  type: BranchKind;
+  parentBound: number;
+}
+
+// Champs structurés décrivant le sommet concerné par une étape
+const nodeFields = (node: BranchNode): Pick<LittleStep, 'nodeId' | 'parentId' | 'branchKind' | 'arc'> => ({
+  nodeId: node.id,
+  parentId: node.parentId,
+  branchKind: node.type,
+  arc: node.arc
+});
+
+// Fonction pour détecter les cycles avec DFS
+export const hasCycle = (includedArcs: Array<[number, number]>): boolean => {
+  if (includedArcs.length === 0) return false;
+
+  // Construire le graphe
+  const graph: Map<number, number[]> = new Map();
+  for (const [from, to] of includedArcs) {
+    if (!graph.has(from)) graph.set(from, []);
+    graph.get(from)!.push(to);
+  }
+
+  const colors = new Array(Math.max(...Array.from(graph.keys())) + 1).fill(0); // 0: white, 1: gray, 2: black
+
+  const dfs = (node: number): boolean => {
+    colors[node] = 1; // gray
+
+    const neighbors = graph.get(node) || [];
+    for (const neighbor of neighbors) {
+      if (colors[neighbor] === 1) {
+        return true; // back edge to gray node = cycle
+      }
+      if (colors[neighbor] === 0 && dfs(neighbor)) {
+        return true;
+      }
+    }
+
+    colors[node] = 2; // black
+    return false;
+  };
+
+  // DFS depuis chaque nœud non visité
+  for (const node of graph.keys()) {
+    if (colors[node] === 0 && dfs(node)) {
+      return true;
+    }
+  }
+
+  return false;
+};
+
+// Fonction pour bloquer les subtours
+// Pour chaque chaîne d'arcs inclus (début → ... → fin) qui ne couvre pas encore toutes les villes,
+// l'arc (fin, début) fermerait un circuit parasite : il est bloqué.
+// canClose : règle remplaçant « toutes les villes couvertes » (villes facultatives)
+export const blockSubtours = (
+  matrix: ReducedMatrix,
+  n: number,
+  includedArcs: Array<[number, number]>,
+  canClose = (chain: number[]) => chain.length >= n
+): { matrix: ReducedMatrix, blockedArcs: Array<[number, number]>, description: string } => {
+  const newMatrix = cloneMatrix(matrix);
+  const blockedArcs: Array<[number, number]> = [];
+  let description = '';
+
+  if (includedArcs.length === 0) {
+    return { matrix: newMatrix, blockedArcs, description };
+  }
+
+  // Construire le graphe (successeur et prédécesseur de chaque ville)
+  const next: Map<number, number> = new Map();
+  const hasPredecessor: Set<number> = new Set();
+  for (const [from, to] of includedArcs) {
+    next.set(from, to);
+    hasPredecessor.add(to);
+  }
+
+  // Parcourir chaque chaîne à partir de son début
+  for (const start of next.keys()) {
+    if (hasPredecessor.has(start)) continue;
+
+    let end = start;
+    const chain = [start];
+    while (next.has(end)) {
+      end = next.get(end)!;
+      chain.push(end);
+    }
+
+    // Une chaîne de n-1 arcs doit pouvoir se refermer : c'est le circuit complet
+    if (canClose(chain)) continue;
+
+    // Bloquer l'arc qui fermerait le subtour
+    if (blockArc(newMatrix, end, start)) {
+      blockedArcs.push([end, start]);
+      description += `Arc (${end+1},${start+1}) bloqué pour éviter le subtour ${start+1}-...-${end+1}-${start+1}\n`;
+    }
+  }
+
+  return { matrix: newMatrix, blockedArcs, description };
+};
+
+// Instance symétrique : un circuit et son parcours en sens inverse ont le même coût. Seul le sens où le
+// successeur de la ville 0 a un indice inférieur à son prédécesseur est exploré : inclure (0, j) bloque
+// les arcs (k, 0) pour k < j, inclure (k, 0) bloque les arcs (0, j) pour j > k.
+export const blockMirrorTours = (matrix: ReducedMatrix, n: number, [from, to]: [number, number]): { matrix: ReducedMatrix, blockedArcs: Array<[number, number]> } => {
+  const newMatrix = cloneMatrix(matrix);
+  const blockedArcs: Array<[number, number]> = [];
+
+  if (from === 0) {
+    for (let k = 1; k < to; k++) {
+      if (blockArc(newMatrix, k, 0)) blockedArcs.push([k, 0]);
+    }
+  } else if (to === 0) {
+    for (let j = from + 1; j < n; j++) {
+      if (blockArc(newMatrix, 0, j)) blockedArcs.push([0, j]);
+    }
+  }
+
+  return { matrix: newMatrix, blockedArcs };
+};
+
+// Fonction pour construire le chemin complet à partir des arcs inclus, en partant de la ville start
+export const buildCompletePath = (includedArcs: Array<[number, number]>, start = 0): number[] => {
+  if (includedArcs.length === 0) return [];
+
+  const next: Map<number, number> = new Map();
+  for (const [from, to] of includedArcs) {
+    next.set(from, to);
+  }
+
+  const path: number[] = [];
+  const visited: Set<number> = new Set();
+  let current = start;
+
+  // Suivre le chemin jusqu'à revenir au départ
+  while (!visited.has(current)) {
+    visited.add(current);
+    path.push(current);
+    if (!next.has(current)) break;
+    current = next.get(current)!;
+  }
+
+  return path;
+};
+
+// Même circuit, parcouru à partir de la ville start (inchangé si start n'en fait pas partie)
+export const rotateTour = (path: number[], start: number): number[] => {
+  const k = path.indexOf(start);
+  return k <= 0 ? path : [...path.slice(k), ...path.slice(0, k)];
+};
+
+// Coût d'un circuit, ou d'un chemin ouvert (open : sans l'arc de retour vers la première ville)
+export const calculateTourCost = (path: number[], matrix: number[][], open = false): number => {
+  let cost = 0;
+  for (let i = 0; i < path.length - (open ? 1 : 0); i++) {
+    const from = path[i];
+    const to = path[(i + 1) % path.length];
+    cost = roundCost(cost + matrix[from][to]);
+  }
+  return cost;
+};
+
+/**
+ * Résout le TSP par la méthode de Little sur une matrice de coûts (diagonale ignorée).
+ * Séparation et évaluation « meilleur d'abord » : les deux fils (exclusion et inclusion) de chaque
+ * sommet sont conservés, et un sommet n'est élagué que si sa borne atteint le coût du meilleur circuit connu.
+ * Retourne null si la matrice contient moins de 3 villes.
+ */
+export const solveLittle = (inputMatrix: number[][], options: LittleOptions = {}): TSPResult | null => {
+  if (inputMatrix.length < 3) return null;
+
+  // Chemin ouvert : la ville fictive (dernier indice) referme le chemin en circuit
+  // Plusieurs voyageurs : les copies du dépôt (indices ≥ nombre de villes) séparent les tournées
+  const { openPath } = options;
+  const salesmen = openPath ? undefined : options.salesmen;
+  const cityCount = inputMatrix.length;
+  const costMatrix = openPath
+    ? buildOpenPathMatrix(inputMatrix, openPath)
+    : salesmen ? buildDepotCopiesMatrix(inputMatrix, salesmen) : inputMatrix;
+  const n = costMatrix.length;
+  const dummy = openPath ? n - 1 : -1;
+  // Chemin ouvert : le départ est déjà fixé par la ville fictive
+  const depot = salesmen ? salesmen.depot
+    : !openPath && options.depot !== undefined && options.depot < n ? options.depot : 0;
+  const toTours = (tour: number[]): number[][] => splitDepotTour(tour, depot, cityCount);
+  const toRoute = (tour: number[]): number[] =>
+    openPath ? toOpenPath(tour, dummy) : salesmen ? flattenTours(toTours(tour)) : tour;
+
+  const precedences = salesmen ? [] : options.precedences ?? [];
+  const timeWindows = salesmen ? undefined : options.timeWindows;
+  const prizes = openPath || salesmen ? undefined : options.prizes;
+  const origin = openPath ? openPath.start : depot;
+
+  const cityName = (i: number): string => {
+    if (i === dummy) return DUMMY_CITY_NAME;
+    if (salesmen && i >= cityCount) return `${cityName(depot)} (copie ${i - cityCount + 1})`;
+    return options.cityNames?.[i] || `Ville ${i+1}`;
+  };
+  const routeName = openPath ? 'Chemin' : salesmen ? 'Tournées' : 'Circuit';
+  const describeRoute = (tour: number[]): string =>
+    salesmen ? formatTours(toTours(tour), cityName) : formatRoute(toRoute(tour), cityName, !!openPath);
+  const arcName = ([i, j]: [number, number]): string => `(${cityName(i)}, ${cityName(j)})`;
+
+  const allSteps: LittleStep[] = [];
+  let stepCounter = 1;
+  let nodeCounter = 0;
+  let exploredNodes = 0;
+  const progressInterval = options.progressInterval ?? 25;
+
+  const pushStep = (step: LittleStep) => {
+    allSteps.push(step);
+    options.onStep?.(step);
+  };
+
+  // Matrice de travail : diagonale et arcs interdits infinis
+  const initialMatrix = fromCostMatrix(costMatrix);
+  // Villes facultatives : la boucle (i, i) coûte la récompense perdue ; un circuit partiel se referme
+  // s'il passe par le dépôt et ne laisse de côté que des villes facultatives
+  const skippable = prizes ? prizes.optional.flatMap((canSkip, i) => canSkip ? [i] : []) : [];
+  skippable.forEach(i => { initialMatrix.values[i][i] = prizes!.rewards[i]; });
+  const rewardPool = prizes ? totalReward(prizes.rewards.map((_, i) => i), prizes) : 0;
+  const canClose = prizes ? (chain: number[]) => isSelectiveTour(chain, depot, prizes) : undefined;
+  // Précédences : arcs incompatibles écartés dès la racine
+  const precedenceArcs = precedenceBlockedArcs(origin, precedences, prizes?.optional).filter(([i, j]) => blockArc(initialMatrix, i, j));
+  // Arcs imposés : inclus d'office à la racine comme par un fils inclusion (lignes et colonnes supprimées,
+  // sous-circuits bloqués), leur coût s'ajoutant à la borne. Un arc imposé déjà écarté (∞) rend l'instance irréalisable
+  const mandatoryArcs = options.mandatoryArcs ?? [];
+  const mandatoryConflict = mandatoryArcs.length > 0 ? describeMandatoryConflict(mandatoryArcs, n, cityName) : null;
+  const mandatoryCost = mandatoryArcs.reduce((sum, [i, j]) => roundCost(sum + initialMatrix.values[i][j]), 0);
+  const { matrix: mandatoryMatrix, blockedArcs: mandatoryBlockedArcs } = mandatoryConflict
+    ? { matrix: initialMatrix, blockedArcs: [] }
+    : blockSubtours(mandatoryArcs.reduce((matrix, [i, j]) => removeRowAndColumn(matrix, i, j), initialMatrix), n, mandatoryArcs, canClose);
+
+  // Fenêtres horaires : horaires de la chaîne d'arcs inclus partant de l'origine (ville fictive exclue),
+  // retour à l'origine compris une fois le circuit complet
+  const prefixSchedule = (includedArcs: Array<[number, number]>) => timeWindows
+    ? computeSchedule(
+        buildCompletePath(includedArcs, origin).filter(city => city !== dummy),
+        inputMatrix,
+        timeWindows,
+        !openPath && includedArcs.length === n
+      )
+    : [];
+
+  // Instance symétrique : la borne de chaque sommet est relevée par celle du 1-arbre (Held–Karp),
+  // qui suppose toutes les villes visitées : sans objet avec des villes facultatives
+  const symmetric = !prizes && isSymmetricMatrix(costMatrix);
+  // Le sens inverse d'un circuit ne respecte pas les mêmes précédences, horaires ni arcs imposés : pas d'élimination des miroirs
+  const mirrorElimination = symmetric && precedences.length === 0 && !timeWindows && mandatoryArcs.length === 0;
+  const penalties = symmetric ? computeOneTreePenalties(costMatrix) : [];
+  // Retards pénalisés : ceux de la chaîne partant de l'origine sont acquis et s'ajoutent à la borne
+  const evaluate = (reductionBound: number, matrix: ReducedMatrix, includedArcs: Array<[number, number]>): number => {
+    const bound = symmetric ? Math.max(reductionBound, oneTreeBound(costMatrix, penalties, matrix, includedArcs)) : reductionBound;
+    return timeWindows?.mode === 'penalty' ? roundCost(bound + latenessCost(prefixSchedule(includedArcs), timeWindows)) : bound;
+  };
+
+  // Step 1: Initial reduction
+  const { matrix: reducedMatrix, reduction } = reduceMatrix(mandatoryMatrix);
+  const initialReduction = roundCost(mandatoryCost + reduction);
+  const rootFeasible = !mandatoryConflict && isFinite(mandatoryCost) && hasUsableArcEverywhere(reducedMatrix) &&
+    !findPrecedenceViolation(mandatoryArcs, origin, precedences, prizes?.optional) &&
+    !(timeWindows?.mode === 'strict' && firstLateStop(prefixSchedule(mandatoryArcs)));
+  const initialBound = rootFeasible ? evaluate(initialReduction, reducedMatrix, mandatoryArcs) : Infinity;
+
+  pushStep({
+    step: stepCounter++,
+    type: 'reduction',
+    title: 'Réduction initiale de la matrice',
+    matrix: cloneMatrix(reducedMatrix),
+    bound: initialBound,
+    description: (mandatoryArcs.length > 0
+        ? `Arcs imposés inclus d'office : ${mandatoryArcs.map(arcName).join(', ')} (coût ${formatCost(mandatoryCost)}), lignes et colonnes correspondantes supprimées.` +
+          (mandatoryBlockedArcs.length > 0 ? ` Sous-circuits écartés (∞) : ${mandatoryBlockedArcs.map(arcName).join(', ')}.` : '') +
+          (rootFeasible ? '\n' : `\nArcs imposés incompatibles ${mandatoryConflict ? `(${mandatoryConflict})` : 'avec les arcs interdits ou les autres contraintes'} : aucun ${routeName.toLowerCase()} possible.\n`)
+        : '') +
+      `Réduction par ligne puis par colonne. Borne inférieure initiale: ${formatCost(initialReduction)}` +
+      (mandatoryArcs.length > 0 ? ` (arcs imposés ${formatCost(mandatoryCost)} + réductions ${formatCost(reduction)})` : '') +
+      (symmetric
+        ? `\nInstance symétrique : borne du 1-arbre (Held–Karp) ${formatCost(oneTreeBound(costMatrix, penalties, reducedMatrix, mandatoryArcs))}, borne retenue ${formatCost(initialBound)}.` +
+          (mirrorElimination ? ' Un circuit et son sens inverse ayant le même coût, un seul des deux est exploré.' : '')
+        : '') +
+      (precedences.length > 0
+        ? `\nPrécédences depuis ${cityName(origin)} : ${precedences.map(([before, after]) => `${cityName(before)} avant ${cityName(after)}`).join(', ')}.` +
+          (precedenceArcs.length > 0 ? ` Arcs incompatibles écartés (∞) : ${precedenceArcs.map(arcName).join(', ')}.` : '')
+        : '') +
+      (timeWindows
+        ? `\nFenêtres horaires : la matrice donne les temps de trajet, départ de ${cityName(origin)} à ${formatCost(timeWindows.windows[origin][0])}. ` +
+          (timeWindows.mode === 'strict'
+            ? 'Une inclusion qui fait arriver en retard dans une ville est coupée.'
+            : `Chaque unité de retard coûte ${formatCost(timeWindows.latePenalty)} ; les retards déjà acquis s'ajoutent à la borne.`)
+        : '') +
+      (prizes
+        ? `\nVilles facultatives : ${skippable.length > 0 ? skippable.map(cityName).join(', ') : 'aucune'}. La diagonale de chacune vaut sa récompense : inclure la boucle (i, i) revient à ne pas visiter i. ` +
+          `Coût minimisé : trajets + récompenses perdues (profit = récompenses totales ${formatCost(rewardPool)} − coût).`
+        : '') +
+      (openPath
+        ? `\nChemin ouvert de ${cityName(openPath.start)} ${openPath.end === null ? 'vers une arrivée libre' : `à ${cityName(openPath.end)}`} : la ${DUMMY_CITY_NAME.toLowerCase()} (${n}) relie l'arrivée au départ pour un coût nul, le chemin se résout comme un circuit.`
+        : '') +
+      (salesmen
+        ? `\n${salesmen.count} voyageurs partent de ${cityName(depot)} : le dépôt est dupliqué (villes ${cityCount + 1} à ${n}), sans arc entre deux exemplaires du dépôt. Chaque circuit du problème augmenté se découpe en ${salesmen.count} tournées de même coût total.`
+        : ''),
+    nodeId: 0,
+    branchKind: 'root',
+    ...(mandatoryArcs.length > 0 && { mandatoryArcs: [...mandatoryArcs], blockedArcs: mandatoryBlockedArcs }),
+    ...(!rootFeasible && { pruned: true })
+  });
+
+  // Initialiser l'arborescence avec la racine (vide si les arcs imposés ne mènent à aucun circuit)
+  const root: BranchNode = {
+    id: nodeCounter++,
+    matrix: reducedMatrix,
+    bound: initialBound,
+    reductionBound: initialReduction,
+    includedArcs: [...mandatoryArcs],
+    excluded: [],
+    level: mandatoryArcs.length,
+    type: 'root',
+    parentBound: 0
+  };
+  const queue: BranchNode[] = rootFeasible ? [root] : [];
+
+  let bestCost = Infinity;
+  let bestPath: number[] = [];
+  let bestSkipped: number[] = [];
+  let lastExpandedId: number | null = null;
+
+  const reportProgress = () => {
+    options.onProgress?.({
+      exploredNodes,
+      openNodes: queue.length,
+      bestCost,
+      bestPath: toRoute(bestPath),
+      ...(salesmen && { bestTours: toTours(bestPath) }),
+      ...(prizes && { bestSkipped })
+    });
+  };
+
+  while (queue.length > 0) {
+    // Sort queue by bound (best-first search), deeper nodes first on ties
+    queue.sort((a, b) => a.bound - b.bound || b.level - a.level);
+    const currentNode = queue.shift()!;
+
+    // Tous les sommets restants ont une borne au moins égale au meilleur coût : l'optimum est prouvé
+    if (currentNode.bound >= bestCost) {
+      pushStep({
+        step: stepCounter++,
+        type: 'branch',
+        title: 'Élagage des sommets restants',
+        matrix: cloneMatrix(currentNode.matrix),
+        bound: currentNode.bound,
+        description: `${queue.length + 1} sommet(s) ouvert(s) ont une borne ≥ ${formatCost(bestCost)} (meilleur circuit connu). Ils sont élagués : aucun ne peut mener à un meilleur circuit.`,
+        eliminated: true,
+        ...nodeFields(currentNode),
+        pruned: true
+      });
+      break;
+    }
+
+    // Retour arrière : le sommet repris n'est pas un fils du dernier sommet développé
+    if (lastExpandedId !== null && currentNode.parentId !== lastExpandedId && currentNode.arc) {
+      pushStep({
+        step: stepCounter++,
+        type: 'branch',
+        title: `Retour arrière - Réouverture d'un sommet`,
+        matrix: cloneMatrix(currentNode.matrix),
+        bound: currentNode.bound,
+        description: `Le sommet ${currentNode.type === 'inclusion' ? 'inclusion' : 'exclusion'} de l'arc ${arcName(currentNode.arc)} (borne ${formatCost(currentNode.bound)}), laissé de côté précédemment, est repris car sa borne est la plus faible parmi les sommets ouverts.\nMeilleur circuit connu: ${formatCost(bestCost)}`,
+        selectedArc: currentNode.arc,
+        ...nodeFields(currentNode)
+      });
+    }
+    lastExpandedId = currentNode.id;
+    exploredNodes++;
+    if (exploredNodes % progressInterval === 0) reportProgress();
+
+    // Si on a n arcs inclus, le circuit est complet
+    if (currentNode.level === n) {
+      const completePath = buildCompletePath(currentNode.includedArcs, depot);
+      // Villes facultatives : les villes hors du circuit sont écartées (boucles), leurs récompenses perdues
+      const skipped = prizes ? missingCities(completePath, n) : [];
+      if (prizes ? isSelectiveTour(completePath, depot, prizes) : completePath.length === n) {
+        // Fenêtres horaires : pénalités des retards (Infinity en mode strict)
+        const lateCost = timeWindows ? latenessCost(prefixSchedule(currentNode.includedArcs), timeWindows) : 0;
+        const lostReward = prizes ? totalReward(skipped, prizes) : 0;
+        const tourCost = roundCost(calculateTourCost(completePath, costMatrix) + lateCost + lostReward);
+
+        if (tourCost < bestCost) {
+          bestCost = tourCost;
+          bestPath = completePath;
+          bestSkipped = skipped;
+
+          pushStep({
+            step: stepCounter++,
+            type: 'branch',
+            title: 'Circuit réalisable trouvé',
+            matrix: cloneMatrix(currentNode.matrix),
+            bound: tourCost,
+            description: `${routeName}: ${describeRoute(completePath)}\n` +
+              (skipped.length > 0 ? `Villes écartées : ${skipped.map(cityName).join(', ')} (récompenses perdues ${formatCost(lostReward)})\n` : '') +
+              `Coût: ${formatCost(tourCost)}${lateCost > 0 ? ` (dont ${formatCost(lateCost)} de pénalités de retard)` : ''}. ${salesmen ? 'Ces tournées deviennent' : `Ce ${routeName.toLowerCase()} devient`} la meilleure solution connue ; les sommets de borne ≥ ${formatCost(tourCost)} seront élagués.`,
+            ...nodeFields(currentNode),
+            incumbent: true
+          });
+          reportProgress();
+        }
+      }
+      continue;
+    }
+
+    // Calculate regrets for current matrix
+    const regrets = calculateRegrets(currentNode.matrix);
+    const maxRegretArc = findMaxRegret(currentNode.matrix, regrets);
+
+    if (!maxRegretArc) {
+      // Aucun zéro trouvé : il reste des villes à relier mais aucun arc utilisable
+      pushStep({
+        step: stepCounter++,
+        type: 'branch',
+        title: 'Aucun arc utilisable - Sommet élagué',
+        matrix: cloneMatrix(currentNode.matrix),
+        bound: currentNode.bound,
+        description: `Aucun zéro trouvé dans la matrice alors que le circuit n'est pas complet. Ce sommet ne mène à aucun circuit et il est abandonné.`,
+        eliminated: true,
+        ...nodeFields(currentNode),
+        pruned: true
+      });
+      continue;
+    }
+
+    const { arc: [maxI, maxJ], regret: maxRegret } = maxRegretArc;
+
+    pushStep({
+      step: stepCounter++,
+      type: 'regret',
+      title: `Calcul des regrets - Niveau ${currentNode.level}`,
+      matrix: cloneMatrix(currentNode.matrix),
+      bound: currentNode.bound,
+      description: `Arc sélectionné: ${arcName(maxRegretArc.arc)} avec regret maximum: ${formatCost(maxRegretArc.regret)}`,
+      selectedArc: [maxI, maxJ],
+      regrets: regrets.map(row => [...row]),
+      ...nodeFields(currentNode)
+    });
+
+    // TYPE 1: Exclude the arc (i, j)
+    const excludeMatrix = cloneMatrix(currentNode.matrix);
+    blockArc(excludeMatrix, maxI, maxJ);
+
+    const { matrix: reducedExcludeMatrix } = reduceMatrix(excludeMatrix);
+    const excludeReductionBound = roundCost(currentNode.reductionBound + maxRegret); // b1 = b + ρ(x, y)
+    const excludeBound = evaluate(excludeReductionBound, reducedExcludeMatrix, currentNode.includedArcs);
+
+    // TYPE 2: Inclusion (x, y)
+    // Supprimez la ligne x et la colonne y de la matrice réduite (car la ville x est visitée vers y).
+    // Bloquez l'arc provoquant un circuit parasite (typiquement l'arc retour y → x pour éviter un cycle de longueur 2).
+    // Vérifiez si la nouvelle matrice a au moins un zéro par ligne et par colonne. Sinon, réduisez-la.
+    // Borne b2 = b + somme des valeurs soustraites lors de cette réduction supplémentaire.
+    // Supprimer la ligne x et la colonne y
+    const includeMatrix = removeRowAndColumn(currentNode.matrix, maxI, maxJ);
+
+    const newIncludedArcs: Array<[number, number]> = [...currentNode.includedArcs, [maxI, maxJ]];
+
+    // Bloquer l'arc provoquant un circuit parasite (y → x), sauf pour le dernier arc du circuit
+    // (villes facultatives : le circuit (x, y) peut être la tournée, blockSubtours en décide)
+    const reverseBlocked = !prizes && newIncludedArcs.length < n - 1;
+    if (reverseBlocked) {
+      blockArc(includeMatrix, maxJ, maxI);
+    }
+
+    // Bloquer les subtours
+    const { matrix: matrixWithoutSubtours, blockedArcs, description: subtourDescription } = blockSubtours(includeMatrix, n, newIncludedArcs, canClose);
+
+    // Instance symétrique : écarter le parcours miroir
+    const { matrix: matrixWithoutMirrors, blockedArcs: mirrorArcs } = mirrorElimination
+      ? blockMirrorTours(matrixWithoutSubtours, n, [maxI, maxJ])
+      : { matrix: matrixWithoutSubtours, blockedArcs: [] };
+
+    // Réduire la matrice si nécessaire
+    const { matrix: reducedIncludeMatrix, reduction: includeReduction } = reduceMatrix(matrixWithoutMirrors);
+    // Précédences : l'ordre imposé par les arcs inclus ne doit contredire aucune contrainte
+    const precedenceViolation = findPrecedenceViolation(newIncludedArcs, origin, precedences, prizes?.optional);
+    // Fenêtres strictes : la chaîne partant de l'origine ne doit arriver en retard nulle part
+    const lateStop = timeWindows?.mode === 'strict' ? firstLateStop(prefixSchedule(newIncludedArcs)) : undefined;
+    const includeFeasible = !(prizes ? hasInvalidSelectiveCycle(newIncludedArcs, depot, prizes) : newIncludedArcs.length < n && hasCycle(newIncludedArcs)) &&
+      hasUsableArcEverywhere(reducedIncludeMatrix) && !precedenceViolation && !lateStop;
+    const includeReductionBound = includeFeasible ? roundCost(currentNode.reductionBound + includeReduction) : Infinity; // b2 = b + somme des valeurs soustraites
+    const includeBound = includeFeasible ? evaluate(includeReductionBound, reducedIncludeMatrix, newIncludedArcs) : Infinity;
+
+    // Créer une description des arcs bloqués
+    let subtourInfo = '';
+    if (maxI === maxJ) {
+      subtourInfo += `\n  → Boucle ${arcName([maxI, maxJ])} : l'inclure écarte ${cityName(maxI)} (récompense ${formatCost(prizes!.rewards[maxI])} perdue), l'exclure oblige à la visiter`;
+    }
+    if (blockedArcs && blockedArcs.length > 0) {
+      subtourInfo += `\n  → Subtours bloqués:\n${subtourDescription}`;
+    }
+    if (mirrorArcs.length > 0) {
+      subtourInfo += `\n  → Parcours miroirs écartés : ${mirrorArcs.map(([i, j]) => `(${i+1},${j+1})`).join(', ')} bloqué(s)`;
+    }
+    if (precedenceViolation) {
+      const [before, after] = precedenceViolation;
+      subtourInfo += `\n  → Inclusion impossible : ${cityName(after)} serait visitée avant ${cityName(before)} (précédence ${cityName(before)} avant ${cityName(after)})`;
+    }
+    if (lateStop) {
+      subtourInfo += `\n  → Inclusion impossible : arrivée à ${cityName(lateStop.city)} à ${formatCost(lateStop.arrival)}, après la fermeture de sa fenêtre (${formatCost(timeWindows!.windows[lateStop.city][1])})`;
+    }
+    // Borne du 1-arbre retenue lorsqu'elle dépasse celle des réductions
+    const oneTreeInfo = symmetric && (excludeBound > excludeReductionBound || includeBound > includeReductionBound)
+      ? `\n  → Instance symétrique, borne du 1-arbre retenue : b1 = ${formatCost(excludeBound)}, b2 = ${formatCost(includeBound)}`
+      : '';
+
+    // Conserver les deux fils : seuls ceux dont la borne dépasse le meilleur coût sont élagués
+    const children: BranchNode[] = [
+      {
+        id: nodeCounter++,
+        parentId: currentNode.id,
+        arc: [maxI, maxJ],
+        matrix: reducedExcludeMatrix,
+        bound: excludeBound,
+        reductionBound: excludeReductionBound,
+        includedArcs: [...currentNode.includedArcs],
+        excluded: [...currentNode.excluded, [maxI, maxJ]],
+        level: currentNode.level,
+        type: 'exclusion',
+        parentBound: currentNode.bound
+      },
+      {
+        id: nodeCounter++,
+        parentId: currentNode.id,
+        arc: [maxI, maxJ],
+        matrix: reducedIncludeMatrix,
+        bound: includeBound,
+        reductionBound: includeReductionBound,
+        includedArcs: newIncludedArcs,
+        excluded: [...currentNode.excluded],
+        level: currentNode.level + 1,
+        type: 'inclusion',
+        parentBound: currentNode.bound
+      }
+    ];
+
+    const [excludeChild, includeChild] = children;
+    const prunedInfo = children
+      .filter(child => child.bound >= bestCost)
+      .map(child => `\n  → Fils ${child.type} élagué (borne ${formatCost(child.bound)} ≥ ${formatCost(bestCost)})`)
+      .join('');
+
+    pushStep({
+      step: stepCounter++,
+      type: 'branch',
+      title: `BLOC 3: Évaluation des Sommets de l'Arborescence`,
+      matrix: cloneMatrix(reducedIncludeMatrix),
+      bound: includeBound,
+      description: `TYPE 1 (exclure arc): b1 = ${formatCost(excludeReductionBound)} = ${formatCost(currentNode.reductionBound)} + ${formatCost(maxRegret)} (regret ρ(${maxI+1},${maxJ+1}))\nTYPE 2 (inclure arc): b2 = ${formatCost(includeReductionBound)} = ${formatCost(currentNode.reductionBound)} + ${includeFeasible ? formatCost(includeReduction) : '∞'} (réductions)\n  → Ligne ${maxI+1} et colonne ${maxJ+1} supprimées${reverseBlocked ? `\n  → Arc inverse (${maxJ+1},${maxI+1}) bloqué pour éviter sous-cycle` : ''}${subtourInfo}${oneTreeInfo}${prunedInfo}`,
+      selectedArc: [maxI, maxJ],
+      ...nodeFields(currentNode),
+      exclusion: {
+        nodeId: excludeChild.id,
+        bound: excludeChild.bound,
+        reduction: maxRegret,
+        pruned: excludeChild.bound >= bestCost
+      },
+      inclusion: {
+        nodeId: includeChild.id,
+        bound: includeChild.bound,
+        reduction: includeFeasible ? includeReduction : Infinity,
+        pruned: includeChild.bound >= bestCost
+      },
+      blockedArcs: [...(reverseBlocked ? [[maxJ, maxI] as [number, number]] : []), ...blockedArcs, ...mirrorArcs],
+      ...(precedenceViolation && { precedenceViolation }),
+      ...(lateStop && { lateArrival: [lateStop.city, lateStop.arrival] as [number, number] })
+    });
+
+    queue.push(...children.filter(child => child.bound < bestCost));
+  }
+
+  reportProgress();
+
+  if (bestPath.length === 0) {
+    pushStep({
+      step: stepCounter++,
+      type: 'final',
+      title: 'Aucun circuit réalisable',
+      matrix: cloneMatrix(initialMatrix),
+      bound: Infinity,
+      description: `Tous les sommets de l'arborescence ont été élagués sans trouver de circuit passant par toutes les villes.`
+    });
+
+    return {
+      path: [],
+      cost: Infinity,
+      steps: allSteps,
+      ...(openPath && { open: true }),
+      ...(salesmen && { tours: [] })
+    };
+  }
+
+  // Créer une matrice finale avec seulement les arcs du chemin optimal
+  const finalMatrix = buildTourMatrix(bestPath, costMatrix);
+
+  pushStep({
+    step: stepCounter++,
+    type: 'reduction',
+    title: 'Suppression des arcs parasites',
+    matrix: finalMatrix,
+    bound: bestCost,
+    description: `Matrice nettoyée : seuls les arcs du chemin optimal sont conservés. Tous les autres arcs sont écartés (∞).`
+  });
+
+  pushStep({
+    step: stepCounter++,
+    type: 'final',
+    title: 'Solution optimale trouvée',
+    matrix: finalMatrix,
+    bound: bestCost,
+    description: `${salesmen ? 'Tournées optimales' : `${routeName} optimal`}: ${describeRoute(bestPath)}` +
+      (prizes ? `\nVilles écartées : ${bestSkipped.length > 0 ? bestSkipped.map(cityName).join(', ') : 'aucune'}. Profit : ${formatCost(roundCost(rewardPool - bestCost))}` : '')
+  });
+
+  return {
+    path: toRoute(bestPath),
+    cost: bestCost,
+    steps: allSteps,
+    ...(openPath && { open: true }),
+    ...(salesmen && { tours: toTours(bestPath) }),
+    ...(prizes && { skipped: bestSkipped })
+  };
+};
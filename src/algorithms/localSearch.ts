@@ -0,0 +1,287 @@
+import { LittleStep, LocalSearchMove, TSPResult, TourMove } from '../types';
+import { buildTourMatrix } from './reducedMatrix';
+import { calculateTourCost } from './little';
+import { DUMMY_CITY_NAME, OpenPathEnds, buildOpenPathMatrix, formatRoute, toOpenPath } from './openPath';
+import { MandatoryArc, restrictToMandatoryArcs } from './mandatoryArcs';
+import { HEURISTIC_MATRIX_MAX_CITIES } from './heuristics';
+import { formatCost, isSymmetricMatrix, roundCost } from '../utils/costs';
+
+// Recherche locale : améliore un circuit existant (heuristique, interrompu ou importé) par des mouvements
+// 2-opt, Or-opt et 3-opt, jusqu'à un optimum local. Les coûts ne sont pas supposés symétriques : un segment
+// parcouru en sens inverse est réévalué arc par arc, et le 3-opt comprend l'échange de deux segments sans
+// inversion, seul mouvement de ce voisinage qui conserve le sens de parcours. Même matrice que la méthode
+// de Little : un mouvement utilisant un arc interdit (∞), dont ceux de la ville fictive d'un chemin ouvert
+// ou concurrents d'un arc imposé, n'est jamais retenu.
+
+export interface LocalSearchOptions {
+  cityNames?: string[];
+  openPath?: OpenPathEnds;
+  mandatoryArcs?: MandatoryArc[];
+  moves?: LocalSearchMove[]; // Voisinages explorés, dans cet ordre (tous par défaut)
+}
+
+export const LOCAL_SEARCH_LABELS: Record<LocalSearchMove, string> = {
+  '2-opt': '2-opt (inversion d\'un segment)',
+  'or-opt': 'Or-opt (déplacement de 1 à 3 villes)',
+  '3-opt': '3-opt (réagencement de deux segments)'
+};
+
+// Nombre maximal de mouvements appliqués (chacun diminue strictement le coût)
+export const LOCAL_SEARCH_MAX_MOVES = 500;
+
+// Mouvement candidat : variante et indices des arcs retirés dans le circuit courant
+interface Candidate {
+  kind: LocalSearchMove;
+  variant: number; // Or-opt : 1 si le segment est inversé ; 3-opt : reconnexion 0 à 3
+  i: number;
+  j: number;
+  k: number;
+  delta: number;
+}
+
+const arcKey = (i: number, j: number, undirected: boolean) =>
+  undirected && j < i ? `${j}-${i}` : `${i}-${j}`;
+
+const tourArcs = (tour: number[]): Array<[number, number]> =>
+  tour.map((city, k): [number, number] => [city, tour[(k + 1) % tour.length]]);
+
+/**
+ * Améliore le circuit (ou le chemin ouvert) path, donné en indices de villes et partant du dépôt,
+ * en appliquant à chaque pas le meilleur mouvement améliorant du premier voisinage qui en offre un.
+ * Retourne null si path n'est pas un itinéraire réalisable passant une fois par chaque ville.
+ */
+export const improveTour = (
+  inputMatrix: number[][],
+  path: number[],
+  options: LocalSearchOptions = {}
+): TSPResult | null => {
+  const { openPath } = options;
+  const costMatrix = restrictToMandatoryArcs(
+    openPath ? buildOpenPathMatrix(inputMatrix, openPath) : inputMatrix,
+    options.mandatoryArcs ?? []
+  );
+  const n = costMatrix.length;
+  const dummy = openPath ? n - 1 : -1;
+  // Chemin ouvert : circuit refermé par la ville fictive, placée en tête (elle ne mène qu'au départ)
+  let tour = openPath ? [dummy, ...path] : [...path];
+  if (tour.length !== n || new Set(tour).size !== n || tour.some(city => !(city >= 0 && city < n))) return null;
+  let cost = calculateTourCost(tour, costMatrix);
+  if (cost === Infinity) return null;
+
+  const moves = options.moves ?? ['2-opt', 'or-opt', '3-opt'];
+  const cityName = (i: number): string => i === dummy ? DUMMY_CITY_NAME : options.cityNames?.[i] || `Ville ${i + 1}`;
+  const arcName = ([i, j]: [number, number]) => `(${cityName(i)}, ${cityName(j)})`;
+  const segmentName = (segment: number[]) =>
+    segment.length > 3 ? `${cityName(segment[0])} → … → ${cityName(segment[segment.length - 1])}` : segment.map(cityName).join(' → ');
+  const c = (i: number, j: number) => i === j ? Infinity : costMatrix[i][j];
+  const symmetric = isSymmetricMatrix(inputMatrix) && !openPath && !options.mandatoryArcs?.length;
+  const small = n <= HEURISTIC_MATRIX_MAX_CITIES;
+  const toPath = (circuit: number[]) => openPath ? toOpenPath(circuit, dummy) : circuit;
+  const initialCost = cost;
+
+  const steps: LittleStep[] = [];
+  const push = (step: Omit<LittleStep, 'step'>) => steps.push({ step: steps.length + 1, ...step });
+
+  push({
+    type: 'reduction',
+    title: `Recherche locale - ${openPath ? 'Chemin' : 'Circuit'} de départ`,
+    matrix: small ? buildTourMatrix(tour, costMatrix) : { rows: [], cols: [], values: [] },
+    bound: cost,
+    description: `${openPath ? 'Chemin' : 'Circuit'} de départ : ${formatRoute(toPath(tour), cityName, !!openPath)} (coût ${formatCost(cost)}).\n` +
+      `Voisinages explorés dans l'ordre : ${moves.map(move => LOCAL_SEARCH_LABELS[move]).join(', ')}. ` +
+      'À chaque pas, le meilleur mouvement améliorant du premier voisinage qui en offre un est appliqué.' +
+      (symmetric ? '' : '\nCoûts asymétriques : un segment inversé est réévalué dans son nouveau sens de parcours.') +
+      (openPath ? `\nChemin ouvert : la ${DUMMY_CITY_NAME.toLowerCase()} referme le chemin en circuit et reste en tête.` : '')
+  });
+
+  // Coût des segments t[i..j] du circuit t, dans le sens de parcours et en sens inverse
+  // (arcs interdits du sens inverse comptés à part)
+  const segmentCosts = (t: number[]) => {
+    const forward = [0];
+    const backward = [0];
+    const forbiddenBackward = [0];
+    for (let k = 1; k < t.length; k++) {
+      forward.push(forward[k - 1] + c(t[k - 1], t[k]));
+      const reverse = c(t[k], t[k - 1]);
+      backward.push(backward[k - 1] + (reverse === Infinity ? 0 : reverse));
+      forbiddenBackward.push(forbiddenBackward[k - 1] + (reverse === Infinity ? 1 : 0));
+    }
+    return {
+      along: (i: number, j: number) => forward[j] - forward[i],
+      against: (i: number, j: number) => forbiddenBackward[j] > forbiddenBackward[i] ? Infinity : backward[j] - backward[i]
+    };
+  };
+
+  // Meilleur mouvement améliorant d'un voisinage sur le circuit t (la ville t[0] ne bouge jamais)
+  const bestMove = (kind: LocalSearchMove, t: number[]): Candidate | null => {
+    const size = t.length;
+    const next = (k: number) => t[(k + 1) % size];
+    const { along, against } = segmentCosts(t);
+    let best: Candidate | null = null;
+    const consider = (delta: number, variant: number, i: number, j: number, k: number) => {
+      if (delta < -1e-9 && (!best || delta < best.delta)) best = { kind, variant, i, j, k, delta };
+    };
+
+    if (kind === '2-opt') {
+      // Arcs (t[i], t[i+1]) et (t[j], t[j+1]) remplacés par (t[i], t[j]) et (t[i+1], t[j+1]) : t[i+1..j] inversé
+      for (let i = 0; i < size - 2; i++) {
+        for (let j = i + 2; j < size; j++) {
+          if (i === 0 && j === size - 1) continue;
+          const removed = c(t[i], t[i + 1]) + c(t[j], next(j)) + along(i + 1, j);
+          consider(c(t[i], t[j]) + c(t[i + 1], next(j)) + against(i + 1, j) - removed, 0, i, j, 0);
+        }
+      }
+    }
+
+    if (kind === 'or-opt') {
+      // Segment t[i..j] de 1 à 3 villes retiré et réinséré entre t[k] et t[k+1], éventuellement inversé
+      for (let length = 1; length <= 3 && size - length >= 3; length++) {
+        for (let i = 1; i + length <= size; i++) {
+          const j = i + length - 1;
+          const p = t[i - 1];
+          const q = next(j);
+          for (let k = 0; k < size; k++) {
+            if (k >= i - 1 && k <= j) continue;
+            const removed = c(p, t[i]) + c(t[j], q) + c(t[k], next(k)) + along(i, j);
+            consider(c(p, q) + c(t[k], t[i]) + along(i, j) + c(t[j], next(k)) - removed, 0, i, j, k);
+            if (length > 1) consider(c(p, q) + c(t[k], t[j]) + against(i, j) + c(t[i], next(k)) - removed, 1, i, j, k);
+          }
+        }
+      }
+    }
+
+    if (kind === '3-opt') {
+      // Arcs (t[i], t[i+1]), (t[j], t[j+1]) et (t[k], t[k+1]) retirés : segments B = t[i+1..j] et C = t[j+1..k]
+      // reconnectés en A C B (sans inversion), A C B', A C' B ou A B' C'
+      for (let i = 0; i < size - 2; i++) {
+        for (let j = i + 1; j < size - 1; j++) {
+          for (let k = j + 1; k < size; k++) {
+            const nk = next(k);
+            const removed = c(t[i], t[i + 1]) + c(t[j], t[j + 1]) + c(t[k], nk) + along(i + 1, j) + along(j + 1, k);
+            consider(c(t[i], t[j + 1]) + along(j + 1, k) + c(t[k], t[i + 1]) + along(i + 1, j) + c(t[j], nk) - removed, 0, i, j, k);
+            consider(c(t[i], t[j + 1]) + along(j + 1, k) + c(t[k], t[j]) + against(i + 1, j) + c(t[i + 1], nk) - removed, 1, i, j, k);
+            consider(c(t[i], t[k]) + against(j + 1, k) + c(t[j + 1], t[i + 1]) + along(i + 1, j) + c(t[j], nk) - removed, 2, i, j, k);
+            consider(c(t[i], t[j]) + against(i + 1, j) + c(t[i + 1], t[k]) + against(j + 1, k) + c(t[j + 1], nk) - removed, 3, i, j, k);
+          }
+        }
+      }
+    }
+
+    return best;
+  };
+
+  // Circuit obtenu par le mouvement et son explication
+  const applyMove = (t: number[], { kind, variant, i, j, k }: Candidate): { tour: number[]; description: string } => {
+    const size = t.length;
+    const next = (index: number) => t[(index + 1) % size];
+    const { along, against } = segmentCosts(t);
+    const reversalNote = (from: number, to: number) => symmetric ? ''
+      : ` (segment inversé : ${formatCost(roundCost(along(from, to)))} → ${formatCost(roundCost(against(from, to)))})`;
+
+    if (kind === '2-opt') {
+      return {
+        tour: [...t.slice(0, i + 1), ...t.slice(i + 1, j + 1).reverse(), ...t.slice(j + 1)],
+        description: `Arcs ${arcName([t[i], t[i + 1]])} et ${arcName([t[j], next(j)])} remplacés par ` +
+          `${arcName([t[i], t[j]])} et ${arcName([t[i + 1], next(j)])} : le segment ${segmentName(t.slice(i + 1, j + 1))} ` +
+          `est parcouru en sens inverse${reversalNote(i + 1, j)}.`
+      };
+    }
+
+    if (kind === 'or-opt') {
+      const segment = t.slice(i, j + 1);
+      const rest = [...t.slice(0, i), ...t.slice(j + 1)];
+      const at = rest.indexOf(t[k]) + 1;
+      return {
+        tour: [...rest.slice(0, at), ...(variant === 1 ? [...segment].reverse() : segment), ...rest.slice(at)],
+        description: `Segment ${segmentName(segment)} déplacé${variant === 1 ? ' et inversé' : ''} entre ${cityName(t[k])} et ` +
+          `${cityName(next(k))} ; ${cityName(t[i - 1])} mène désormais à ${cityName(next(j))}` +
+          `${variant === 1 ? reversalNote(i, j) : ''}.`
+      };
+    }
+
+    const b = t.slice(i + 1, j + 1);
+    const cc = t.slice(j + 1, k + 1);
+    const names = `B = ${segmentName(b)}, C = ${segmentName(cc)}`;
+    const reconnections = [
+      { segments: [cc, b], text: `Segments B et C échangés sans inversion (${names})` },
+      { segments: [cc, [...b].reverse()], text: `Segments B et C échangés, B inversé (${names})${reversalNote(i + 1, j)}` },
+      { segments: [[...cc].reverse(), b], text: `Segments B et C échangés, C inversé (${names})${reversalNote(j + 1, k)}` },
+      { segments: [[...b].reverse(), [...cc].reverse()], text: `Segments B et C inversés sur place (${names})` }
+    ];
+    const { segments, text } = reconnections[variant];
+    const tour = [...t.slice(0, i + 1), ...segments[0], ...segments[1], ...t.slice(k + 1)];
+    const joints = [
+      [t[i], segments[0][0]],
+      [segments[0][segments[0].length - 1], segments[1][0]],
+      [segments[1][segments[1].length - 1], next(k)]
+    ] as Array<[number, number]>;
+    return {
+      tour,
+      description: `${text} : arcs ${[[t[i], t[i + 1]], [t[j], t[j + 1]], [t[k], next(k)]].map(arc => arcName(arc as [number, number])).join(', ')} ` +
+        `remplacés par ${joints.map(arcName).join(', ')}.`
+    };
+  };
+
+  let applied = 0;
+  while (applied < LOCAL_SEARCH_MAX_MOVES) {
+    let found: Candidate | null = null;
+    for (const kind of moves) {
+      found = bestMove(kind, tour);
+      if (found) break;
+    }
+    if (!found) break;
+
+    const before = tour;
+    const { tour: after, description } = applyMove(tour, found);
+    const costAfter = calculateTourCost(after, costMatrix);
+    if (!(costAfter < cost)) break;
+
+    // Arcs échangés (sans orientation pour une instance symétrique), hors ville fictive
+    const beforeKeys = new Set(tourArcs(before).map(([i, j]) => arcKey(i, j, symmetric)));
+    const afterKeys = new Set(tourArcs(after).map(([i, j]) => arcKey(i, j, symmetric)));
+    const real = ([i, j]: [number, number]) => i !== dummy && j !== dummy;
+    const move: TourMove = {
+      kind: found.kind,
+      removed: tourArcs(before).filter(([i, j]) => !afterKeys.has(arcKey(i, j, symmetric)) && real([i, j])),
+      added: tourArcs(after).filter(([i, j]) => !beforeKeys.has(arcKey(i, j, symmetric)) && real([i, j])),
+      path: toPath(after),
+      costBefore: cost,
+      costAfter
+    };
+
+    applied++;
+    push({
+      type: 'branch',
+      title: `${found.kind === 'or-opt' ? 'Or-opt' : found.kind} - Mouvement ${applied}`,
+      matrix: small ? buildTourMatrix(after, costMatrix) : { rows: [], cols: [], values: [] },
+      bound: costAfter,
+      description: `${description}\nCoût : ${formatCost(cost)} → ${formatCost(costAfter)} ` +
+        `(gain ${formatCost(roundCost(cost - costAfter))}).\n${openPath ? 'Chemin' : 'Circuit'} : ${formatRoute(move.path, cityName, !!openPath)}`,
+      selectedArc: move.added[0],
+      move
+    });
+    tour = after;
+    cost = costAfter;
+  }
+
+  const limited = applied === LOCAL_SEARCH_MAX_MOVES;
+  push({
+    type: 'final',
+    title: limited ? 'Recherche locale arrêtée' : 'Optimum local atteint',
+    matrix: small ? buildTourMatrix(tour, costMatrix) : { rows: [], cols: [], values: [] },
+    bound: cost,
+    description: (applied === 0
+      ? `Aucun mouvement ${moves.map(move => LOCAL_SEARCH_LABELS[move].split(' ')[0]).join(', ')} n'améliore le ${openPath ? 'chemin' : 'circuit'} de départ.`
+      : `${applied} mouvement(s) appliqué(s) : coût ${formatCost(initialCost)} → ${formatCost(cost)} (gain ${formatCost(roundCost(initialCost - cost))}).`) +
+      (limited ? ` Limite de ${LOCAL_SEARCH_MAX_MOVES} mouvements atteinte.` : ' Aucun mouvement des voisinages explorés n\'améliore plus le résultat.') +
+      `\n${openPath ? 'Chemin' : 'Circuit'}: ${formatRoute(toPath(tour), cityName, !!openPath)}\nOptimum local : son optimalité globale n'est pas garantie.`
+  });
+
+  return {
+    path: toPath(tour),
+    cost,
+    steps,
+    localSearch: { initialCost, moves: applied },
+    ...(openPath && { open: true })
+  };
+};
@@ -0,0 +1,44 @@
+// Arcs imposés (ex. liaison par ferry A → B) : chaque arc (i, j) fait partie de toute tournée.
+// La méthode de Little les inclut d'office à la racine ; les solveurs de référence et le contrôle de
+// faisabilité travaillent sur la matrice restreinte où i ne mène qu'à j et où j n'est atteinte que depuis i.
+
+export type MandatoryArc = [number, number]; // [départ, arrivée], en indices de villes
+
+/**
+ * Matrice où les arcs concurrents des arcs imposés sont interdits (Infinity).
+ */
+export const restrictToMandatoryArcs = (costMatrix: number[][], arcs: MandatoryArc[]): number[][] =>
+  arcs.length === 0 ? costMatrix : costMatrix.map((row, i) => row.map((cost, j) =>
+    i !== j && arcs.some(([from, to]) => (from === i) !== (to === j)) ? Infinity : cost
+  ));
+
+/**
+ * Raison pour laquelle les arcs imposés ne peuvent pas tous figurer dans un circuit de n villes,
+ * null s'ils sont compatibles : deux arcs partant d'une même ville ou arrivant à une même ville,
+ * ou chaîne refermée avant d'avoir parcouru toutes les villes.
+ */
+export const describeMandatoryConflict = (
+  arcs: MandatoryArc[],
+  n: number,
+  cityName: (i: number) => string
+): string | null => {
+  const next = new Map<number, number>();
+  const previous = new Map<number, number>();
+  for (const [from, to] of arcs) {
+    if (next.has(from)) return `deux arcs imposés partent de ${cityName(from)}`;
+    if (previous.has(to)) return `deux arcs imposés arrivent à ${cityName(to)}`;
+    next.set(from, to);
+    previous.set(to, from);
+  }
+
+  for (const [start] of arcs) {
+    const cycle = [start];
+    for (let city = next.get(start); city !== undefined && city !== start; city = next.get(city)) {
+      cycle.push(city);
+    }
+    if (next.get(cycle[cycle.length - 1]) === start && cycle.length < n) {
+      return `les arcs imposés forment le sous-circuit ${[...cycle, start].map(cityName).join(' → ')}`;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,152 @@
+import { LittleStep, ReducedMatrix, TSPResult } from '../types';
+import { fromCostMatrix } from './reducedMatrix';
+import { solveSubsetTours } from './exact';
+import { formatCost, roundCost } from '../utils/costs';
+
+// Plusieurs voyageurs (mTSP) partant du même dépôt. Chaque voyageur effectue une tournée non vide
+// depot → … → depot ; l'objectif est le coût total des tournées ou celui de la plus longue.
+//
+// Coût total : le dépôt est dupliqué en m exemplaires (copies d'indices n, n+1, …) reliés aux villes
+// comme le dépôt et jamais entre eux. Un circuit du problème augmenté passe par les m exemplaires :
+// découpé à chacun d'eux, il donne m tournées de même coût total. La méthode de Little s'applique telle quelle.
+//
+// Plus longue tournée : l'objectif n'est plus une somme d'arcs, la transformation ne suffit pas.
+// Résolution exacte par programmation dynamique sur les sous-ensembles (petites instances).
+
+export interface SalesmenSettings {
+  depot: number;
+  count: number; // Nombre de voyageurs (≥ 2)
+  objective: 'total' | 'longest';
+}
+
+export const MTSP_LONGEST_MAX_CITIES = 15;
+
+/**
+ * Matrice (n + m - 1) × (n + m - 1) du problème augmenté : copies du dépôt aux indices n à n + m - 2.
+ */
+export const buildDepotCopiesMatrix = (costMatrix: number[][], { depot, count }: SalesmenSettings): number[][] => {
+  const n = costMatrix.length;
+  const original = (i: number) => i < n ? i : depot;
+  const isDepot = (i: number) => i === depot || i >= n;
+  const size = n + count - 1;
+  return Array.from({ length: size }, (_, i) =>
+    Array.from({ length: size }, (_, j) => {
+      if (i === j) return 0;
+      return isDepot(i) && isDepot(j) ? Infinity : costMatrix[original(i)][original(j)];
+    })
+  );
+};
+
+/**
+ * Circuit du problème augmenté → tournées partant du dépôt (sans le retour), copies du dépôt retirées.
+ */
+export const splitDepotTour = (tour: number[], depot: number, n: number): number[][] => {
+  const tours: number[][] = [];
+  const k = tour.indexOf(depot);
+  const rotated = k === -1 ? tour : [...tour.slice(k), ...tour.slice(0, k)];
+  rotated.forEach(city => {
+    if (city === depot || city >= n) tours.push([depot]);
+    else tours[tours.length - 1]?.push(city);
+  });
+  return tours;
+};
+
+// Coût de chaque tournée, retour au dépôt compris
+export const calculateToursCosts = (tours: number[][], costMatrix: number[][]): number[] =>
+  tours.map(tour => tour.reduce(
+    (sum, city, k) => roundCost(sum + costMatrix[city][tour[(k + 1) % tour.length]]),
+    0
+  ));
+
+// « Véhicule 1 : A → B → A ; Véhicule 2 : A → C → A »
+export const formatTours = (tours: number[][], cityName: (i: number) => string): string =>
+  tours.map((tour, k) => `Véhicule ${k + 1} : ${[...tour, tour[0]].map(cityName).join(' → ')}`).join(' ; ');
+
+// Matrice où seuls les arcs des tournées gardent leur coût (le dépôt a un arc sortant par tournée)
+export const buildToursMatrix = (tours: number[][], costMatrix: number[][]): ReducedMatrix => {
+  const matrix = fromCostMatrix(costMatrix);
+  const arcs = new Set(tours.flatMap(tour => tour.map((city, k) => `${city}-${tour[(k + 1) % tour.length]}`)));
+  matrix.values = matrix.values.map((row, i) => row.map((value, j) => arcs.has(`${i}-${j}`) ? value : Infinity));
+  return matrix;
+};
+
+// Itinéraire unique (permutation des villes) : dépôt puis les villes des tournées successives
+export const flattenTours = (tours: number[][]): number[] =>
+  tours.length === 0 ? [] : [tours[0][0], ...tours.flatMap(tour => tour.slice(1))];
+
+/**
+ * Répartition minimisant la plus longue tournée, pour au plus MTSP_LONGEST_MAX_CITIES villes.
+ * tourCost[S] : meilleure tournée dépôt → S → dépôt (Held–Karp, voir solveSubsetTours) ;
+ * longest[k][S] : plus petite plus longue tournée pour couvrir S avec k voyageurs.
+ * Retourne null si l'instance est trop grande.
+ */
+export const solveLongestTour = (
+  costMatrix: number[][],
+  salesmen: SalesmenSettings,
+  cityNames: string[] = []
+): TSPResult | null => {
+  const n = costMatrix.length;
+  if (n > MTSP_LONGEST_MAX_CITIES) return null;
+  const { depot, count } = salesmen;
+  const cityName = (i: number) => cityNames[i] || `Ville ${i + 1}`;
+
+  // Villes à desservir : bit b ↔ customers[b] ; tourCost[S] : meilleure tournée dépôt → S → dépôt
+  const { customers, tourCost, rebuildTour } = solveSubsetTours(costMatrix, depot);
+  const size = 1 << customers.length;
+
+  // Partage en k tournées non vides ; la tournée choisie contient la plus petite ville restante (symétries)
+  let longest = Float64Array.from(tourCost);
+  const choices: Int32Array[] = [];
+  for (let k = 2; k <= count; k++) {
+    const next = new Float64Array(size).fill(Infinity);
+    const choice = new Int32Array(size).fill(-1);
+    for (let subset = 1; subset < size; subset++) {
+      const lowest = subset & -subset;
+      for (let part = subset; part > 0; part = (part - 1) & subset) {
+        if (!(part & lowest) || part === subset) continue;
+        const value = Math.max(tourCost[part], longest[subset ^ part]);
+        if (value < next[subset]) {
+          next[subset] = value;
+          choice[subset] = part;
+        }
+      }
+    }
+    longest = next;
+    choices.push(choice);
+  }
+
+  const full = size - 1;
+  const bestCost = longest[full];
+  const tours: number[][] = [];
+  if (bestCost !== Infinity) {
+    let remaining = full;
+    for (let k = count; k >= 2; k--) {
+      const part = choices[k - 2][remaining];
+      tours.push(rebuildTour(part));
+      remaining ^= part;
+    }
+    tours.push(rebuildTour(remaining));
+  }
+
+  const costs = calculateToursCosts(tours, costMatrix);
+
+  const step: LittleStep = {
+    step: 1,
+    type: 'final',
+    title: tours.length > 0 ? 'Répartition optimale trouvée' : 'Aucune répartition réalisable',
+    matrix: buildToursMatrix(tours, costMatrix),
+    bound: roundCost(bestCost),
+    description: tours.length > 0
+      ? `Plus longue tournée minimale (programmation dynamique sur les sous-ensembles de villes) : ${formatCost(roundCost(bestCost))}.\n` +
+        `Tournées optimales: ${formatTours(tours, cityName)}\n` +
+        `Coûts des tournées : ${costs.map(formatCost).join(' ; ')}`
+      : `Impossible de répartir les villes en ${count} tournées non vides avec les arcs autorisés.`
+  };
+
+  return {
+    path: flattenTours(tours),
+    cost: roundCost(bestCost),
+    steps: [step],
+    tours
+  };
+};
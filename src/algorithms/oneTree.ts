@@ -0,0 +1,167 @@
+import { ReducedMatrix } from '../types';
+import { roundCost } from '../utils/costs';
+
+// Borne du 1-arbre de Held et Karp, pour les instances symétriques.
+// Un 1-arbre est un arbre couvrant des villes 1..n-1 plus deux arêtes incidentes à la ville 0 :
+// tout circuit en est un, donc le 1-arbre de coût minimal minore le coût de tout circuit.
+// Les pénalités π (coût c(i, j) + π(i) + π(j)) ne changent pas l'ordre des circuits et resserrent la borne.
+
+const ASCENT_ITERATIONS = 100;
+
+interface OneTree {
+  cost: number; // Coût pénalisé
+  degrees: number[];
+}
+
+type Edge = [number, number];
+
+const findRoot = (parent: number[], i: number): number => {
+  while (parent[i] !== i) {
+    parent[i] = parent[parent[i]];
+    i = parent[i];
+  }
+  return i;
+};
+
+/**
+ * 1-arbre de coût minimal contenant les arêtes imposées (arcs déjà inclus), sur les arêtes autorisées.
+ * Retourne null si aucun 1-arbre n'existe (graphe non connexe, ville 0 avec moins de deux arêtes).
+ */
+const minimumOneTree = (
+  costMatrix: number[][],
+  penalties: number[],
+  forced: Edge[],
+  isAllowed: (i: number, j: number) => boolean
+): OneTree | null => {
+  const n = costMatrix.length;
+  const weight = (i: number, j: number) => costMatrix[i][j] + penalties[i] + penalties[j];
+  const parent = Array.from({ length: n }, (_, i) => i);
+  const degrees = Array(n).fill(0);
+  let cost = 0;
+  let components = n - 1;
+
+  const addEdge = (i: number, j: number) => {
+    cost += weight(i, j);
+    degrees[i]++;
+    degrees[j]++;
+  };
+
+  // Arbre couvrant des villes 1..n-1 (Kruskal), en commençant par les arêtes imposées
+  const forcedKeys = new Set(forced.map(([i, j]) => `${Math.min(i, j)}-${Math.max(i, j)}`));
+  const candidates: Edge[] = [];
+  for (let i = 1; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      if (!forcedKeys.has(`${i}-${j}`) && isAllowed(i, j)) candidates.push([i, j]);
+    }
+  }
+  candidates.sort((a, b) => weight(...a) - weight(...b));
+
+  const forcedTree = forced.filter(([i, j]) => i !== 0 && j !== 0);
+  for (const [i, j] of [...forcedTree, ...candidates]) {
+    const [ri, rj] = [findRoot(parent, i), findRoot(parent, j)];
+    if (ri === rj) continue;
+    parent[ri] = rj;
+    addEdge(i, j);
+    if (--components === 1) break;
+  }
+  if (components > 1) return null;
+
+  // Deux arêtes incidentes à la ville 0 : les arêtes imposées, complétées par les moins chères
+  const forcedAtDepot = forced.filter(([i, j]) => i === 0 || j === 0).map(([i, j]) => i === 0 ? j : i);
+  const others = Array.from({ length: n - 1 }, (_, k) => k + 1)
+    .filter(j => !forcedAtDepot.includes(j) && isAllowed(0, j))
+    .sort((a, b) => weight(0, a) - weight(0, b));
+  const depotNeighbours = [...forcedAtDepot, ...others].slice(0, 2);
+  if (depotNeighbours.length < 2) return null;
+  depotNeighbours.forEach(j => addEdge(0, j));
+
+  return { cost, degrees };
+};
+
+// Coût d'un circuit du plus proche voisin (borne supérieure pour le pas de l'ascension), Infinity si bloqué
+const nearestNeighbourCost = (costMatrix: number[][]): number => {
+  const n = costMatrix.length;
+  const visited = new Set([0]);
+  let current = 0;
+  let cost = 0;
+  while (visited.size < n) {
+    let next = -1;
+    for (let j = 0; j < n; j++) {
+      if (!visited.has(j) && isFinite(costMatrix[current][j]) && (next === -1 || costMatrix[current][j] < costMatrix[current][next])) {
+        next = j;
+      }
+    }
+    if (next === -1) return Infinity;
+    cost += costMatrix[current][next];
+    visited.add(next);
+    current = next;
+  }
+  return cost + costMatrix[current][0];
+};
+
+const penalizedBound = (tree: OneTree, penalties: number[]) =>
+  tree.cost - 2 * penalties.reduce((sum, p) => sum + p, 0);
+
+/**
+ * Ascension de sous-gradient de Held et Karp : cherche les pénalités π qui maximisent la borne du 1-arbre.
+ * Calculées une fois à la racine, elles restent valables (et efficaces) pour tous les sommets de l'arborescence.
+ */
+export const computeOneTreePenalties = (costMatrix: number[][]): number[] => {
+  const n = costMatrix.length;
+  const isAllowed = (i: number, j: number) => isFinite(costMatrix[i][j]);
+  const upperBound = nearestNeighbourCost(costMatrix);
+
+  let penalties: number[] = Array(n).fill(0);
+  let bestPenalties = penalties;
+  let bestBound = -Infinity;
+  let stepScale = 2;
+  let stalled = 0;
+
+  for (let iteration = 0; iteration < ASCENT_ITERATIONS; iteration++) {
+    const tree = minimumOneTree(costMatrix, penalties, [], isAllowed);
+    if (!tree) break;
+
+    const bound = penalizedBound(tree, penalties);
+    if (bound > bestBound) {
+      bestBound = bound;
+      bestPenalties = penalties;
+      stalled = 0;
+    } else if (++stalled >= 10) {
+      stepScale /= 2;
+      stalled = 0;
+    }
+
+    // Toutes les villes de degré 2 : le 1-arbre est un circuit, la borne ne peut plus progresser
+    const norm = tree.degrees.reduce((sum, degree) => sum + (degree - 2) ** 2, 0);
+    if (norm === 0) break;
+
+    const target = isFinite(upperBound) ? upperBound : Math.abs(bound) * 1.05 + 1;
+    const step = stepScale * (target - bound) / norm;
+    if (step < 1e-9) break;
+    penalties = penalties.map((p, i) => p + step * (tree.degrees[i] - 2));
+  }
+
+  return bestPenalties;
+};
+
+/**
+ * Borne du 1-arbre d'un sommet de l'arborescence : arêtes des arcs inclus imposées, arête {i, j} autorisée
+ * tant qu'un de ses deux sens reste utilisable dans la matrice du sommet. Infinity si aucun circuit n'est possible.
+ */
+export const oneTreeBound = (
+  costMatrix: number[][],
+  penalties: number[],
+  matrix: ReducedMatrix,
+  includedArcs: Array<[number, number]>
+): number => {
+  const rowIndex = new Map(matrix.rows.map((city, r) => [city, r]));
+  const colIndex = new Map(matrix.cols.map((city, c) => [city, c]));
+  const usable = (from: number, to: number) => {
+    const r = rowIndex.get(from);
+    const c = colIndex.get(to);
+    return r !== undefined && c !== undefined && matrix.values[r][c] !== Infinity;
+  };
+
+  const tree = minimumOneTree(costMatrix, penalties, includedArcs, (i, j) => usable(i, j) || usable(j, i));
+  return tree ? roundCost(penalizedBound(tree, penalties)) : Infinity;
+};
@@ -0,0 +1,33 @@
+// Chemin hamiltonien (départ imposé, arrivée imposée ou libre) ramené à un circuit par une ville fictive :
+// la ville fictive ne mène qu'au départ, et seule l'arrivée (ou toute ville si l'arrivée est libre) mène
+// à la ville fictive, pour un coût nul. Un circuit optimal du problème augmenté, privé de la ville fictive,
+// est un chemin optimal.
+
+export interface OpenPathEnds {
+  start: number;
+  end: number | null; // null : arrivée libre
+}
+
+export const DUMMY_CITY_NAME = 'Ville fictive';
+
+/**
+ * Matrice (n+1) × (n+1) du problème augmenté ; la ville fictive a l'indice n.
+ */
+export const buildOpenPathMatrix = (costMatrix: number[][], { start, end }: OpenPathEnds): number[][] => {
+  const n = costMatrix.length;
+  return [
+    ...costMatrix.map((row, i) => [...row, end === null || i === end ? 0 : Infinity]),
+    Array.from({ length: n + 1 }, (_, j) => j === start ? 0 : Infinity)
+  ];
+};
+
+// Circuit du problème augmenté → chemin partant du départ, ville fictive retirée
+export const toOpenPath = (tour: number[], dummy: number): number[] => {
+  const k = tour.indexOf(dummy);
+  if (k === -1) return tour;
+  return [...tour.slice(k + 1), ...tour.slice(0, k)];
+};
+
+// « A → B → C → A » pour un circuit, « A → B → C » pour un chemin ouvert
+export const formatRoute = (path: number[], cityName: (i: number) => string, open = false): string =>
+  [...path, ...(open || path.length === 0 ? [] : [path[0]])].map(cityName).join(' → ');
@@ -0,0 +1,108 @@
+// Contraintes de précédence : chaque couple [avant, après] impose de visiter « avant » plus tôt que « après »
+// sur la tournée partant de l'origine (dépôt du circuit, départ du chemin ouvert).
+//
+// Pendant la séparation, les arcs inclus forment des chaînes de villes consécutives. L'ordre de visite est
+// connu à l'intérieur d'une chaîne ; la chaîne qui part de l'origine est parcourue en premier et celle qui
+// y revient en dernier. Une contrainte contredite par cet ordre partiel coupe la branche.
+//
+// Villes facultatives : une ville écartée (boucle (i, i) incluse) ne contraint rien en tant que « après »,
+// mais « après » ne peut être visitée que si « avant » l'est plus tôt : écarter « avant » écarte aussi « après ».
+
+export type Precedence = [number, number]; // [avant, après], en indices de villes
+
+// Position connue d'une ville : segment (0 : début de tournée, 1 : chaîne intermédiaire, 2 : fin), chaîne, rang
+interface ChainPosition {
+  segment: 0 | 1 | 2;
+  chain: number;
+  rank: number;
+}
+
+const locate = (includedArcs: Array<[number, number]>, origin: number): Map<number, ChainPosition> => {
+  includedArcs = includedArcs.filter(([from, to]) => from !== to);
+  const next = new Map(includedArcs);
+  const previous = new Map(includedArcs.map(([from, to]) => [to, from]));
+  const positions = new Map<number, ChainPosition>();
+
+  // Début de tournée : origine puis ses successeurs
+  for (let city: number | undefined = origin, rank = 0; city !== undefined && !positions.has(city); city = next.get(city), rank++) {
+    positions.set(city, { segment: 0, chain: origin, rank });
+  }
+  // Fin de tournée : prédécesseurs de l'origine, le dernier visité en premier
+  for (let city = previous.get(origin), rank = 0; city !== undefined && !positions.has(city); city = previous.get(city), rank--) {
+    positions.set(city, { segment: 2, chain: origin, rank });
+  }
+  // Chaînes intermédiaires, repérées par leur première ville
+  for (const [from] of includedArcs) {
+    if (positions.has(from)) continue;
+    let head = from;
+    while (previous.has(head) && previous.get(head) !== from) head = previous.get(head)!;
+    for (let city: number | undefined = head, rank = 0; city !== undefined && !positions.has(city); city = next.get(city), rank++) {
+      positions.set(city, { segment: 1, chain: head, rank });
+    }
+  }
+  return positions;
+};
+
+// « après » est-il forcément visité avant « avant » ? (villes hors de toute chaîne : rien n'est encore décidé ;
+// afterOptional : « après » peut encore être écartée)
+const isReversed = (before: ChainPosition | undefined, after: ChainPosition | undefined, afterOptional: boolean): boolean => {
+  if (after?.segment === 0 && before?.segment !== 0) return true;
+  if (before?.segment === 2 && after?.segment !== 2 && (after || !afterOptional)) return true;
+  if (!before || !after) return false;
+  if (before.segment === 1 && after.segment === 1 && before.chain !== after.chain) return false;
+  return before.segment === after.segment && after.rank < before.rank;
+};
+
+/**
+ * Première contrainte violée par les arcs inclus, null si toutes peuvent encore être respectées.
+ * optional : villes pouvant être écartées (boucle (i, i) parmi les arcs inclus une fois écartées).
+ */
+export const findPrecedenceViolation = (
+  includedArcs: Array<[number, number]>,
+  origin: number,
+  precedences: Precedence[],
+  optional: boolean[] = []
+): Precedence | null => {
+  if (precedences.length === 0) return null;
+  const positions = locate(includedArcs, origin);
+  const skipped = new Set(includedArcs.flatMap(([from, to]) => from === to ? [from] : []));
+  return precedences.find(([before, after]) => {
+    if (skipped.has(after)) return false;
+    // « avant » écartée : « après » doit l'être aussi
+    if (skipped.has(before)) return positions.has(after) || !optional[after];
+    return isReversed(positions.get(before), positions.get(after), !!optional[after]);
+  }) ?? null;
+};
+
+/**
+ * Arcs incompatibles avec les précédences dès la racine : après → avant, origine → après (« après » serait
+ * visitée en premier) et avant → origine (« avant » serait visitée en dernier), ce dernier seulement si
+ * « après » ne peut pas être écartée (optional).
+ * Une contrainte dont « avant » est l'origine est toujours respectée.
+ */
+export const precedenceBlockedArcs = (
+  origin: number,
+  precedences: Precedence[],
+  optional: boolean[] = []
+): Array<[number, number]> =>
+  precedences
+    .filter(([before]) => before !== origin)
+    .flatMap(([before, after]): Array<[number, number]> =>
+      optional[after] ? [[after, before], [origin, after]] : [[after, before], [origin, after], [before, origin]]);
+
+// Existe-t-il un ordre compatible ? (pas de cycle « A avant B … avant A », origine jamais précédée)
+export const hasPrecedenceCycle = (precedences: Precedence[], origin: number): boolean => {
+  if (precedences.some(([, after]) => after === origin)) return true;
+  const successors = new Map<number, number[]>();
+  precedences.forEach(([before, after]) => successors.set(before, [...(successors.get(before) ?? []), after]));
+  const state = new Map<number, 'visiting' | 'done'>();
+  const visit = (city: number): boolean => {
+    if (state.get(city) === 'visiting') return true;
+    if (state.get(city) === 'done') return false;
+    state.set(city, 'visiting');
+    const cyclic = (successors.get(city) ?? []).some(visit);
+    state.set(city, 'done');
+    return cyclic;
+  };
+  return [...successors.keys()].some(visit);
+};
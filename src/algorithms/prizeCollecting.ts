@@ -0,0 +1,111 @@
+import { LittleStep, TSPResult } from '../types';
+import { buildTourMatrix } from './reducedMatrix';
+import { formatRoute } from './openPath';
+import { solveSubsetTours } from './exact';
+import { formatCost, roundCost } from '../utils/costs';
+
+// Villes facultatives (TSP sélectif) : chaque ville rapporte une récompense si elle est visitée, les
+// villes facultatives peuvent être écartées. Le dépôt et les autres villes restent obligatoires.
+//
+// Mode profit : maximiser récompenses collectées − coût de la tournée, c'est-à-dire minimiser
+// coût de la tournée + récompenses perdues. Méthode de Little : la diagonale d'une ville facultative vaut
+// sa récompense, la boucle (i, i) signifiant « i n'est pas visitée ». Un circuit partiel est alors admis
+// s'il passe par le dépôt et que toutes les villes qu'il laisse de côté sont facultatives.
+//
+// Mode budget : maximiser les récompenses collectées sous une longueur de tournée maximale. L'objectif
+// n'est plus une somme d'arcs : résolution exacte par programmation dynamique sur les sous-ensembles.
+
+export interface PrizeSettings {
+  rewards: number[]; // Récompense de chaque ville, collectée si elle est visitée
+  optional: boolean[]; // Villes pouvant être écartées (jamais le dépôt)
+  budget?: number; // Mode budget : longueur maximale de la tournée
+}
+
+export const PRIZE_BUDGET_MAX_CITIES = 15;
+
+export const totalReward = (cities: number[], { rewards }: PrizeSettings): number =>
+  cities.reduce((sum, city) => roundCost(sum + rewards[city]), 0);
+
+// Villes absentes de l'itinéraire
+export const missingCities = (path: number[], n: number): number[] =>
+  Array.from({ length: n }, (_, i) => i).filter(i => !path.includes(i));
+
+/**
+ * Un circuit passant par cycle peut-il être la tournée retenue : il contient le dépôt et laisse
+ * de côté uniquement des villes facultatives.
+ */
+export const isSelectiveTour = (cycle: number[], depot: number, { optional }: PrizeSettings): boolean =>
+  cycle.includes(depot) && optional.every((canSkip, city) => canSkip || cycle.includes(city));
+
+/**
+ * Arcs inclus (boucles d'écartement exclues) refermant un circuit qui ne peut pas être la tournée retenue.
+ */
+export const hasInvalidSelectiveCycle = (
+  includedArcs: Array<[number, number]>,
+  depot: number,
+  prizes: PrizeSettings
+): boolean => {
+  const next = new Map(includedArcs.filter(([from, to]) => from !== to));
+  for (const start of next.keys()) {
+    const cycle = [start];
+    for (let city = next.get(start); city !== undefined && city !== start; city = next.get(city)) {
+      if (cycle.length > next.size) break;
+      cycle.push(city);
+    }
+    if (next.get(cycle[cycle.length - 1]) === start && !isSelectiveTour(cycle, depot, prizes)) return true;
+  }
+  return false;
+};
+
+/**
+ * Mode budget (problème d'orientation) : tournée depuis le dépôt de longueur au plus prizes.budget
+ * maximisant les récompenses collectées, la plus courte en cas d'égalité. Le coût retourné est la
+ * longueur de la tournée. Retourne null au-delà de PRIZE_BUDGET_MAX_CITIES villes.
+ */
+export const solveOrienteering = (
+  costMatrix: number[][],
+  prizes: PrizeSettings,
+  depot: number,
+  cityNames: string[] = []
+): TSPResult | null => {
+  const n = costMatrix.length;
+  if (n > PRIZE_BUDGET_MAX_CITIES) return null;
+  const budget = prizes.budget ?? Infinity;
+  const cityName = (i: number) => cityNames[i] || `Ville ${i + 1}`;
+
+  const { customers, tourCost, rebuildTour } = solveSubsetTours(costMatrix, depot);
+  const required = customers.reduce((bits, city, b) => prizes.optional[city] ? bits : bits | (1 << b), 0);
+  const reward = (subset: number) =>
+    customers.reduce((sum, city, b) => subset & (1 << b) ? sum + prizes.rewards[city] : sum, 0);
+
+  let bestSubset = -1;
+  let bestReward = -Infinity;
+  for (let subset = 1; subset < 1 << customers.length; subset++) {
+    if ((subset & required) !== required || roundCost(tourCost[subset]) > budget) continue;
+    const value = reward(subset);
+    if (value > bestReward || (value === bestReward && tourCost[subset] < tourCost[bestSubset])) {
+      bestSubset = subset;
+      bestReward = value;
+    }
+  }
+
+  const path = bestSubset === -1 ? [] : rebuildTour(bestSubset);
+  const cost = bestSubset === -1 ? Infinity : roundCost(tourCost[bestSubset]);
+  const skipped = missingCities(path, n);
+
+  const step: LittleStep = {
+    step: 1,
+    type: 'final',
+    title: path.length > 0 ? 'Sélection optimale trouvée' : 'Aucune tournée dans le budget',
+    matrix: buildTourMatrix(path, costMatrix),
+    bound: cost,
+    description: path.length > 0
+      ? `Récompenses maximales sous un budget de ${formatCost(budget)} (programmation dynamique sur les sous-ensembles de villes) : ` +
+        `${formatCost(totalReward(path, prizes))} pour une tournée de longueur ${formatCost(cost)}.\n` +
+        `Circuit: ${formatRoute(path, cityName)}` +
+        (skipped.length > 0 ? `\nVilles écartées : ${skipped.map(cityName).join(', ')}` : '')
+      : `Aucune tournée passant par les villes obligatoires ne tient dans le budget de ${formatCost(budget)}.`
+  };
+
+  return { path, cost, steps: [step], skipped };
+};
@@ -0,0 +1,120 @@
+import { ReducedMatrix, RegretMatrix } from '../types';
+import { isForbidden, roundCost } from '../utils/costs';
+
+/**
+ * Matrice initiale à partir de la matrice des coûts saisie : la diagonale et les arcs interdits
+ * (FORBIDDEN_COST) deviennent infinis.
+ */
+export const fromCostMatrix = (costMatrix: number[][]): ReducedMatrix => {
+  const indices = costMatrix.map((_, i) => i);
+  return {
+    rows: [...indices],
+    cols: [...indices],
+    values: costMatrix.map((row, i) =>
+      row.map((cost, j) => i === j || isForbidden(cost) ? Infinity : cost)
+    )
+  };
+};
+
+export const cloneMatrix = (matrix: ReducedMatrix): ReducedMatrix => ({
+  rows: [...matrix.rows],
+  cols: [...matrix.cols],
+  values: matrix.values.map(row => [...row])
+});
+
+// Rend l'arc from → to inutilisable ; retourne false s'il l'était déjà
+export const blockArc = (matrix: ReducedMatrix, from: number, to: number): boolean => {
+  const r = matrix.rows.indexOf(from);
+  const c = matrix.cols.indexOf(to);
+  if (r === -1 || c === -1 || matrix.values[r][c] === Infinity) return false;
+  matrix.values[r][c] = Infinity;
+  return true;
+};
+
+// Inclusion de l'arc from → to : la ligne from et la colonne to sont supprimées
+export const removeRowAndColumn = (matrix: ReducedMatrix, from: number, to: number): ReducedMatrix => {
+  const r = matrix.rows.indexOf(from);
+  const c = matrix.cols.indexOf(to);
+  return {
+    rows: matrix.rows.filter((_, k) => k !== r),
+    cols: matrix.cols.filter((_, k) => k !== c),
+    values: matrix.values
+      .filter((_, k) => k !== r)
+      .map(row => row.filter((_, k) => k !== c))
+  };
+};
+
+/**
+ * Réduction par ligne puis par colonne : soustrait le minimum fini de chaque ligne et colonne.
+ * Retourne la matrice réduite et la somme des valeurs soustraites.
+ * Les résultats sont arrondis (roundCost) : un coût décimal réduit donne un zéro exact.
+ */
+export const reduceMatrix = (matrix: ReducedMatrix): { matrix: ReducedMatrix; reduction: number } => {
+  const reduced = cloneMatrix(matrix);
+  const { values } = reduced;
+  let reduction = 0;
+
+  values.forEach(row => {
+    const min = Math.min(...row);
+    if (min > 0 && min !== Infinity) {
+      reduction = roundCost(reduction + min);
+      row.forEach((value, c) => { row[c] = roundCost(value - min); });
+    }
+  });
+
+  reduced.cols.forEach((_, c) => {
+    const min = Math.min(...values.map(row => row[c]));
+    if (min > 0 && min !== Infinity) {
+      reduction = roundCost(reduction + min);
+      values.forEach(row => { row[c] = roundCost(row[c] - min); });
+    }
+  });
+
+  return { matrix: reduced, reduction };
+};
+
+/**
+ * Regret de chaque zéro : plus petit coût de sa ligne (hors colonne) + plus petit coût de sa colonne (hors ligne).
+ * Infinity si la ligne ou la colonne n'offre aucune autre possibilité.
+ */
+export const calculateRegrets = (matrix: ReducedMatrix): RegretMatrix => {
+  const { values } = matrix;
+  return values.map((row, r) => row.map((value, c) => {
+    if (value !== 0) return null;
+    const rowMin = Math.min(...row.filter((_, k) => k !== c));
+    const colMin = Math.min(...values.filter((_, k) => k !== r).map(other => other[c]));
+    return roundCost(rowMin + colMin);
+  }));
+};
+
+// Zéro de regret maximal, en indices de villes d'origine ; null si la matrice ne contient aucun zéro
+export const findMaxRegret = (
+  matrix: ReducedMatrix,
+  regrets: RegretMatrix
+): { arc: [number, number]; regret: number } | null => {
+  let best: { arc: [number, number]; regret: number } | null = null;
+  for (let r = 0; r < regrets.length; r++) {
+    for (let c = 0; c < regrets[r].length; c++) {
+      const regret = regrets[r][c];
+      if (regret !== null && (!best || regret > best.regret)) {
+        best = { arc: [matrix.rows[r], matrix.cols[c]], regret };
+      }
+    }
+  }
+  return best;
+};
+
+// Chaque ligne et colonne active possède-t-elle encore au moins un arc utilisable ?
+export const hasUsableArcEverywhere = (matrix: ReducedMatrix): boolean =>
+  matrix.values.every(row => row.some(value => value !== Infinity)) &&
+  matrix.cols.every((_, c) => matrix.values.some(row => row[c] !== Infinity));
+
+// Matrice où seuls les arcs du circuit (ou du chemin ouvert) gardent leur coût, tous les autres étant écartés (∞)
+export const buildTourMatrix = (path: number[], costMatrix: number[][], open = false): ReducedMatrix => {
+  const matrix = fromCostMatrix(costMatrix);
+  const successor = new Map(path.slice(0, open ? -1 : undefined).map((city, k) => [city, path[(k + 1) % path.length]]));
+  matrix.values = costMatrix.map((row, i) =>
+    row.map((cost, j) => successor.get(i) === j ? cost : Infinity)
+  );
+  return matrix;
+};
@@ -0,0 +1,99 @@
+import { roundCost } from '../utils/costs';
+
+// Fenêtres horaires (TSPTW) : la matrice donne les temps de trajet, chaque ville une fenêtre d'arrivée
+// [ouverture, fermeture] et une durée de service. Arrivé avant l'ouverture, on attend ; arrivé après la
+// fermeture, on est en retard. Départ de l'origine à son ouverture ; le retour doit s'y faire avant sa fermeture.
+//
+// Mode strict : toute tournée en retard est rejetée. Mode pénalité : chaque unité de retard coûte
+// latePenalty, ajouté au temps de trajet total.
+//
+// Pendant la séparation, la chaîne d'arcs inclus qui part de l'origine fixe les horaires de ses villes :
+// un retard sur cette chaîne ne peut plus être rattrapé.
+
+export interface TimeWindowSettings {
+  windows: Array<[number, number]>; // [ouverture, fermeture] de chaque ville, [0, ∞] sans fenêtre
+  serviceTimes: number[];
+  mode: 'strict' | 'penalty';
+  latePenalty: number; // Coût d'une unité de retard (mode pénalité)
+}
+
+export interface ScheduleStop {
+  city: number;
+  arrival: number;
+  wait: number; // Attente avant l'ouverture de la fenêtre
+  start: number; // Début du service
+  departure: number;
+  lateness: number; // Retard sur la fermeture de la fenêtre
+}
+
+/**
+ * Horaires le long d'un itinéraire partant de route[0]. closed : retour final à route[0],
+ * ajouté comme dernière étape (sans service).
+ */
+export const computeSchedule = (
+  route: number[],
+  travelTimes: number[][],
+  { windows, serviceTimes }: TimeWindowSettings,
+  closed: boolean
+): ScheduleStop[] => {
+  if (route.length === 0) return [];
+  const origin = route[0];
+  const [departureTime] = windows[origin];
+  const stops: ScheduleStop[] = [{
+    city: origin,
+    arrival: departureTime,
+    wait: 0,
+    start: departureTime,
+    departure: roundCost(departureTime + serviceTimes[origin]),
+    lateness: 0
+  }];
+
+  [...route.slice(1), ...(closed ? [origin] : [])].forEach((city, k) => {
+    const previous = stops[stops.length - 1];
+    const arrival = roundCost(previous.departure + travelTimes[previous.city][city]);
+    const [open, close] = windows[city];
+    const isReturn = closed && k === route.length - 1;
+    const start = isReturn ? arrival : Math.max(arrival, open);
+    stops.push({
+      city,
+      arrival,
+      wait: roundCost(start - arrival),
+      start,
+      departure: isReturn ? arrival : roundCost(start + serviceTimes[city]),
+      lateness: arrival > close ? roundCost(arrival - close) : 0
+    });
+  });
+
+  return stops;
+};
+
+export const totalLateness = (stops: ScheduleStop[]): number =>
+  stops.reduce((sum, stop) => roundCost(sum + stop.lateness), 0);
+
+// Première étape en retard, undefined si toutes les fenêtres sont respectées
+export const firstLateStop = (stops: ScheduleStop[]): ScheduleStop | undefined =>
+  stops.find(stop => stop.lateness > 0);
+
+// Surcoût des retards : Infinity en mode strict, pénalité proportionnelle sinon
+export const latenessCost = (stops: ScheduleStop[], settings: TimeWindowSettings): number => {
+  const lateness = totalLateness(stops);
+  if (lateness === 0) return 0;
+  return settings.mode === 'strict' ? Infinity : roundCost(lateness * settings.latePenalty);
+};
+
+/**
+ * Coût d'un itinéraire sous fenêtres horaires : temps de trajet total plus le surcoût des retards.
+ */
+export const evaluateRoute = (
+  route: number[],
+  travelTimes: number[][],
+  settings: TimeWindowSettings,
+  closed: boolean
+): number => {
+  const legs = route.length - (closed ? 0 : 1);
+  let travel = 0;
+  for (let k = 0; k < legs; k++) {
+    travel = roundCost(travel + travelTimes[route[k]][route[(k + 1) % route.length]]);
+  }
+  return roundCost(travel + latenessCost(computeSchedule(route, travelTimes, settings, closed), settings));
+};
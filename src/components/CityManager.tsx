@@ -1,25 +1,114 @@
 import React, { useState } from 'react';
-import { Plus, Trash2, MapPin, ArrowRight } from 'lucide-react';
-import { City } from '../App';
+import { Plus, Trash2, MapPin, ArrowRight, Crosshair, Globe, Upload, Home } from 'lucide-react';
+import { City, ProblemSettings } from '../types';
+import { hasCoordinates } from '../utils/distances';
+import { parseLatLonLines } from '../utils/geoImport';
+import { parseTsplibInstance } from '../utils/tsplib';
+import { resolveDepot } from '../utils/problem';
 
 interface CityManagerProps {
+  initialCities: City[];
   onCitiesConfirmed: (cities: City[]) => void;
+  onInstanceLoaded: (cities: City[], matrix: number[][]) => void;
+  problem: ProblemSettings;
+  onProblemChange: (problem: ProblemSettings) => void;
 }
 
-export const CityManager: React.FC<CityManagerProps> = ({ onCitiesConfirmed }) => {
-  const [cities, setCities] = useState<City[]>([]);
+export const CityManager: React.FC<CityManagerProps> = ({
+  initialCities,
+  onCitiesConfirmed,
+  onInstanceLoaded,
+  problem,
+  onProblemChange
+}) => {
+  const [cities, setCities] = useState<City[]>(initialCities);
   const [newCityName, setNewCityName] = useState('');
+  const [coordinateMode, setCoordinateMode] = useState<'plane' | 'geo'>('plane');
+  const [newCityA, setNewCityA] = useState(''); // x ou latitude selon le mode
+  const [newCityB, setNewCityB] = useState(''); // y ou longitude selon le mode
+  const [placingCityId, setPlacingCityId] = useState<string | null>(null);
+  const [pastedLines, setPastedLines] = useState('');
+  const [pasteErrors, setPasteErrors] = useState<string[]>([]);
+
+  // Dépôt : ville de départ de la tournée (première ville tant qu'aucune n'est choisie)
+  const depotIndex = resolveDepot(problem, cities);
+
+  const [axisA, axisB] = coordinateMode === 'plane' ? ['x', 'y'] as const : ['lat', 'lon'] as const;
+
+  const parseCoordinate = (value: string): number | undefined => {
+    if (value.trim() === '') return undefined;
+    const parsed = parseFloat(value.replace(',', '.'));
+    return isNaN(parsed) ? undefined : parsed;
+  };
 
   const addCity = () => {
     if (!newCityName.trim()) return;
     
     const newCity: City = {
       id: Date.now().toString(),
-      name: newCityName.trim()
+      name: newCityName.trim(),
+      [axisA]: parseCoordinate(newCityA),
+      [axisB]: parseCoordinate(newCityB)
     };
     
     setCities([...cities, newCity]);
     setNewCityName('');
+    setNewCityA('');
+    setNewCityB('');
+  };
+
+  const updateCityCoordinate = (cityId: string, axis: 'x' | 'y' | 'lat' | 'lon', value: string) => {
+    setCities(cities.map(city =>
+      city.id === cityId ? { ...city, [axis]: parseCoordinate(value) } : city
+    ));
+  };
+
+  // Collage de lignes « nom;lat;lon » : met à jour les villes existantes de même nom, ajoute les autres
+  const importPastedLines = () => {
+    const { cities: parsed, errors } = parseLatLonLines(pastedLines);
+    setPasteErrors(errors);
+    if (parsed.length === 0) return;
+
+    const updated = [...cities];
+    parsed.forEach((entry, index) => {
+      const existing = updated.findIndex(city => city.name.toLowerCase() === entry.name.toLowerCase());
+      if (existing >= 0) {
+        updated[existing] = { ...updated[existing], lat: entry.lat, lon: entry.lon };
+      } else {
+        updated.push({ id: `${Date.now()}_${index}`, name: entry.name, lat: entry.lat, lon: entry.lon });
+      }
+    });
+    setCities(updated);
+    if (errors.length === 0) setPastedLines('');
+  };
+
+  // Étendue du plan : au moins [0, 100], élargie pour contenir toutes les villes placées
+  const placedCities = cities.filter(hasCoordinates);
+  const planeMin = Math.min(0, ...placedCities.map(city => Math.min(city.x, city.y)));
+  const planeMax = Math.max(100, ...placedCities.map(city => Math.max(city.x, city.y)));
+  const planeSize = planeMax - planeMin;
+
+  const handlePlaneClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.round((planeMin + ((e.clientX - rect.left) / rect.width) * planeSize) * 10) / 10;
+    const y = Math.round((planeMax - ((e.clientY - rect.top) / rect.height) * planeSize) * 10) / 10;
+
+    if (placingCityId) {
+      // Placer la ville sélectionnée
+      setCities(cities.map(city => city.id === placingCityId ? { ...city, x, y } : city));
+      setPlacingCityId(null);
+      return;
+    }
+
+    // Sinon, ajouter une nouvelle ville au point cliqué
+    const newCity: City = {
+      id: Date.now().toString(),
+      name: newCityName.trim() || `Ville ${cities.length + 1}`,
+      x,
+      y
+    };
+    setCities([...cities, newCity]);
+    setNewCityName('');
   };
 
   const removeCity = (cityId: string) => {
@@ -32,6 +121,20 @@ export const CityManager: React.FC<CityManagerProps> = ({ onCitiesConfirmed }) =
     ));
   };
 
+  // Fichier TSPLIB (.tsp / .atsp) : villes et matrice des coûts chargées d'un coup
+  const importTsplib = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const instance = parseTsplibInstance(await file.text());
+      onInstanceLoaded(instance.cities, instance.matrix);
+    } catch (error) {
+      alert(`Import TSPLIB impossible : ${(error as Error).message}`);
+    }
+  };
+
   const handleConfirm = () => {
     if (cities.length < 3) {
       alert('Veuillez saisir au moins 3 villes pour résoudre le TSP.');
@@ -42,16 +145,51 @@ export const CityManager: React.FC<CityManagerProps> = ({ onCitiesConfirmed }) =
 
   return (
     <div className="bg-white rounded-xl shadow-lg p-8">
-      <div className="flex items-center space-x-3 mb-8">
-        <div className="p-2 bg-blue-100 rounded-lg">
-          <MapPin className="h-6 w-6 text-blue-600" />
-        </div>
-        <div>
-          <h2 className="text-2xl font-bold text-gray-900">Définition des villes</h2>
-          <p className="text-gray-600 mt-1">
-            Ajoutez les villes que le voyageur doit visiter (minimum 3 villes)
-          </p>
+      <div className="flex items-center justify-between mb-8">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-blue-100 rounded-lg">
+            <MapPin className="h-6 w-6 text-blue-600" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Définition des villes</h2>
+            <p className="text-gray-600 mt-1">
+              Ajoutez les villes que le voyageur doit visiter (minimum 3 villes)
+            </p>
+          </div>
         </div>
+
+        <label
+          title="Instance TSPLIB : matrice EXPLICIT ou coordonnées EUC_2D, CEIL_2D, ATT, GEO"
+          className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 cursor-pointer
+                   rounded-lg transition-colors duration-200 flex items-center space-x-2"
+        >
+          <Upload className="h-4 w-4" />
+          <span>Importer TSPLIB (.tsp, .atsp)</span>
+          <input type="file" accept=".tsp,.atsp,.txt" onChange={importTsplib} className="hidden" />
+        </label>
+      </div>
+
+      {/* Coordinate system */}
+      <div className="flex items-center space-x-2 mb-4">
+        <span className="text-sm text-gray-600">Coordonnées :</span>
+        <button
+          onClick={() => setCoordinateMode('plane')}
+          className={`px-3 py-1 rounded-lg text-sm flex items-center space-x-1 transition-colors duration-200 ${
+            coordinateMode === 'plane' ? 'bg-blue-600 text-white' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+          }`}
+        >
+          <Crosshair className="h-4 w-4" />
+          <span>Plan (x, y)</span>
+        </button>
+        <button
+          onClick={() => setCoordinateMode('geo')}
+          className={`px-3 py-1 rounded-lg text-sm flex items-center space-x-1 transition-colors duration-200 ${
+            coordinateMode === 'geo' ? 'bg-blue-600 text-white' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+          }`}
+        >
+          <Globe className="h-4 w-4" />
+          <span>Latitude / longitude</span>
+        </button>
       </div>
 
       {/* Add new city */}
@@ -67,6 +205,26 @@ export const CityManager: React.FC<CityManagerProps> = ({ onCitiesConfirmed }) =
                      focus:border-transparent transition-all duration-200"
           />
         </div>
+        <input
+          type="text"
+          inputMode="decimal"
+          value={newCityA}
+          onChange={(e) => setNewCityA(e.target.value)}
+          onKeyPress={(e) => e.key === 'Enter' && addCity()}
+          placeholder={coordinateMode === 'plane' ? 'x (optionnel)' : 'lat (optionnel)'}
+          className="w-32 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 
+                   focus:border-transparent transition-all duration-200"
+        />
+        <input
+          type="text"
+          inputMode="decimal"
+          value={newCityB}
+          onChange={(e) => setNewCityB(e.target.value)}
+          onKeyPress={(e) => e.key === 'Enter' && addCity()}
+          placeholder={coordinateMode === 'plane' ? 'y (optionnel)' : 'lon (optionnel)'}
+          className="w-32 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 
+                   focus:border-transparent transition-all duration-200"
+        />
         <button
           onClick={addCity}
           disabled={!newCityName.trim()}
@@ -78,11 +236,104 @@ export const CityManager: React.FC<CityManagerProps> = ({ onCitiesConfirmed }) =
         </button>
       </div>
 
+      {/* Coordinate plane */}
+      {coordinateMode === 'plane' && (
+        <div className="mb-8">
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">Plan des villes</h3>
+          <p className="text-sm text-gray-600 mb-3">
+            {placingCityId
+              ? `Cliquez sur le plan pour placer « ${cities.find(city => city.id === placingCityId)?.name} »`
+              : 'Cliquez sur le plan pour ajouter une ville à cet emplacement (les coordonnées servent à remplir la matrice)'}
+          </p>
+          <svg
+            viewBox="0 0 100 100"
+            preserveAspectRatio="none"
+            onClick={handlePlaneClick}
+            className={`w-full h-72 border rounded-lg bg-slate-50 cursor-crosshair ${
+              placingCityId ? 'border-blue-500 ring-2 ring-blue-200' : 'border-gray-200'
+            }`}
+          >
+            {[10, 20, 30, 40, 50, 60, 70, 80, 90].map(t => (
+              <g key={t}>
+                <line x1={t} y1={0} x2={t} y2={100} stroke="#E5E7EB" strokeWidth={0.2} />
+                <line x1={0} y1={t} x2={100} y2={t} stroke="#E5E7EB" strokeWidth={0.2} />
+              </g>
+            ))}
+            {placedCities.map(city => (
+              <g key={city.id}>
+                <circle
+                  cx={((city.x - planeMin) / planeSize) * 100}
+                  cy={((planeMax - city.y) / planeSize) * 100}
+                  r={1.5}
+                  fill="#2563EB"
+                />
+                <text
+                  x={((city.x - planeMin) / planeSize) * 100 + 2}
+                  y={((planeMax - city.y) / planeSize) * 100 - 2}
+                  fontSize={3}
+                  fill="#1E3A8A"
+                >
+                  {city.name}
+                </text>
+              </g>
+            ))}
+          </svg>
+          <div className="flex justify-between text-xs text-gray-500 mt-1">
+            <span>({planeMin}, {planeMin})</span>
+            <span>({planeMax}, {planeMax})</span>
+          </div>
+        </div>
+      )}
+
+      {/* Paste latitude / longitude lines */}
+      {coordinateMode === 'geo' && (
+        <div className="mb-8">
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">Coller des villes</h3>
+          <p className="text-sm text-gray-600 mb-3">
+            Une ville par ligne au format <code className="bg-gray-100 px-1 rounded">nom;latitude;longitude</code> en
+            degrés décimaux (ex. <code className="bg-gray-100 px-1 rounded">Lyon;45,764;4,8357</code>).
+            Les villes déjà présentes sont mises à jour.
+          </p>
+          <textarea
+            value={pastedLines}
+            onChange={(e) => setPastedLines(e.target.value)}
+            rows={5}
+            placeholder={'Paris;48.8566;2.3522\nLyon;45.764;4.8357\nMarseille;43.2965;5.3698'}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 
+                     focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+          />
+          <div className="flex justify-end mt-2">
+            <button
+              onClick={importPastedLines}
+              disabled={!pastedLines.trim()}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white rounded-lg 
+                       transition-colors duration-200 flex items-center space-x-2"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Importer les lignes</span>
+            </button>
+          </div>
+          {pasteErrors.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 mt-3">
+              {pasteErrors.map(error => (
+                <p key={error} className="text-red-800 text-sm">⚠️ {error}</p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Cities list */}
       <div className="space-y-3 mb-8">
         <h3 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
           <span>Villes ajoutées ({cities.length})</span>
         </h3>
+        {cities.length > 0 && (
+          <p className="text-sm text-gray-600">
+            <Home className="h-4 w-4 inline text-amber-500" /> Dépôt : {cities[depotIndex].name}.
+            Cliquez sur le numéro d'une ville pour en faire le point de départ de la tournée.
+          </p>
+        )}
         
         {cities.length === 0 ? (
           <div className="text-center py-12 text-gray-500">
@@ -95,17 +346,54 @@ export const CityManager: React.FC<CityManagerProps> = ({ onCitiesConfirmed }) =
             {cities.map((city, index) => (
               <div key={city.id} className="flex items-center space-x-3 p-4 border border-gray-200 
                                           rounded-lg hover:border-blue-300 transition-colors duration-200">
-                <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
-                  <span className="text-sm font-medium text-blue-600">{index + 1}</span>
-                </div>
+                <button
+                  onClick={() => onProblemChange({ ...problem, startId: city.id })}
+                  title={index === depotIndex ? 'Dépôt : la tournée part de cette ville' : 'Choisir comme dépôt (ville de départ)'}
+                  className={`w-8 h-8 rounded-full flex items-center justify-center transition-colors duration-200 ${
+                    index === depotIndex ? 'bg-amber-500 text-white' : 'bg-blue-100 text-blue-600 hover:bg-amber-100'
+                  }`}
+                >
+                  {index === depotIndex
+                    ? <Home className="h-4 w-4" />
+                    : <span className="text-sm font-medium">{index + 1}</span>}
+                </button>
                 
                 <input
                   type="text"
                   value={city.name}
                   onChange={(e) => updateCityName(city.id, e.target.value)}
-                  className="flex-1 px-3 py-2 border-0 bg-transparent focus:ring-0 focus:outline-none 
+                  className="flex-1 min-w-0 px-3 py-2 border-0 bg-transparent focus:ring-0 focus:outline-none 
                            text-gray-900 font-medium"
                 />
+
+                <input
+                  type="number"
+                  step="any"
+                  value={city[axisA] ?? ''}
+                  onChange={(e) => updateCityCoordinate(city.id, axisA, e.target.value)}
+                  placeholder={axisA}
+                  className="w-16 px-2 py-1 border border-gray-200 rounded text-sm text-center"
+                />
+                <input
+                  type="number"
+                  step="any"
+                  value={city[axisB] ?? ''}
+                  onChange={(e) => updateCityCoordinate(city.id, axisB, e.target.value)}
+                  placeholder={axisB}
+                  className="w-16 px-2 py-1 border border-gray-200 rounded text-sm text-center"
+                />
+
+                {coordinateMode === 'plane' && (
+                  <button
+                    onClick={() => setPlacingCityId(placingCityId === city.id ? null : city.id)}
+                    title="Placer sur le plan"
+                    className={`p-2 rounded-lg transition-colors duration-200 ${
+                      placingCityId === city.id ? 'bg-blue-600 text-white' : 'text-blue-600 hover:bg-blue-50'
+                    }`}
+                  >
+                    <Crosshair className="h-4 w-4" />
+                  </button>
+                )}
                 
                 <button
                   onClick={() => removeCity(city.id)}
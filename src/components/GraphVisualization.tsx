@@ -1,17 +1,30 @@
 import React, { useEffect, useRef } from 'react';
 import { Eye } from 'lucide-react';
-import { City, TSPResult } from '../App';
+import { City, TSPResult, TourMove } from '../types';
+import { formatCost, isForbidden, isSymmetricMatrix } from '../utils/costs';
+import { tourColor } from '../utils/tourColors';
+
+// Arête dessinée : coût renseigné et arc non interdit (∞)
+const hasEdge = (cost: number | undefined): cost is number =>
+  cost !== undefined && !isNaN(cost) && !isForbidden(cost);
+
+// Durée de l'animation d'un mouvement de recherche locale (ms) ; au-delà de MOVE_ANIMATION_MAX_CITIES villes,
+// le graphe complet est trop long à redessiner à chaque image : mouvement affiché sans transition
+const MOVE_ANIMATION_MS = 1000;
+const MOVE_ANIMATION_MAX_CITIES = 30;
 
 interface GraphVisualizationProps {
   cities: City[];
   costMatrix: number[][];
   result?: TSPResult | null;
+  move?: TourMove | null; // Mouvement de recherche locale rejoué : arcs retirés et ajoutés animés
 }
 
 export const GraphVisualization: React.FC<GraphVisualizationProps> = ({
   cities,
   costMatrix,
-  result
+  result,
+  move
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
@@ -39,150 +52,222 @@ export const GraphVisualization: React.FC<GraphVisualizationProps> = ({
     const height = rect.height;
     const margin = 60;
 
-    // Clear canvas
-    ctx.clearRect(0, 0, width, height);
+    // Mouvement rejoué : progress va de 0 (circuit précédent) à 1 (circuit après le mouvement)
+    const draw = (progress: number) => {
+      // Clear canvas
+      ctx.clearRect(0, 0, width, height);
 
-    // Generate city positions in a more organized layout
-    const positions = cities.map((city, index) => {
-      let x, y;
+      // Generate city positions in a more organized layout
+      const positions = cities.map((city, index) => {
+        let x, y;
       
-      if (cities.length === 6) {
-        // Special layout for 6 cities (like in the image)
-        const positions6 = [
-          { x: width * 0.2, y: height * 0.3 },  // A (top-left)
-          { x: width * 0.4, y: height * 0.2 },  // B (top-center)
-          { x: width * 0.6, y: height * 0.3 },  // C (top-right)
-          { x: width * 0.3, y: height * 0.7 },  // D (bottom-left)
-          { x: width * 0.5, y: height * 0.8 },  // E (bottom-center)
-          { x: width * 0.7, y: height * 0.7 }   // F (bottom-right)
-        ];
-        return positions6[index];
-      } else if (cities.length <= 4) {
-        // Square layout for 4 or fewer cities
-        const positions4 = [
-          { x: width * 0.25, y: height * 0.25 }, // Top-left
-          { x: width * 0.75, y: height * 0.25 }, // Top-right
-          { x: width * 0.25, y: height * 0.75 }, // Bottom-left
-          { x: width * 0.75, y: height * 0.75 }  // Bottom-right
-        ];
-        return positions4[index];
-      } else {
-        // Circular layout for other numbers
-        const angle = (2 * Math.PI * index) / cities.length - Math.PI / 2;
-        const radius = Math.min(width, height) / 2 - margin;
-        const centerX = width / 2;
-        const centerY = height / 2;
+        if (cities.length === 6) {
+          // Special layout for 6 cities (like in the image)
+          const positions6 = [
+            { x: width * 0.2, y: height * 0.3 },  // A (top-left)
+            { x: width * 0.4, y: height * 0.2 },  // B (top-center)
+            { x: width * 0.6, y: height * 0.3 },  // C (top-right)
+            { x: width * 0.3, y: height * 0.7 },  // D (bottom-left)
+            { x: width * 0.5, y: height * 0.8 },  // E (bottom-center)
+            { x: width * 0.7, y: height * 0.7 }   // F (bottom-right)
+          ];
+          return positions6[index];
+        } else if (cities.length <= 4) {
+          // Square layout for 4 or fewer cities
+          const positions4 = [
+            { x: width * 0.25, y: height * 0.25 }, // Top-left
+            { x: width * 0.75, y: height * 0.25 }, // Top-right
+            { x: width * 0.25, y: height * 0.75 }, // Bottom-left
+            { x: width * 0.75, y: height * 0.75 }  // Bottom-right
+          ];
+          return positions4[index];
+        } else {
+          // Circular layout for other numbers
+          const angle = (2 * Math.PI * index) / cities.length - Math.PI / 2;
+          const radius = Math.min(width, height) / 2 - margin;
+          const centerX = width / 2;
+          const centerY = height / 2;
         
-        x = centerX + radius * Math.cos(angle);
-        y = centerY + radius * Math.sin(angle);
-        return { x, y };
-      }
-    });
+          x = centerX + radius * Math.cos(angle);
+          y = centerY + radius * Math.sin(angle);
+          return { x, y };
+        }
+      });
 
-    // Draw directed edges (arrows) for all valid connections
-    ctx.strokeStyle = '#8B4513'; // Brown color like in the image
-    ctx.lineWidth = 2;
-    ctx.setLineDash([8, 4]); // Dashed lines
+      // Draw directed edges (arrows) for all valid connections
+      // Matrice symétrique : une seule arête non orientée par paire de villes
+      const symmetric = isSymmetricMatrix(costMatrix);
+      ctx.strokeStyle = '#8B4513'; // Brown color like in the image
+      ctx.lineWidth = 2;
+      ctx.setLineDash([8, 4]); // Dashed lines
 
-    for (let i = 0; i < cities.length; i++) {
-      for (let j = 0; j < cities.length; j++) {
-        if (i !== j && costMatrix[i] && costMatrix[i][j] > 0) {
-          const from = positions[i];
-          const to = positions[j];
+      for (let i = 0; i < cities.length; i++) {
+        for (let j = symmetric ? i + 1 : 0; j < cities.length; j++) {
+          if (i !== j && costMatrix[i] && hasEdge(costMatrix[i][j])) {
+            const from = positions[i];
+            const to = positions[j];
           
-          // Calculate arrow position (avoiding overlap with nodes)
-          const angle = Math.atan2(to.y - from.y, to.x - from.x);
-          const nodeRadius = 30;
-          const startX = from.x + nodeRadius * Math.cos(angle);
-          const startY = from.y + nodeRadius * Math.sin(angle);
-          const endX = to.x - nodeRadius * Math.cos(angle);
-          const endY = to.y - nodeRadius * Math.sin(angle);
+            // Calculate arrow position (avoiding overlap with nodes)
+            const angle = Math.atan2(to.y - from.y, to.x - from.x);
+            const nodeRadius = 30;
+            const startX = from.x + nodeRadius * Math.cos(angle);
+            const startY = from.y + nodeRadius * Math.sin(angle);
+            const endX = to.x - nodeRadius * Math.cos(angle);
+            const endY = to.y - nodeRadius * Math.sin(angle);
           
-          // Draw arrow line
-          ctx.beginPath();
-          ctx.moveTo(startX, startY);
-          ctx.lineTo(endX, endY);
-          ctx.stroke();
+            // Draw arrow line
+            ctx.beginPath();
+            ctx.moveTo(startX, startY);
+            ctx.lineTo(endX, endY);
+            ctx.stroke();
 
-          // Draw arrowhead
-          const arrowLength = 15;
-          const arrowAngle = Math.PI / 6;
+            // Draw arrowhead
+            const arrowLength = 15;
+            const arrowAngle = Math.PI / 6;
           
-          ctx.setLineDash([]); // Solid lines for arrowhead
-          ctx.beginPath();
-          ctx.moveTo(endX, endY);
-          ctx.lineTo(
-            endX - arrowLength * Math.cos(angle - arrowAngle),
-            endY - arrowLength * Math.sin(angle - arrowAngle)
-          );
-          ctx.moveTo(endX, endY);
-          ctx.lineTo(
-            endX - arrowLength * Math.cos(angle + arrowAngle),
-            endY - arrowLength * Math.sin(angle + arrowAngle)
-          );
-          ctx.stroke();
-          ctx.setLineDash([8, 4]); // Back to dashed for lines
+            if (!symmetric) {
+              ctx.setLineDash([]); // Solid lines for arrowhead
+              ctx.beginPath();
+              ctx.moveTo(endX, endY);
+              ctx.lineTo(
+                endX - arrowLength * Math.cos(angle - arrowAngle),
+                endY - arrowLength * Math.sin(angle - arrowAngle)
+              );
+              ctx.moveTo(endX, endY);
+              ctx.lineTo(
+                endX - arrowLength * Math.cos(angle + arrowAngle),
+                endY - arrowLength * Math.sin(angle + arrowAngle)
+              );
+              ctx.stroke();
+              ctx.setLineDash([8, 4]); // Back to dashed for lines
+            }
 
-          // Draw cost label on the edge
-          const cost = costMatrix[i][j];
-          if (cost > 0) {
-            const midX = (startX + endX) / 2;
-            const midY = (startY + endY) / 2;
+            // Draw cost label on the edge
+            const cost = costMatrix[i][j];
+            if (hasEdge(cost)) {
+              const midX = (startX + endX) / 2;
+              const midY = (startY + endY) / 2;
             
-            // Background for cost label
-            ctx.setLineDash([]);
-            ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
-            ctx.strokeStyle = '#8B4513';
-            ctx.lineWidth = 1;
+              // Background for cost label
+              ctx.setLineDash([]);
+              ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+              ctx.strokeStyle = '#8B4513';
+              ctx.lineWidth = 1;
             
-            const textWidth = ctx.measureText(cost.toString()).width;
-            const padding = 4;
-            const rectWidth = textWidth + padding * 2;
-            const rectHeight = 16;
+              const textWidth = ctx.measureText(formatCost(cost)).width;
+              const padding = 4;
+              const rectWidth = textWidth + padding * 2;
+              const rectHeight = 16;
             
-            ctx.fillRect(midX - rectWidth/2, midY - rectHeight/2, rectWidth, rectHeight);
-            ctx.strokeRect(midX - rectWidth/2, midY - rectHeight/2, rectWidth, rectHeight);
+              ctx.fillRect(midX - rectWidth/2, midY - rectHeight/2, rectWidth, rectHeight);
+              ctx.strokeRect(midX - rectWidth/2, midY - rectHeight/2, rectWidth, rectHeight);
             
-            // Cost text
-            ctx.fillStyle = '#8B4513';
-            ctx.font = 'bold 12px Arial';
-            ctx.textAlign = 'center';
-            ctx.textBaseline = 'middle';
-            ctx.fillText(cost.toString(), midX, midY);
+              // Cost text
+              ctx.fillStyle = '#8B4513';
+              ctx.font = 'bold 12px Arial';
+              ctx.textAlign = 'center';
+              ctx.textBaseline = 'middle';
+              ctx.fillText(formatCost(cost), midX, midY);
+            }
           }
         }
       }
-    }
 
-    // Draw cities as white circles with dashed brown border
-    cities.forEach((city, index) => {
-      const pos = positions[index];
+      // Arc de la tournée, flèche comprise ; length < 1 : tracé partiel depuis la ville de départ
+      const drawArc = (fromCity: number, toCity: number, length = 1) => {
+        const from = positions[fromCity];
+        const to = positions[toCity];
+        if (!from || !to) return;
+
+        const angle = Math.atan2(to.y - from.y, to.x - from.x);
+        const nodeRadius = 30;
+        const startX = from.x + nodeRadius * Math.cos(angle);
+        const startY = from.y + nodeRadius * Math.sin(angle);
+        const endX = startX + (to.x - nodeRadius * Math.cos(angle) - startX) * length;
+        const endY = startY + (to.y - nodeRadius * Math.sin(angle) - startY) * length;
+        const arrowLength = 15;
+        const arrowAngle = Math.PI / 6;
+
+        ctx.beginPath();
+        ctx.moveTo(startX, startY);
+        ctx.lineTo(endX, endY);
+        ctx.moveTo(endX, endY);
+        ctx.lineTo(endX - arrowLength * Math.cos(angle - arrowAngle), endY - arrowLength * Math.sin(angle - arrowAngle));
+        ctx.moveTo(endX, endY);
+        ctx.lineTo(endX - arrowLength * Math.cos(angle + arrowAngle), endY - arrowLength * Math.sin(angle + arrowAngle));
+        ctx.stroke();
+      };
+
+      // Tournée trouvée (trait plein, une couleur par voyageur) ; chemin ouvert : pas d'arc de retour vers le départ.
+      // Mouvement rejoué : circuit après le mouvement, ses arcs ajoutés étant tracés à part
+      const added = new Set(move?.added.map(([i, j]) => `${i}-${j}`));
+      const routes = move ? [move.path] : result ? result.tours ?? [result.path] : [];
+      routes.filter(route => route.length > 1).forEach((route, tour) => {
+        ctx.strokeStyle = tourColor(tour);
+        ctx.lineWidth = 4;
+        ctx.setLineDash([]);
+        route.slice(0, result?.open ? -1 : undefined).forEach((cityIndex, k) => {
+          const nextCity = route[(k + 1) % route.length];
+          if (!added.has(`${cityIndex}-${nextCity}`)) drawArc(cityIndex, nextCity);
+        });
+      });
+
+      if (move) {
+        // Arcs retirés : s'estompent (restent visibles en fin d'animation) ; arcs ajoutés : se tracent
+        ctx.setLineDash([10, 6]);
+        ctx.lineWidth = 4;
+        ctx.strokeStyle = `rgba(220, 38, 38, ${1 - 0.7 * progress})`;
+        move.removed.forEach(([i, j]) => drawArc(i, j));
+        ctx.setLineDash([]);
+        ctx.lineWidth = 5;
+        ctx.strokeStyle = '#F59E0B';
+        move.added.forEach(([i, j]) => drawArc(i, j, progress));
+      }
+
+      // Draw cities as white circles with dashed brown border (villes écartées de la tournée : grisées)
+      cities.forEach((city, index) => {
+        const pos = positions[index];
+        const skipped = result?.skipped?.includes(index);
       
-      // City circle (white fill)
-      ctx.fillStyle = 'white';
-      ctx.beginPath();
-      ctx.arc(pos.x, pos.y, 30, 0, 2 * Math.PI);
-      ctx.fill();
+        // City circle (white fill)
+        ctx.fillStyle = skipped ? '#F3F4F6' : 'white';
+        ctx.beginPath();
+        ctx.arc(pos.x, pos.y, 30, 0, 2 * Math.PI);
+        ctx.fill();
 
-      // City border (dashed brown)
-      ctx.strokeStyle = '#8B4513';
-      ctx.lineWidth = 2;
-      ctx.setLineDash([5, 5]);
-      ctx.stroke();
+        // City border (dashed brown)
+        ctx.strokeStyle = skipped ? '#9CA3AF' : '#8B4513';
+        ctx.lineWidth = 2;
+        ctx.setLineDash([5, 5]);
+        ctx.stroke();
 
-      // City label (single letter)
-      ctx.fillStyle = '#8B4513';
-      ctx.font = 'bold 18px Arial';
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
-      ctx.fillText(city.name.charAt(0).toUpperCase(), pos.x, pos.y);
-    });
+        // City label (single letter)
+        ctx.fillStyle = skipped ? '#9CA3AF' : '#8B4513';
+        ctx.font = 'bold 18px Arial';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(city.name.charAt(0).toUpperCase(), pos.x, pos.y);
+      });
+    };
 
-  }, [cities, costMatrix, result]);
+    if (!move || cities.length > MOVE_ANIMATION_MAX_CITIES) {
+      draw(1);
+      return;
+    }
+    let frame = 0;
+    const started = performance.now();
+    const animate = (now: number) => {
+      const progress = Math.min(1, (now - started) / MOVE_ANIMATION_MS);
+      draw(progress);
+      if (progress < 1) frame = requestAnimationFrame(animate);
+    };
+    frame = requestAnimationFrame(animate);
+    return () => cancelAnimationFrame(frame);
+  }, [cities, costMatrix, result, move]);
 
   // Check if matrix has any valid connections
   const hasValidConnections = costMatrix.some((row, i) => 
-    row.some((cost, j) => i !== j && cost > 0)
+    row.some((cost, j) => i !== j && hasEdge(cost))
   );
 
   if (cities.length === 0) {
@@ -248,6 +333,36 @@ export const GraphVisualization: React.FC<GraphVisualizationProps> = ({
               <div className="w-6 h-4 bg-white border border-brown-600 text-xs text-brown-600 flex items-center justify-center">24</div>
               <span className="text-gray-600">Coûts</span>
             </div>
+            {result && !result.tours && (
+              <div className="flex items-center space-x-2">
+                <div className="w-4 h-1 bg-green-600"></div>
+                <span className="text-gray-600">{result.open ? 'Chemin trouvé' : 'Circuit trouvé'}</span>
+              </div>
+            )}
+            {move && (
+              <>
+                <div className="flex items-center space-x-2">
+                  <div className="w-4 h-1 border-t-2 border-dashed border-red-600"></div>
+                  <span className="text-gray-600">Arcs retirés</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <div className="w-4 h-1 bg-amber-500"></div>
+                  <span className="text-gray-600">Arcs ajoutés</span>
+                </div>
+              </>
+            )}
+            {result?.skipped && result.skipped.length > 0 && (
+              <div className="flex items-center space-x-2">
+                <div className="w-4 h-4 bg-gray-100 border-2 border-gray-400 rounded-full"></div>
+                <span className="text-gray-400">Villes écartées</span>
+              </div>
+            )}
+            {result?.tours?.map((_, tour) => (
+              <div key={tour} className="flex items-center space-x-2">
+                <div className="w-4 h-1" style={{ backgroundColor: tourColor(tour) }}></div>
+                <span className="text-gray-600">Véhicule {tour + 1}</span>
+              </div>
+            ))}
           </div>
         </div>
       </div>
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { LittleAlgorithm } from './LittleAlgorithm';
+import { ProblemSettings, SolverSettings, TSPResult } from '../types';
+import { DEFAULT_PROBLEM_SETTINGS } from '../utils/problem';
+import { DEFAULT_SOLVER_SETTINGS } from '../utils/solverSettings';
+import { LittleWorkerRequest } from '../workers/littleWorker';
+import { ASYMMETRIC_MATRIX, SIX_CITIES } from '../test/instances';
+import { InlineWorker, installInlineWorker } from '../test/inlineWorker';
+
+// LittleAlgorithm reçoit isRunning de son parent : l'état est tenu ici comme dans App
+const Harness: React.FC<{ problem: ProblemSettings; settings: SolverSettings; onComplete: (result: TSPResult) => void }> = ({
+  problem,
+  settings,
+  onComplete
+}) => {
+  const [isRunning, setIsRunning] = useState(false);
+  return (
+    <LittleAlgorithm
+      cities={SIX_CITIES}
+      costMatrix={ASYMMETRIC_MATRIX}
+      problem={problem}
+      settings={settings}
+      onSettingsChange={() => {}}
+      onComplete={onComplete}
+      isRunning={isRunning}
+      setIsRunning={setIsRunning}
+    />
+  );
+};
+
+const HEURISTIC_WARNING = /Les heuristiques ne gèrent ni plusieurs voyageurs/;
+
+describe('LittleAlgorithm', () => {
+  beforeEach(installInlineWorker);
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+  });
+
+  it('transmet au worker l\'heuristique choisie sur une instance sans contrainte', async () => {
+    const onComplete = vi.fn();
+    render(<Harness problem={DEFAULT_PROBLEM_SETTINGS} settings={{ ...DEFAULT_SOLVER_SETTINGS, method: 'greedy-edge' }} onComplete={onComplete} />);
+
+    expect(screen.getByText('Heuristique de construction')).toBeTruthy();
+    expect(screen.queryByText(HEURISTIC_WARNING)).toBeNull();
+
+    fireEvent.click(screen.getByText('Démarrer'));
+    const request = InlineWorker.instances[0].requests[0] as LittleWorkerRequest;
+    expect(request.method).toBe('greedy-edge');
+    expect(request.precedences).toEqual([]);
+
+    fireEvent.click(await screen.findByText('Passer au résultat'));
+    const result = onComplete.mock.calls[0][0] as TSPResult;
+    expect(result.heuristic).toBe('greedy-edge');
+    expect(result.cost).toBe(14);
+    expect(result.steps.length).toBeGreaterThan(0);
+  });
+
+  it('revient à la méthode de Little lorsque l\'instance a des précédences', async () => {
+    const problem: ProblemSettings = { ...DEFAULT_PROBLEM_SETTINGS, precedences: [{ beforeId: 'city-2', afterId: 'city-1' }] };
+    render(<Harness problem={problem} settings={{ ...DEFAULT_SOLVER_SETTINGS, method: 'greedy-edge' }} onComplete={() => {}} />);
+
+    expect(screen.getByText(HEURISTIC_WARNING)).toBeTruthy();
+    fireEvent.click(screen.getByText('Démarrer'));
+    const request = InlineWorker.instances[0].requests[0] as LittleWorkerRequest;
+    expect(request.method).toBeUndefined();
+    expect(request.precedences).toEqual([[2, 1]]);
+  });
+});
@@ -1,623 +1,170 @@
-import React, { useState, useCallback } from 'react';
-import { Play, Pause, SkipForward, RotateCcw, Calculator } from 'lucide-react';
-import { City, LittleStep, TSPResult } from '../App';
+import React, { useState, useRef, useEffect } from 'react';
+import { Play, Pause, SkipForward, RotateCcw, Calculator, Loader2, XCircle } from 'lucide-react';
+import { City, HeuristicMethod, LittleStep, ProblemSettings, SolverSettings, TSPResult } from '../types';
+import { LittleProgress } from '../algorithms/little';
+import { buildTourMatrix } from '../algorithms/reducedMatrix';
+import { formatRoute } from '../algorithms/openPath';
+import { formatCost } from '../utils/costs';
+import { buildToursMatrix, formatTours } from '../algorithms/multipleTsp';
+import { HEURISTIC_LABELS } from '../algorithms/heuristics';
+import {
+  resolveDepot,
+  resolveMandatoryArcs,
+  resolveOpenPath,
+  resolvePrecedences,
+  resolvePrizes,
+  resolveSalesmen,
+  resolveTimeWindows
+} from '../utils/problem';
+import { LittleWorkerMessage, LittleWorkerRequest } from '../workers/littleWorker';
 import { StepDisplay } from './StepDisplay';
 import { TreeVisualization } from './TreeVisualization';
 
+// Les heuristiques ne construisent qu'un circuit ou un chemin simple, éventuellement avec arcs imposés
+const resolveHeuristic = (
+  settings: SolverSettings,
+  problem: ProblemSettings,
+  cities: City[]
+): HeuristicMethod | undefined =>
+  settings.method === 'little' || resolveSalesmen(problem, cities) || resolvePrecedences(problem, cities).length > 0
+    || resolveTimeWindows(problem, cities) || resolvePrizes(problem, cities)
+    ? undefined
+    : settings.method;
+
 interface LittleAlgorithmProps {
   cities: City[];
   costMatrix: number[][];
+  problem: ProblemSettings;
+  settings: SolverSettings;
+  onSettingsChange: (settings: SolverSettings) => void;
   onComplete: (result: TSPResult) => void;
   isRunning: boolean;
   setIsRunning: (running: boolean) => void;
 }
 
-interface BranchNode {
-  matrix: number[][];
-  bound: number;
-  includedArcs: Array<[number, number]>;
-  excluded: Array<[number, number]>;
-  level: number;
-  type: 'root' | 'exclusion' | 'inclusion';
-  parentBound: number;
-}
-
-// Union-Find pour tracker les composants connectés
-class UnionFind {
-  private parent: number[];
-  private rank: number[];
-
-  constructor(size: number) {
-    this.parent = Array.from({ length: size }, (_, i) => i);
-    this.rank = new Array(size).fill(0);
-  }
-
-  find(x: number): number {
-    if (this.parent[x] !== x) {
-      this.parent[x] = this.find(this.parent[x]);
-    }
-    return this.parent[x];
-  }
-
-  union(x: number, y: number): boolean {
-    const rootX = this.find(x);
-    const rootY = this.find(y);
-    
-    if (rootX === rootY) {
-      return false; // Déjà connectés
-    }
-    
-    if (this.rank[rootX] < this.rank[rootY]) {
-      this.parent[rootX] = rootY;
-    } else if (this.rank[rootX] > this.rank[rootY]) {
-      this.parent[rootY] = rootX;
-    } else {
-      this.parent[rootY] = rootX;
-      this.rank[rootX]++;
-    }
-    return true;
-  }
-
-  connected(x: number, y: number): boolean {
-    return this.find(x) === this.find(y);
-  }
-}
-
 export const LittleAlgorithm: React.FC<LittleAlgorithmProps> = ({
   cities,
   costMatrix,
+  problem,
+  settings,
+  onSettingsChange,
   onComplete,
   isRunning,
   setIsRunning
 }) => {
   const [steps, setSteps] = useState<LittleStep[]>([]);
+  // Pendant la résolution, les étapes reçues complètent le tableau sur place (une copie par paquet coûterait
+  // un temps quadratique) : ce compteur ne sert qu'à redessiner
+  const [, setReceivedSteps] = useState(0);
   const [currentStepIndex, setCurrentStepIndex] = useState(-1);
   const [isAutoPlaying, setIsAutoPlaying] = useState(false);
-  const [autoPlaySpeed, setAutoPlaySpeed] = useState(1000);
+  const { autoPlaySpeed } = settings;
+  const heuristic = resolveHeuristic(settings, problem, cities);
 
-  const deepCopy = (matrix: number[][]): number[][] => {
-    return matrix.map(row => [...row]);
-  };
-
-  const reduceMatrix = (matrix: number[][]): { matrix: number[][], reduction: number } => {
-    const n = matrix.length;
-    const newMatrix = deepCopy(matrix);
-    let totalReduction = 0;
+  const [result, setResult] = useState<TSPResult | null>(null);
+  const [isSolving, setIsSolving] = useState(false);
+  const [progress, setProgress] = useState<LittleProgress | null>(null);
+  const workerRef = useRef<Worker | null>(null);
 
-    // Row reduction
-    for (let i = 0; i < n; i++) {
-      let min = 1e9;
-      for (let j = 0; j < n; j++) {
-        if (newMatrix[i][j] !== 1e9 && newMatrix[i][j] !== -999 && newMatrix[i][j] < min) {
-          min = newMatrix[i][j];
-        }
-      }
-      
-      if (min !== 1e9 && min > 0) {
-        totalReduction += min;
-        for (let j = 0; j < n; j++) {
-          if (newMatrix[i][j] !== 1e9 && newMatrix[i][j] !== -999) {
-            newMatrix[i][j] -= min;
-          }
-        }
-      }
-    }
-
-    // Column reduction
-    for (let j = 0; j < n; j++) {
-      let min = 1e9;
-      for (let i = 0; i < n; i++) {
-        if (newMatrix[i][j] !== 1e9 && newMatrix[i][j] !== -999 && newMatrix[i][j] < min) {
-          min = newMatrix[i][j];
-        }
-      }
-      
-      if (min !== 1e9 && min > 0) {
-        totalReduction += min;
-        for (let i = 0; i < n; i++) {
-          if (newMatrix[i][j] !== 1e9 && newMatrix[i][j] !== -999) {
-            newMatrix[i][j] -= min;
-          }
-        }
-      }
-    }
-
-    return { matrix: newMatrix, reduction: totalReduction };
+  const stopWorker = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
   };
 
-  const calculateRegrets = (matrix: number[][]): number[][] => {
-    const n = matrix.length;
-    const regrets = Array(n).fill(null).map(() => Array(n).fill(0));
-
-    for (let i = 0; i < n; i++) {
-      for (let j = 0; j < n; j++) {
-        if (matrix[i][j] === 0) {
-          // Find minimum in row i (excluding column j)
-          let rowMin = 1e9;
-          for (let k = 0; k < n; k++) {
-            if (k !== j && matrix[i][k] !== -999 && matrix[i][k] < rowMin) {
-              rowMin = matrix[i][k];
-            }
-          }
+  // Arrêter le worker si le composant est démonté pendant la résolution
+  useEffect(() => stopWorker, []);
 
-          // Find minimum in column j (excluding row i)
-          let colMin = 1e9;
-          for (let k = 0; k < n; k++) {
-            if (k !== i && matrix[k][j] !== -999 && matrix[k][j] < colMin) {
-              colMin = matrix[k][j];
-            }
-          }
-
-          regrets[i][j] = (rowMin === 1e9 ? 0 : rowMin) + (colMin === 1e9 ? 0 : colMin);
-        }
-      }
-    }
-
-    return regrets;
-  };
-
-  const findMaxRegret = (matrix: number[][], regrets: number[][]): [number, number, number] => {
-    const n = matrix.length;
-    let maxRegret = -1;
-    let maxI = -1, maxJ = -1;
-
-    for (let i = 0; i < n; i++) {
-      for (let j = 0; j < n; j++) {
-        if (matrix[i][j] === 0 && regrets[i][j] > maxRegret) {
-          maxRegret = regrets[i][j];
-          maxI = i;
-          maxJ = j;
-        }
-      }
-    }
-
-    return [maxI, maxJ, maxRegret];
-  };
+  const startAlgorithm = () => {
+    stopWorker();
+    setIsRunning(true);
+    setIsSolving(true);
+    const received: LittleStep[] = [];
+    setSteps(received);
+    setReceivedSteps(0);
+    setResult(null);
+    setProgress(null);
+    setCurrentStepIndex(-1);
 
-  // Fonction pour détecter les cycles avec DFS
-  const hasCycle = (includedArcs: Array<[number, number]>): boolean => {
-    if (includedArcs.length === 0) return false;
-    
-    // Construire le graphe
-    const graph: Map<number, number[]> = new Map();
-    for (const [from, to] of includedArcs) {
-      if (!graph.has(from)) graph.set(from, []);
-      graph.get(from)!.push(to);
-    }
-    
-    const colors = new Array(Math.max(...Array.from(graph.keys())) + 1).fill(0); // 0: white, 1: gray, 2: black
-    
-    const dfs = (node: number): boolean => {
-      colors[node] = 1; // gray
-      
-      const neighbors = graph.get(node) || [];
-      for (const neighbor of neighbors) {
-        if (colors[neighbor] === 1) {
-          return true; // back edge to gray node = cycle
-        }
-        if (colors[neighbor] === 0 && dfs(neighbor)) {
-          return true;
-        }
-      }
-      
-      colors[node] = 2; // black
-      return false;
-    };
-    
-    // DFS depuis chaque nœud non visité
-    for (const node of graph.keys()) {
-      if (colors[node] === 0 && dfs(node)) {
-        return true;
-      }
-    }
-    
-    return false;
-  };
+    const worker = new Worker(new URL('../workers/littleWorker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
 
-  // Fonction pour bloquer les subtours
-  const blockSubtours = (matrix: number[][], includedArcs: Array<[number, number]>, uf: UnionFind): { matrix: number[][], blockedArcs: Array<[number, number]>, description: string } => {
-    const n = matrix.length;
-    const newMatrix = deepCopy(matrix);
-    const blockedArcs: Array<[number, number]> = [];
-    let description = '';
-    
-    if (includedArcs.length === 0) {
-      return { matrix: newMatrix, blockedArcs, description };
-    }
-    
-    // Construire le graphe pour trouver les chemins
-    const graph: Map<number, number[]> = new Map();
-    for (const [from, to] of includedArcs) {
-      if (!graph.has(from)) graph.set(from, []);
-      graph.get(from)!.push(to);
-    }
-    
-    // Trouver les extrémités des chemins
-    const findPathEnds = (start: number): { start: number, end: number } => {
-      let current = start;
-      let end = start;
-      
-      // Suivre le chemin jusqu'à la fin
-      while (graph.has(current)) {
-        const neighbors = graph.get(current)!;
-        if (neighbors.length > 0) {
-          current = neighbors[0];
-          end = current;
-        } else {
+    worker.onmessage = (event: MessageEvent<LittleWorkerMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'steps':
+          received.push(...message.steps);
+          setReceivedSteps(received.length);
+          setCurrentStepIndex(prev => prev === -1 ? 0 : prev);
+          break;
+        case 'progress':
+          setProgress(message.progress);
+          break;
+        case 'done':
+          stopWorker();
+          setIsSolving(false);
+          if (message.result) {
+            setResult({ ...message.result, steps: received });
+          } else {
+            setIsRunning(false);
+          }
           break;
-        }
       }
-      
-      return { start, end };
     };
-    
-    // Pour chaque arc inclus, vérifier les subtours potentiels
-    for (const [from, to] of includedArcs) {
-      const { start: startFrom, end: endFrom } = findPathEnds(from);
-      const { start: startTo, end: endTo } = findPathEnds(to);
-      
-      // Bloquer l'arc qui fermerait le subtour
-      if (newMatrix[endTo][startFrom] !== -999 && newMatrix[endTo][startFrom] !== 1e9) {
-        newMatrix[endTo][startFrom] = -999;
-        blockedArcs.push([endTo, startFrom]);
-        description += `Arc (${endTo+1},${startFrom+1}) bloqué pour éviter le subtour ${startFrom+1}-...-${endTo+1}-${startFrom+1}\n`;
-      }
-    }
-    
-    return { matrix: newMatrix, blockedArcs, description };
-  };
 
-  // Fonction pour construire le chemin complet à partir des arcs inclus
-  const buildCompletePath = (includedArcs: Array<[number, number]>): number[] => {
-    if (includedArcs.length === 0) return [];
-    
-    const graph: Map<number, number[]> = new Map();
-    for (const [from, to] of includedArcs) {
-      if (!graph.has(from)) graph.set(from, []);
-      graph.get(from)!.push(to);
-    }
-    
-    const path: number[] = [];
-    let current = 0; // Commencer par le nœud 0
-    
-    // Suivre le chemin
-    while (graph.has(current) && path.length < includedArcs.length) {
-      path.push(current);
-      const neighbors = graph.get(current)!;
-      if (neighbors.length > 0) {
-        current = neighbors[0];
-      } else {
-        break;
-      }
-    }
-    
-    // Ajouter le dernier nœud
-    if (path.length > 0 && path[path.length - 1] !== current) {
-      path.push(current);
-    }
-    
-    return path;
+    const request: LittleWorkerRequest = {
+      type: 'solve',
+      costMatrix,
+      cityNames: cities.map(city => city.name),
+      openPath: resolveOpenPath(problem, cities),
+      depot: resolveDepot(problem, cities),
+      salesmen: resolveSalesmen(problem, cities),
+      precedences: resolvePrecedences(problem, cities),
+      timeWindows: resolveTimeWindows(problem, cities),
+      mandatoryArcs: resolveMandatoryArcs(problem, cities),
+      prizes: resolvePrizes(problem, cities),
+      method: heuristic
+    };
+    worker.postMessage(request);
   };
 
-  const solveTSP = useCallback((): TSPResult | null => {
-    const n = costMatrix.length;
-    if (n < 3) return null;
-
-    const allSteps: LittleStep[] = [];
-    let stepCounter = 1;
-
-    // Convert cost matrix to working matrix (replace 0s on diagonal with 1e9)
-    const initialMatrix = costMatrix.map((row, i) => 
-      row.map((cell, j) => i === j ? 1e9 : cell)
-    );
-
-    // Step 1: Initial reduction
-    const { matrix: reducedMatrix, reduction: initialBound } = reduceMatrix(initialMatrix);
-    
-    allSteps.push({
-      step: stepCounter++,
-      type: 'reduction',
-      title: 'Réduction initiale de la matrice',
-      matrix: deepCopy(reducedMatrix),
-      bound: initialBound,
-      description: `Réduction par ligne puis par colonne. Borne inférieure initiale: ${initialBound}`
-    });
-
-    // Initialiser l'arborescence avec la racine
-    const queue: BranchNode[] = [{
-      matrix: reducedMatrix,
-      bound: initialBound,
-      includedArcs: [],
-      excluded: [],
-      level: 0,
-      type: 'root',
-      parentBound: 0
-    }];
-
-    let bestCost = 1e9;
-    let bestPath: number[] = [];
-
-    while (queue.length > 0) {
-      // Sort queue by bound (best-first search)
-      queue.sort((a, b) => a.bound - b.bound);
-      const currentNode = queue.shift()!;
-
-      // If this node's bound is already worse than our best solution, prune it
-      if (currentNode.bound >= bestCost) {
-        continue;
-      }
-
-      // Si on a n arcs inclus, vérifier si c'est un cycle complet
-      if (currentNode.level === n) {
-        const completePath = buildCompletePath(currentNode.includedArcs);
-        if (completePath.length === n && !hasCycle(currentNode.includedArcs)) {
-          const tourCost = calculateTourCost(completePath, costMatrix);
-          
-          if (tourCost < bestCost) {
-            bestCost = tourCost;
-            bestPath = completePath;
-          }
-        }
-        continue;
-      }
+  // Annuler la résolution en conservant le meilleur circuit trouvé jusqu'ici
+  const cancelAlgorithm = () => {
+    stopWorker();
+    setIsSolving(false);
 
-      // Calculate regrets for current matrix
-      const regrets = calculateRegrets(currentNode.matrix);
-      const [maxI, maxJ, maxRegret] = findMaxRegret(currentNode.matrix, regrets);
+    const bestPath = progress?.bestPath ?? [];
+    const bestCost = progress?.bestCost ?? Infinity;
+    const bestTours = progress?.bestTours;
+    const bestSkipped = progress?.bestSkipped;
+    const cityName = (i: number) => cities[i]?.name || `Ville ${i+1}`;
+    const open = problem.route === 'path';
 
-      if (maxI === -1) {
-        // Aucun zéro trouvé - vérifier si la matrice est entièrement désactivée
-        let allDisabled = true;
-        for (let i = 0; i < n; i++) {
-          for (let j = 0; j < n; j++) {
-            if (currentNode.matrix[i][j] !== -999 && currentNode.matrix[i][j] !== 1e9) {
-              allDisabled = false;
-              break;
-            }
-          }
-          if (!allDisabled) break;
-        }
-        
-        if (allDisabled) {
-          console.log(`🛑 MATRICE ENTIÈREMENT DÉSACTIVÉE - Arrêt de l'algorithme`);
-          allSteps.push({
-            step: stepCounter++,
-            type: 'final',
-            title: 'Matrice entièrement désactivée',
-            matrix: deepCopy(currentNode.matrix),
-            bound: currentNode.bound,
-            description: `Tous les arcs sont désactivés (-999) ou bloqués (∞). L'algorithme s'arrête car aucune solution n'est possible.`
-          });
-          break; // Sortir de la boucle principale
-        }
-        
-        // ⚠️ AUCUN ZÉRO TROUVÉ - Traitement comme exclusion avec borne infinie
-        console.log(`⚠️ AUCUN ZÉRO TROUVÉ - Traitement comme exclusion avec borne infinie`);
-        
-        // Mettre toutes les valeurs de la matrice à infini (1e9)
-        const infiniteMatrix = deepCopy(currentNode.matrix);
-        for (let i = 0; i < n; i++) {
-          for (let j = 0; j < n; j++) {
-            if (infiniteMatrix[i][j] !== -999) {
-              infiniteMatrix[i][j] = 1e9;
-            }
-          }
-        }
-        
-        allSteps.push({
-          step: stepCounter++,
-          type: 'final',
-          title: 'Aucun regret trouvé - Matrice mise à infini',
-          matrix: infiniteMatrix,
-          bound: 1e9, // Borne infinie
-          description: `Aucun zéro trouvé dans la matrice. Toutes les valeurs sont mises à infini (∞). Borne: ∞`
-        });
-        
-        // Ajouter un nœud d'exclusion avec borne infinie
-        if (1e9 < bestCost) {
-          queue.push({
-            matrix: infiniteMatrix,
-            bound: 1e9,
-            includedArcs: [...currentNode.includedArcs],
-            excluded: [...currentNode.excluded],
-            level: currentNode.level,
-            type: 'exclusion',
-            parentBound: currentNode.bound
-          });
-        }
-        
-        continue; // Passer au nœud suivant
-      }
-
-      allSteps.push({
-        step: stepCounter++,
-        type: 'regret',
-        title: `Calcul des regrets - Niveau ${currentNode.level}`,
-        matrix: deepCopy(currentNode.matrix),
-        bound: currentNode.bound,
-        description: `Arc sélectionné: (${cities[maxI]?.name || `Ville ${maxI+1}`}, ${cities[maxJ]?.name || `Ville ${maxJ+1}`}) avec regret maximum: ${maxRegret}`,
-        selectedArc: [maxI, maxJ],
-        regrets: deepCopy(regrets)
-      });
-
-      // TYPE 2: Exclude the arc (i, j)
-      const excludeMatrix = deepCopy(currentNode.matrix);
-      excludeMatrix[maxI][maxJ] = -999;
-      
-      const { matrix: reducedExcludeMatrix, reduction: excludeReduction } = reduceMatrix(excludeMatrix);
-      const excludeBound = currentNode.bound + maxRegret; // b1 = b + ρ(x, y)
-
-      // TYPE 2: Inclusion (x, y)
-      // Supprimez la ligne x et la colonne y de la matrice réduite (car la ville x est visitée vers y).
-      // Bloquez l'arc provoquant un circuit parasite (typiquement l'arc retour y → x pour éviter un cycle de longueur 2).
-      // Vérifiez si la nouvelle matrice a au moins un zéro par ligne et par colonne. Sinon, réduisez-la.
-      // Borne b2 = b + somme des valeurs soustraites lors de cette réduction supplémentaire.
-      const includeMatrix = deepCopy(currentNode.matrix);
-      
-      // Supprimer la ligne x et la colonne y
-      for (let k = 0; k < n; k++) {
-        includeMatrix[maxI][k] = -999;
-        includeMatrix[k][maxJ] = -999;
-      }
-      
-      // Bloquer l'arc provoquant un circuit parasite (y → x)
-      includeMatrix[maxJ][maxI] = -999;
-      
-      // Vérifier si la nouvelle matrice a au moins un zéro par ligne et par colonne
-      const newIncludedArcs = [...currentNode.includedArcs, [maxI, maxJ]];
-      
-      // Vérifier si l'ajout de cet arc créerait un cycle prématuré
-      if (hasCycle(newIncludedArcs)) {
-        allSteps.push({
-          step: stepCounter++,
-          type: 'branch',
-          title: `Cycle détecté - Branche élaguée`,
-          matrix: deepCopy(includeMatrix),
-          bound: currentNode.bound,
-          description: `L'arc (${maxI+1},${maxJ+1}) créerait un cycle prématuré. Branche élaguée.`
-        });
-        continue;
-      }
-      
-      // Bloquer les subtours
-      const uf = new UnionFind(n);
-      for (const [u, v] of newIncludedArcs) {
-        if (!uf.union(u, v)) {
-          // Déjà connectés = cycle
-          continue;
-        }
-      }
-      const { matrix: matrixWithoutSubtours, blockedArcs, description: subtourDescription } = blockSubtours(includeMatrix, newIncludedArcs, uf);
-      
-      // Réduire la matrice si nécessaire
-      const { matrix: reducedIncludeMatrix, reduction: includeReduction } = reduceMatrix(matrixWithoutSubtours);
-      const includeBound = currentNode.bound + includeReduction; // b2 = b + somme des valeurs soustraites
-
-      // Créer une description des arcs bloqués
-      let subtourInfo = '';
-      if (blockedArcs && blockedArcs.length > 0) {
-        subtourInfo = `\n  → Subtours bloqués:\n${subtourDescription}`;
-      }
-
-      allSteps.push({
-        step: stepCounter++,
-        type: 'branch',
-        title: `BLOC 3: Évaluation des Sommets de l'Arborescence`,
-        matrix: deepCopy(reducedIncludeMatrix),
-        bound: includeBound,
-        description: `TYPE 1 (exclure arc): b1 = ${excludeBound.toFixed(1)} = ${currentNode.bound} + ${maxRegret} (regret ρ(${maxI+1},${maxJ+1}))\nTYPE 2 (inclure arc): b2 = ${includeBound.toFixed(1)} = ${currentNode.bound} + ${includeReduction} (réductions)\n  → Ligne ${maxI+1} et colonne ${maxJ+1} supprimées\n  → Arc inverse (${maxJ+1},${maxI+1}) bloqué pour éviter sous-cycle${subtourInfo}`
-      });
-
-      // DÉCISION: Choisir entre exclusion et inclusion basé sur les bornes
-      if (excludeBound < includeBound) {
-        // L'exclusion est meilleure, on garde la matrice d'exclusion
-        console.log(`🔴 EXCLUSION CHOISIE: ${excludeBound} < ${includeBound}`);
-        
-        if (excludeBound < bestCost) {
-          queue.push({
-            matrix: reducedExcludeMatrix,
-            bound: excludeBound,
-            includedArcs: [...currentNode.includedArcs],
-            excluded: [...currentNode.excluded, [maxI, maxJ]],
-            level: currentNode.level,
-            type: 'exclusion',
-            parentBound: currentNode.bound
-          });
-        }
-      } else {
-        // L'inclusion est meilleure, on garde la matrice d'inclusion
-        console.log(`🟢 INCLUSION CHOISIE: ${includeBound} <= ${excludeBound}`);
-        
-        if (includeBound < bestCost) {
-          queue.push({
-            matrix: reducedIncludeMatrix,
-            bound: includeBound,
-            includedArcs: newIncludedArcs,
-            excluded: [...currentNode.excluded],
-            level: currentNode.level + 1,
-            type: 'inclusion',
-            parentBound: currentNode.bound
-          });
-        }
-      }
-    }
-
-    // Créer une matrice finale avec seulement les arcs du chemin optimal
-    const finalMatrix = Array(n).fill(null).map(() => Array(n).fill(-999));
-    
-    // Activer seulement les arcs du chemin optimal
-    for (let i = 0; i < bestPath.length; i++) {
-      const from = bestPath[i];
-      const to = bestPath[(i + 1) % bestPath.length];
-      finalMatrix[from][to] = costMatrix[from][to];
-    }
-    
-    // Garder la diagonale comme désactivée
-    for (let i = 0; i < n; i++) {
-      finalMatrix[i][i] = -999;
-    }
-
-    allSteps.push({
-      step: stepCounter++,
-      type: 'reduction',
-      title: 'Suppression des arcs parasites',
-      matrix: finalMatrix,
-      bound: bestCost,
-      description: `Matrice nettoyée : seuls les arcs du chemin optimal sont conservés. Tous les autres arcs sont désactivés (—).`
-    });
-
-    allSteps.push({
-      step: stepCounter++,
+    const stopStep: LittleStep = {
+      step: steps.length + 1,
       type: 'final',
-      title: 'Solution optimale trouvée',
-      matrix: finalMatrix,
+      title: 'Recherche interrompue',
+      matrix: bestTours ? buildToursMatrix(bestTours, costMatrix)
+        : bestPath.length > 0 ? buildTourMatrix(bestPath, costMatrix, open) : { rows: [], cols: [], values: [] },
       bound: bestCost,
-      description: `Circuit optimal: ${bestPath.map(i => cities[i]?.name || `Ville ${i+1}`).join(' → ')} → ${cities[bestPath[0]]?.name || `Ville ${bestPath[0]+1}`}`
-    });
-
-    return {
-      path: bestPath,
-      cost: bestCost,
-      steps: allSteps
+      description: bestPath.length > 0
+        ? `Résolution annulée après ${progress?.exploredNodes ?? 0} sommets développés.\n` + (bestTours
+          ? `Meilleures tournées connues: ${formatTours(bestTours, cityName)} (coût total ${formatCost(bestCost)}). Leur optimalité n'est pas prouvée.`
+          : `Meilleur ${open ? 'chemin' : 'circuit'} connu: ${formatRoute(bestPath, cityName, open)} (coût ${formatCost(bestCost)}). Son optimalité n'est pas prouvée.`)
+        : `Résolution annulée après ${progress?.exploredNodes ?? 0} sommets développés, avant qu'un circuit complet ne soit trouvé.`
     };
-  }, [costMatrix, cities]);
-
-  const calculateTourCost = (path: number[], matrix: number[][]): number => {
-    let cost = 0;
-    for (let i = 0; i < path.length; i++) {
-      const from = path[i];
-      const to = path[(i + 1) % path.length];
-      cost += matrix[from][to];
-    }
-    return cost;
-  };
 
-  const startAlgorithm = () => {
-    setIsRunning(true);
-    const result = solveTSP();
-    
-    if (result) {
-      setSteps(result.steps);
-      setCurrentStepIndex(0);
-      
-      if (result.steps.length === 0) {
-        onComplete(result);
-        setIsRunning(false);
-      }
-    } else {
-      setIsRunning(false);
-    }
+    const stoppedSteps = [...steps, stopStep];
+    setSteps(stoppedSteps);
+    setCurrentStepIndex(stoppedSteps.length - 1);
+    setResult(bestPath.length > 0 ? { path: bestPath, cost: bestCost, steps: stoppedSteps, interrupted: true, ...(open && { open: true }), ...(bestTours && { tours: bestTours }), ...(bestSkipped && { skipped: bestSkipped }) } : null);
   };
 
   const nextStep = () => {
     if (currentStepIndex < steps.length - 1) {
       setCurrentStepIndex(currentStepIndex + 1);
-    } else if (currentStepIndex === steps.length - 1) {
+    } else if (currentStepIndex === steps.length - 1 && result) {
       // Algorithm completed
-      const result = solveTSP();
-      if (result) {
-        onComplete(result);
-      }
+      onComplete(result);
     }
   };
 
@@ -634,40 +181,27 @@ export const LittleAlgorithm: React.FC<LittleAlgorithmProps> = ({
   React.useEffect(() => {
     if (isAutoPlaying && currentStepIndex < steps.length - 1) {
       const timer = setTimeout(() => {
-        nextStep();
+        setCurrentStepIndex(currentStepIndex + 1);
       }, autoPlaySpeed);
       return () => clearTimeout(timer);
-    } else if (isAutoPlaying && currentStepIndex === steps.length - 1) {
+    } else if (isAutoPlaying && currentStepIndex === steps.length - 1 && result) {
+      // Pendant la résolution, la lecture attend les étapes suivantes
       setIsAutoPlaying(false);
-      const result = solveTSP();
-      if (result) {
-        onComplete(result);
-      }
+      onComplete(result);
     }
-  }, [isAutoPlaying, currentStepIndex, steps.length, autoPlaySpeed, onComplete, solveTSP]);
+  }, [isAutoPlaying, currentStepIndex, steps.length, autoPlaySpeed, onComplete, result]);
 
   const reset = () => {
+    stopWorker();
+    setIsSolving(false);
+    setResult(null);
+    setProgress(null);
     setSteps([]);
     setCurrentStepIndex(-1);
     setIsRunning(false);
     setIsAutoPlaying(false);
   };
 
-  // Fonction utilitaire pour afficher les valeurs de la matrice
-  const formatMatrixValue = (value: number): string => {
-    if (value === 1e9) return '∞';
-    if (value === -999) return '×';
-    return value.toString();
-  };
-
-  // Fonction utilitaire pour obtenir la classe CSS selon la valeur
-  const getMatrixCellClass = (value: number): string => {
-    if (value === 1e9) return 'bg-red-100 text-red-800 font-bold';
-    if (value === -999) return 'bg-gray-100 text-gray-600 font-bold';
-    if (value === 0) return 'bg-green-100 text-green-800 font-bold';
-    return 'bg-blue-50';
-  };
-
   return (
     <div className="space-y-6">
       {/* Control Panel */}
@@ -678,8 +212,12 @@ export const LittleAlgorithm: React.FC<LittleAlgorithmProps> = ({
               <Calculator className="h-6 w-6 text-purple-600" />
             </div>
             <div>
-              <h2 className="text-2xl font-bold text-gray-900">Algorithme LITTLE</h2>
-              <p className="text-gray-600">Méthode de séparation et évaluation</p>
+              <h2 className="text-2xl font-bold text-gray-900">
+                {heuristic ? 'Heuristique de construction' : 'Algorithme LITTLE'}
+              </h2>
+              <p className="text-gray-600">
+                {heuristic ? HEURISTIC_LABELS[heuristic] : 'Méthode de séparation et évaluation'}
+              </p>
             </div>
           </div>
           
@@ -690,6 +228,30 @@ export const LittleAlgorithm: React.FC<LittleAlgorithmProps> = ({
           )}
         </div>
 
+        <div className="flex items-center space-x-3 mb-6">
+          <label className="text-sm text-gray-600">Méthode:</label>
+          <select
+            value={settings.method}
+            onChange={(e) => onSettingsChange({ ...settings, method: e.target.value as SolverSettings['method'] })}
+            disabled={isRunning}
+            className="px-3 py-1 border border-gray-300 rounded text-sm disabled:bg-gray-100"
+          >
+            <option value="little">Méthode de Little (solution optimale)</option>
+            {(Object.keys(HEURISTIC_LABELS) as HeuristicMethod[]).map(method => (
+              <option key={method} value={method}>Heuristique : {HEURISTIC_LABELS[method]}</option>
+            ))}
+          </select>
+        </div>
+
+        {settings.method !== 'little' && !heuristic && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mb-6">
+            <p className="text-amber-800 text-sm">
+              ⚠️ Les heuristiques ne gèrent ni plusieurs voyageurs, ni précédences, fenêtres horaires ou villes facultatives :
+              la méthode de Little sera utilisée.
+            </p>
+          </div>
+        )}
+
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-4">
             {!isRunning ? (
@@ -747,17 +309,9 @@ export const LittleAlgorithm: React.FC<LittleAlgorithmProps> = ({
             )}
             
             {/* Skip to Result Button */}
-            {steps.length > 0 && (
+            {result && (
               <button
-                onClick={() => {
-                  // Complete the algorithm and show final result
-                  const finalResult: TSPResult = {
-                    path: [0, 1, 2, 0], // Example path
-                    cost: steps[steps.length - 1]?.bound || 0,
-                    steps: steps
-                  };
-                  onComplete(finalResult);
-                }}
+                onClick={() => onComplete(result)}
                 className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg 
                          transition-colors duration-200 flex items-center space-x-2"
               >
@@ -774,7 +328,7 @@ export const LittleAlgorithm: React.FC<LittleAlgorithmProps> = ({
               <label className="text-sm text-gray-600">Vitesse:</label>
               <select
                 value={autoPlaySpeed}
-                onChange={(e) => setAutoPlaySpeed(Number(e.target.value))}
+                onChange={(e) => onSettingsChange({ ...settings, autoPlaySpeed: Number(e.target.value) })}
                 className="px-3 py-1 border border-gray-300 rounded text-sm"
               >
                 <option value={500}>Rapide (0.5s)</option>
@@ -784,6 +338,28 @@ export const LittleAlgorithm: React.FC<LittleAlgorithmProps> = ({
             </div>
           )}
         </div>
+
+        {/* Progress of the background solve */}
+        {isSolving && (
+          <div className="mt-6 flex items-center justify-between bg-purple-50 border border-purple-200 rounded-lg p-4">
+            <div className="flex items-center space-x-3 text-sm text-purple-900">
+              <Loader2 className="h-5 w-5 animate-spin text-purple-600" />
+              <span>
+                Résolution en cours… {progress?.exploredNodes ?? 0} sommets développés,
+                {' '}{progress?.openNodes ?? 0} en attente
+                {progress && isFinite(progress.bestCost) && <> • Meilleur coût: <strong>{formatCost(progress.bestCost)}</strong></>}
+              </span>
+            </div>
+            <button
+              onClick={cancelAlgorithm}
+              className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg 
+                       transition-colors duration-200 flex items-center space-x-2"
+            >
+              <XCircle className="h-4 w-4" />
+              <span>Annuler</span>
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Step Display */}
@@ -794,8 +370,8 @@ export const LittleAlgorithm: React.FC<LittleAlgorithmProps> = ({
         />
       )}
 
-      {/* Tree Visualization */}
-      {steps.length > 0 && (
+      {/* Tree Visualization (méthode de Little uniquement) */}
+      {steps.length > 0 && !heuristic && (
         <TreeVisualization
           steps={steps}
           cities={cities}
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { LittleAlgorithm } from './LittleAlgorithm';
+import { LocalSearchPanel } from './LocalSearchPanel';
+import { TSPResult } from '../types';
+import { DEFAULT_PROBLEM_SETTINGS } from '../utils/problem';
+import { DEFAULT_SOLVER_SETTINGS } from '../utils/solverSettings';
+import { LocalSearchWorkerRequest } from '../workers/localSearchWorker';
+import { ASYMMETRIC_MATRIX, SIX_CITIES } from '../test/instances';
+import { InlineWorker, installInlineWorker } from '../test/inlineWorker';
+
+// Enchaînement de App : heuristique résolue par LittleAlgorithm, puis recherche locale sur l'écran de résultat
+const Flow: React.FC<{ onResult: (result: TSPResult) => void }> = ({ onResult }) => {
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<TSPResult | null>(null);
+  const [replayIndex, setReplayIndex] = useState<number | null>(null);
+  const update = (next: TSPResult) => {
+    setResult(next);
+    onResult(next);
+  };
+
+  return result ? (
+    <LocalSearchPanel
+      cities={SIX_CITIES}
+      costMatrix={ASYMMETRIC_MATRIX}
+      problem={DEFAULT_PROBLEM_SETTINGS}
+      result={result}
+      importedTour={null}
+      onResultChange={update}
+      replayIndex={replayIndex}
+      onReplayChange={setReplayIndex}
+    />
+  ) : (
+    <LittleAlgorithm
+      cities={SIX_CITIES}
+      costMatrix={ASYMMETRIC_MATRIX}
+      problem={DEFAULT_PROBLEM_SETTINGS}
+      settings={{ ...DEFAULT_SOLVER_SETTINGS, method: 'greedy-edge' }}
+      onSettingsChange={() => {}}
+      onComplete={update}
+      isRunning={isRunning}
+      setIsRunning={setIsRunning}
+    />
+  );
+};
+
+describe('LocalSearchPanel', () => {
+  beforeEach(installInlineWorker);
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+  });
+
+  it('améliore le circuit d\'une heuristique et rejoue les mouvements appliqués', async () => {
+    const onResult = vi.fn();
+    render(<Flow onResult={onResult} />);
+
+    fireEvent.click(screen.getByText('Démarrer'));
+    fireEvent.click(await screen.findByText('Passer au résultat'));
+    const constructed = onResult.mock.calls[0][0] as TSPResult;
+    expect(constructed.heuristic).toBe('greedy-edge');
+    expect(constructed.cost).toBe(14);
+
+    // Circuit non prouvé optimal : l'amélioration est proposée
+    expect(screen.queryByText(/est optimal : aucun mouvement/)).toBeNull();
+    fireEvent.click(screen.getByText('Améliorer ce circuit'));
+    const request = InlineWorker.instances[1].requests[0] as LocalSearchWorkerRequest;
+    expect(request.path).toEqual(constructed.path);
+    expect(request.moves).toEqual(['2-opt', 'or-opt', '3-opt']);
+
+    await screen.findByText('Rejouer');
+    const improved = onResult.mock.calls[1][0] as TSPResult;
+    const moves = improved.steps.flatMap(step => step.move ? [step.move] : []);
+    expect(improved.heuristic).toBe('greedy-edge');
+    expect(improved.cost).toBe(11);
+    expect(improved.localSearch).toEqual({ initialCost: 14, moves: 3 });
+    expect(moves.map(move => move.kind)).toEqual(['2-opt', '3-opt', 'or-opt']);
+    // Étapes de la recherche locale ajoutées à la suite de celles de l'heuristique
+    expect(improved.steps.slice(0, constructed.steps.length)).toEqual(constructed.steps);
+    expect(improved.steps.map(step => step.step)).toEqual(improved.steps.map((_, i) => i + 1));
+
+    // Relecture pas à pas, puis retour au circuit final
+    fireEvent.click(screen.getByText('Suivant'));
+    expect(screen.getByText(/Mouvement 1 \/ 3/).textContent).toContain('2-opt');
+    fireEvent.click(screen.getByText('Suivant'));
+    fireEvent.click(screen.getByText('Suivant'));
+    expect(screen.getByText(/Mouvement 3 \/ 3/).textContent).toContain('Or-opt');
+    expect(screen.getByText('Suivant').closest('button')!.disabled).toBe(true);
+    fireEvent.click(screen.getByText('Circuit final'));
+    expect(screen.queryByText(/Mouvement \d \/ 3/)).toBeNull();
+  });
+});
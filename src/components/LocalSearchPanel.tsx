@@ -0,0 +1,261 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Wand2, Loader2, Play, Pause, SkipForward, RotateCcw } from 'lucide-react';
+import { City, LocalSearchMove, ProblemSettings, TSPResult } from '../types';
+import { LOCAL_SEARCH_LABELS } from '../algorithms/localSearch';
+import { formatCost, roundCost } from '../utils/costs';
+import {
+  resolveMandatoryArcs,
+  resolveOpenPath,
+  resolvePrecedences,
+  resolvePrizes,
+  resolveSalesmen,
+  resolveTimeWindows
+} from '../utils/problem';
+import { LocalSearchWorkerMessage, LocalSearchWorkerRequest } from '../workers/localSearchWorker';
+
+interface LocalSearchPanelProps {
+  cities: City[];
+  costMatrix: number[][];
+  problem: ProblemSettings;
+  result: TSPResult;
+  importedTour: { name: string; path: number[] } | null; // Tournée .tour importée, améliorable elle aussi
+  onResultChange: (result: TSPResult) => void;
+  replayIndex: number | null; // Mouvement affiché sur le graphe, null : circuit final
+  onReplayChange: (index: number | null) => void;
+}
+
+const MOVES = Object.keys(LOCAL_SEARCH_LABELS) as LocalSearchMove[];
+const REPLAY_DELAY_MS = 1500;
+
+// Recherche locale (2-opt, Or-opt, 3-opt) sur le circuit du résultat ou une tournée importée,
+// puis relecture des mouvements appliqués sur le graphe
+export const LocalSearchPanel: React.FC<LocalSearchPanelProps> = ({
+  cities,
+  costMatrix,
+  problem,
+  result,
+  importedTour,
+  onResultChange,
+  replayIndex,
+  onReplayChange
+}) => {
+  const [moves, setMoves] = useState<LocalSearchMove[]>(MOVES);
+  const [isImproving, setIsImproving] = useState(false);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+
+  const stopWorker = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  };
+  useEffect(() => stopWorker, []);
+
+  const appliedMoves = result.steps.filter(step => step.move);
+  const currentMove = replayIndex !== null ? appliedMoves[replayIndex]?.move : undefined;
+
+  // Relecture automatique, arrêtée sur le dernier mouvement
+  useEffect(() => {
+    if (!isReplaying) return;
+    if (replayIndex !== null && replayIndex >= appliedMoves.length - 1) {
+      setIsReplaying(false);
+      return;
+    }
+    const timer = setTimeout(() => onReplayChange(replayIndex === null ? 0 : replayIndex + 1), REPLAY_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isReplaying, replayIndex, appliedMoves.length, onReplayChange]);
+
+  // Un seul itinéraire passant par toutes les villes, sans contrainte d'ordre ni d'horaire
+  const supported = !result.tours && !result.skipped && !resolveSalesmen(problem, cities)
+    && resolvePrecedences(problem, cities).length === 0 && !resolveTimeWindows(problem, cities)
+    && !resolvePrizes(problem, cities);
+  // Circuit optimal prouvé par la méthode de Little : aucun mouvement ne peut l'améliorer
+  const provenOptimal = !result.heuristic && !result.interrupted && !result.localSearch;
+
+  const toggleMove = (move: LocalSearchMove) => {
+    setMoves(MOVES.filter(m => m === move ? !moves.includes(m) : moves.includes(m)));
+  };
+
+  // base : résultat complété par la recherche locale (étapes ajoutées à la suite), null pour une tournée importée
+  const improve = (path: number[], base: TSPResult | null) => {
+    stopWorker();
+    setIsImproving(true);
+    setIsReplaying(false);
+    onReplayChange(null);
+
+    const worker = new Worker(new URL('../workers/localSearchWorker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    worker.onmessage = (event: MessageEvent<LocalSearchWorkerMessage>) => {
+      stopWorker();
+      setIsImproving(false);
+      const improved = event.data.result;
+      if (!improved?.localSearch) {
+        alert('Recherche locale impossible : l\'itinéraire emprunte un arc interdit ou ne passe pas une fois par chaque ville.');
+        return;
+      }
+      onResultChange(base
+        ? {
+            ...base,
+            path: improved.path,
+            cost: improved.cost,
+            steps: [...base.steps, ...improved.steps.map(step => ({ ...step, step: step.step + base.steps.length }))],
+            localSearch: {
+              initialCost: base.localSearch?.initialCost ?? base.cost,
+              moves: (base.localSearch?.moves ?? 0) + improved.localSearch.moves
+            }
+          }
+        : improved);
+    };
+
+    const request: LocalSearchWorkerRequest = {
+      type: 'improve',
+      costMatrix,
+      path,
+      cityNames: cities.map(city => city.name),
+      openPath: resolveOpenPath(problem, cities),
+      mandatoryArcs: resolveMandatoryArcs(problem, cities),
+      moves
+    };
+    worker.postMessage(request);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <div className="flex items-center space-x-3 mb-4">
+        <div className="p-2 bg-amber-100 rounded-lg">
+          <Wand2 className="h-5 w-5 text-amber-600" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Recherche locale</h3>
+          <p className="text-sm text-gray-600">
+            Mouvements 2-opt, Or-opt et 3-opt appliqués tant qu'ils diminuent le coût (coûts asymétriques pris en compte)
+          </p>
+        </div>
+      </div>
+
+      {!supported ? (
+        <p className="text-sm text-gray-500">
+          La recherche locale s'applique à un seul circuit ou chemin passant par toutes les villes, sans précédences,
+          fenêtres horaires ni villes facultatives.
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-4 mb-4">
+            {MOVES.map(move => (
+              <label key={move} className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={moves.includes(move)}
+                  onChange={() => toggleMove(move)}
+                  disabled={isImproving}
+                  className="h-4 w-4 text-amber-600 rounded"
+                />
+                <span>{LOCAL_SEARCH_LABELS[move]}</span>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            {!provenOptimal && (
+              <button
+                onClick={() => improve(result.path, result)}
+                disabled={isImproving || moves.length === 0}
+                className="px-4 py-2 bg-amber-600 hover:bg-amber-700 disabled:bg-gray-300 text-white rounded-lg
+                         transition-colors duration-200 flex items-center space-x-2"
+              >
+                <Wand2 className="h-4 w-4" />
+                <span>Améliorer ce {result.open ? 'chemin' : 'circuit'}</span>
+              </button>
+            )}
+            {importedTour && (
+              <button
+                onClick={() => improve(importedTour.path, null)}
+                disabled={isImproving || moves.length === 0}
+                className="px-4 py-2 bg-amber-100 hover:bg-amber-200 disabled:bg-gray-100 text-amber-800 rounded-lg
+                         transition-colors duration-200 flex items-center space-x-2"
+              >
+                <Wand2 className="h-4 w-4" />
+                <span>Améliorer la tournée « {importedTour.name} »</span>
+              </button>
+            )}
+            {isImproving && (
+              <span className="flex items-center space-x-2 text-sm text-amber-800">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                <span>Recherche locale en cours…</span>
+              </span>
+            )}
+          </div>
+          {provenOptimal && !importedTour && (
+            <p className="text-sm text-gray-500 mt-2">
+              Ce {result.open ? 'chemin' : 'circuit'} est optimal : aucun mouvement ne peut l'améliorer. Importez une
+              tournée (.tour) pour l'améliorer.
+            </p>
+          )}
+        </>
+      )}
+
+      {result.localSearch && (
+        <div className="mt-6 border-t border-gray-200 pt-4">
+          <div className="flex items-center justify-between mb-3">
+            <div className="text-sm text-gray-700">
+              Coût {formatCost(result.localSearch.initialCost)} → <strong>{formatCost(result.cost)}</strong>
+              {' '}(gain {formatCost(roundCost(result.localSearch.initialCost - result.cost))},
+              {' '}{result.localSearch.moves} mouvement(s))
+            </div>
+            {appliedMoves.length > 0 && (
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => setIsReplaying(!isReplaying)}
+                  className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm
+                           transition-colors duration-200 flex items-center space-x-1"
+                >
+                  {isReplaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                  <span>{isReplaying ? 'Pause' : 'Rejouer'}</span>
+                </button>
+                <button
+                  onClick={() => onReplayChange(replayIndex === null ? 0 : Math.max(0, replayIndex - 1))}
+                  disabled={isReplaying || replayIndex === 0}
+                  className="px-3 py-1 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-300 text-white rounded-lg text-sm
+                           transition-colors duration-200 flex items-center space-x-1"
+                >
+                  <SkipForward className="h-4 w-4 rotate-180" />
+                  <span>Précédent</span>
+                </button>
+                <button
+                  onClick={() => onReplayChange(replayIndex === null ? 0 : replayIndex + 1)}
+                  disabled={isReplaying || replayIndex === appliedMoves.length - 1}
+                  className="px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white rounded-lg text-sm
+                           transition-colors duration-200 flex items-center space-x-1"
+                >
+                  <SkipForward className="h-4 w-4" />
+                  <span>Suivant</span>
+                </button>
+                <button
+                  onClick={() => {
+                    setIsReplaying(false);
+                    onReplayChange(null);
+                  }}
+                  disabled={replayIndex === null}
+                  className="px-3 py-1 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-300 text-white rounded-lg text-sm
+                           transition-colors duration-200 flex items-center space-x-1"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                  <span>{result.open ? 'Chemin final' : 'Circuit final'}</span>
+                </button>
+              </div>
+            )}
+          </div>
+
+          {currentMove && replayIndex !== null && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-900">
+              <div className="font-medium mb-1">
+                Mouvement {replayIndex + 1} / {appliedMoves.length} ({LOCAL_SEARCH_LABELS[currentMove.kind]}) :
+                {' '}coût {formatCost(currentMove.costBefore)} → {formatCost(currentMove.costAfter)}
+              </div>
+              <div className="whitespace-pre-line">{appliedMoves[replayIndex].description}</div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
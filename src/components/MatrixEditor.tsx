@@ -1,19 +1,55 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowRight, Download, Upload, RotateCcw } from 'lucide-react';
-import { City } from '../App';
+import { ArrowRight, Download, Upload, RotateCcw, Ruler, FileText, Pin } from 'lucide-react';
+import { City, ProblemSettings, SolverSettings } from '../types';
+import { DistanceMetric, DISTANCE_METRICS, buildDistanceMatrix, canUseMetric, isGeoMetric } from '../utils/distances';
+import { downloadFile } from '../utils/download';
+import { writeTsplibInstance } from '../utils/tsplib';
+import { parseMatrixText } from '../utils/matrixImport';
+import { COST_DECIMAL_OPTIONS, FORBIDDEN_COST, formatCostInput, isForbidden, isSymmetricMatrix, parseCost, roundCost } from '../utils/costs';
+import { checkFeasibility, HAMILTONIAN_CHECK_MAX_CITIES } from '../algorithms/feasibility';
+import { buildOpenPathMatrix, DUMMY_CITY_NAME } from '../algorithms/openPath';
+import { buildDepotCopiesMatrix, MTSP_LONGEST_MAX_CITIES } from '../algorithms/multipleTsp';
+import { describeMandatoryConflict, restrictToMandatoryArcs } from '../algorithms/mandatoryArcs';
+import { PRIZE_BUDGET_MAX_CITIES } from '../algorithms/prizeCollecting';
+import { resolveMandatoryArcs, resolveOpenPath, resolvePrizes, resolveSalesmen } from '../utils/problem';
 
 interface MatrixEditorProps {
   cities: City[];
   initialMatrix: number[][];
   onMatrixConfirmed: (matrix: number[][]) => void;
+  onMatrixChange: (matrix: number[][]) => void; // Saisie en cours (sauvegarde automatique)
+  onInstanceLoaded: (cities: City[], matrix: number[][]) => void;
+  problem: ProblemSettings;
+  onProblemChange: (problem: ProblemSettings) => void;
+  settings: SolverSettings;
+  onSettingsChange: (settings: SolverSettings) => void;
 }
 
 export const MatrixEditor: React.FC<MatrixEditorProps> = ({ 
   cities, 
   initialMatrix, 
-  onMatrixConfirmed 
+  onMatrixConfirmed,
+  onMatrixChange,
+  onInstanceLoaded,
+  problem,
+  onProblemChange,
+  settings,
+  onSettingsChange
 }) => {
   const [matrix, setMatrix] = useState<number[][]>(initialMatrix);
+  // Texte de la case en cours de saisie (« 12, » n'est pas encore un nombre complet)
+  const [draft, setDraft] = useState<{ i: number; j: number; text: string } | null>(null);
+  const { costDecimals } = settings;
+  // Mode symétrique : seul le triangle supérieur est saisi, chaque coût c(i, j) est recopié en c(j, i)
+  const [symmetricMode, setSymmetricMode] = useState(() =>
+    isSymmetricMatrix(initialMatrix) && initialMatrix.some((row, i) => row.some((value, j) => i !== j && !isNaN(value)))
+  );
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [metric, setMetric] = useState<DistanceMetric>(() =>
+    canUseMetric(cities, 'haversine') && !canUseMetric(cities, 'euclidean') ? 'haversine' : 'euclidean'
+  );
+
+  const allCitiesPlaced = canUseMetric(cities, metric);
 
   useEffect(() => {
     console.log('MatrixEditor - Cities received:', cities);
@@ -28,7 +64,7 @@ export const MatrixEditor: React.FC<MatrixEditorProps> = ({
         Array(n).fill(null).map((_, j) => {
           if (i === j) return 0;
           // Initialize with empty values instead of random costs
-          return 0; // Let user fill manually
+          return NaN; // Let user fill manually
         })
       );
       console.log('MatrixEditor - New matrix created:', newMatrix);
@@ -36,12 +72,59 @@ export const MatrixEditor: React.FC<MatrixEditorProps> = ({
     }
   }, [cities, initialMatrix]);
 
+  const changeMatrix = (newMatrix: number[][]) => {
+    setMatrix(newMatrix);
+    onMatrixChange(newMatrix);
+  };
+
   const updateMatrix = (i: number, j: number, value: string) => {
-    // Si la valeur est vide, on met 0 pour la validation, mais on affiche rien
-    const numValue = value === '' ? 0 : parseInt(value) || 0;
+    setDraft({ i, j, text: value });
+    // Case vide ou invalide : NaN (non renseignée) ; 0 est un coût valide (villes confondues, ex. br17)
+    const numValue = roundCost(parseCost(value), costDecimals);
     const newMatrix = matrix.map(row => [...row]);
     newMatrix[i][j] = numValue;
-    setMatrix(newMatrix);
+    if (symmetricMode) newMatrix[j][i] = numValue;
+    changeMatrix(newMatrix);
+  };
+
+  // Arc imposé (ex. liaison par ferry) : fait partie de toute tournée
+  const isMandatory = (i: number, j: number) =>
+    problem.mandatoryArcs.some(arc => arc.fromId === cities[i].id && arc.toId === cities[j].id);
+
+  const toggleMandatory = (i: number, j: number) => {
+    const fromId = cities[i].id;
+    const toId = cities[j].id;
+    if (isMandatory(i, j)) {
+      onProblemChange({ ...problem, mandatoryArcs: problem.mandatoryArcs.filter(arc => arc.fromId !== fromId || arc.toId !== toId) });
+      return;
+    }
+    if (isForbidden(matrix[i][j])) {
+      alert(`L'arc ${cities[i].name} → ${cities[j].name} est interdit : rétablissez-le avant de l'imposer.`);
+      return;
+    }
+    const updated = { ...problem, mandatoryArcs: [...problem.mandatoryArcs, { fromId, toId }] };
+    const conflict = describeMandatoryConflict(
+      resolveMandatoryArcs({ ...updated, salesmen: 1 }, cities),
+      cities.length,
+      k => cities[k].name
+    );
+    if (conflict) {
+      alert(`Impossible d'imposer l'arc ${cities[i].name} → ${cities[j].name} : ${conflict}.`);
+      return;
+    }
+    onProblemChange(updated);
+  };
+
+  // Arc interdit (∞) ↔ case vide
+  const toggleForbidden = (i: number, j: number) => {
+    if (isMandatory(i, j) || (symmetricMode && isMandatory(j, i))) {
+      alert('Cet arc est imposé : retirez l\'obligation (📌) avant de l\'interdire.');
+      return;
+    }
+    const newMatrix = matrix.map(row => [...row]);
+    newMatrix[i][j] = isForbidden(newMatrix[i][j]) ? NaN : FORBIDDEN_COST;
+    if (symmetricMode) newMatrix[j][i] = newMatrix[i][j];
+    changeMatrix(newMatrix);
   };
 
   const generateRandomMatrix = () => {
@@ -55,7 +138,10 @@ export const MatrixEditor: React.FC<MatrixEditorProps> = ({
         return Math.max(15, baseCost + variation); // Ensure minimum cost of 15
       })
     );
-    setMatrix(newMatrix);
+    if (symmetricMode) {
+      newMatrix.forEach((row, i) => row.forEach((_, j) => { if (j < i) row[j] = newMatrix[j][i]; }));
+    }
+    changeMatrix(newMatrix);
   };
 
   const makeSymmetric = () => {
@@ -64,19 +150,38 @@ export const MatrixEditor: React.FC<MatrixEditorProps> = ({
     
     for (let i = 0; i < n; i++) {
       for (let j = i + 1; j < n; j++) {
-        const avg = (newMatrix[i][j] + newMatrix[j][i]) / 2;
-        newMatrix[i][j] = avg;
-        newMatrix[j][i] = avg;
+        const [a, b] = [newMatrix[i][j], newMatrix[j][i]];
+        // Un arc interdit ou non renseigné dans un seul sens prend le coût de l'autre sens
+        const value = isForbidden(a) || isNaN(a) ? b : isForbidden(b) || isNaN(b) ? a : roundCost((a + b) / 2, costDecimals);
+        newMatrix[i][j] = value;
+        newMatrix[j][i] = value;
       }
     }
-    setMatrix(newMatrix);
+    changeMatrix(newMatrix);
+  };
+
+  // Activer le mode symétrique aligne d'abord les deux triangles (moyenne des deux sens)
+  const toggleSymmetricMode = () => {
+    if (!symmetricMode) makeSymmetric();
+    setSymmetricMode(!symmetricMode);
+  };
+
+  const fillFromCoordinates = () => {
+    const newMatrix = buildDistanceMatrix(cities, metric);
+    if (!newMatrix) {
+      alert(isGeoMetric(metric)
+        ? 'Toutes les villes doivent avoir une latitude et une longitude pour cette distance.'
+        : 'Toutes les villes doivent avoir des coordonnées (x, y) pour remplir la matrice.');
+      return;
+    }
+    changeMatrix(newMatrix.map(row => row.map(value => roundCost(value, costDecimals))));
   };
 
   const isValidMatrix = () => {
     const n = cities.length;
     for (let i = 0; i < n; i++) {
       for (let j = 0; j < n; j++) {
-        if (i !== j && (matrix[i][j] <= 0 || isNaN(matrix[i][j]))) {
+        if (i !== j && (matrix[i][j] < 0 || isNaN(matrix[i][j]))) {
           return false;
         }
       }
@@ -84,31 +189,107 @@ export const MatrixEditor: React.FC<MatrixEditorProps> = ({
     return true;
   };
 
+  // Chemin ouvert, plusieurs voyageurs : la faisabilité se vérifie sur le problème augmenté
+  // (ville fictive, copies du dépôt)
+  const openPath = resolveOpenPath(problem, cities);
+  const salesmen = resolveSalesmen(problem, cities);
+  const cityNames = cities.map(city => city.name);
+  // Arcs imposés : leurs arcs concurrents sont exclus du contrôle
+  const mandatoryArcs = resolveMandatoryArcs(problem, cities);
+  // Tous les arcs marqués, y compris ceux du dépôt ignorés avec plusieurs voyageurs
+  const markedArcs = resolveMandatoryArcs({ ...problem, salesmen: 1 }, cities);
+  const restrict = (augmented: number[][]) => restrictToMandatoryArcs(augmented, mandatoryArcs);
+  const fullFeasibility = !isValidMatrix() ? null : openPath
+    ? checkFeasibility(restrict(buildOpenPathMatrix(matrix, openPath)), [...cityNames, DUMMY_CITY_NAME])
+    : salesmen
+    ? checkFeasibility(
+        restrict(buildDepotCopiesMatrix(matrix, salesmen)),
+        [...cityNames, ...Array.from({ length: salesmen.count - 1 }, (_, k) => `${cityNames[salesmen.depot]} (copie ${k + 1})`)]
+      )
+    : checkFeasibility(restrict(matrix), cityNames);
+  // Villes facultatives : sans circuit passant par toutes les villes, la tournée peut encore en écarter
+  const prizes = resolvePrizes(problem, cities);
+  const partialToursOnly = !!prizes && fullFeasibility?.feasible === false;
+  const feasibility = partialToursOnly ? { feasible: true } : fullFeasibility;
+  const routeLabel = openPath ? 'chemin' : salesmen ? 'découpage en tournées' : 'circuit';
+  // Plus longue tournée : résolution exacte réservée aux petites instances
+  const tooLargeForLongest = salesmen?.objective === 'longest' && cities.length > MTSP_LONGEST_MAX_CITIES;
+  const tooLargeForBudget = prizes?.budget !== undefined && cities.length > PRIZE_BUDGET_MAX_CITIES;
+
   const handleConfirm = () => {
     if (!isValidMatrix()) {
-      alert('Veuillez saisir des coûts valides (> 0) pour tous les trajets.');
+      alert('Veuillez saisir des coûts valides (≥ 0) pour tous les trajets.');
+      return;
+    }
+    if (feasibility?.feasible === false) {
+      alert(`Instance sans ${routeLabel} réalisable : ${feasibility.reason}.`);
+      return;
+    }
+    if (tooLargeForLongest) {
+      alert(`Minimisation de la plus longue tournée limitée à ${MTSP_LONGEST_MAX_CITIES} villes : choisissez le coût total.`);
+      return;
+    }
+    if (tooLargeForBudget) {
+      alert(`Sélection des villes sous budget limitée à ${PRIZE_BUDGET_MAX_CITIES} villes : choisissez le mode profit.`);
       return;
     }
     onMatrixConfirmed(matrix);
   };
 
   const exportMatrix = () => {
-    const csv = matrix.map(row => row.join(',')).join('\n');
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'matrice_couts.csv';
-    a.click();
+    const csv = matrix.map(row => row.map(value => isForbidden(value) ? 'inf' : value).join(',')).join('\n');
+    downloadFile(csv, 'matrice_couts.csv', 'text/csv');
+  };
+
+  // Import CSV / TSV : remplace la matrice, et les villes si la taille ou les noms changent
+  const importMatrix = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { result, errors } = parseMatrixText(await file.text());
+    setImportErrors(errors);
+    if (!result) return;
+
+    const n = result.matrix.length;
+    setSymmetricMode(isSymmetricMatrix(result.matrix));
+    if (!result.names && n === cities.length) {
+      changeMatrix(result.matrix);
+      return;
+    }
+
+    // Les villes existantes de même nom conservent leurs coordonnées
+    const newCities: City[] = Array.from({ length: n }, (_, i) => {
+      const name = result.names?.[i] ?? `Ville ${i + 1}`;
+      const existing = cities.find(city => city.name.toLowerCase() === name.toLowerCase());
+      return existing ? { ...existing, name } : { id: `${Date.now()}_${i}`, name };
+    });
+    setMatrix(result.matrix);
+    onInstanceLoaded(newCities, result.matrix);
+  };
+
+  const exportTsplib = () => {
+    if (!isValidMatrix()) {
+      alert('La matrice doit être complète pour être exportée au format TSPLIB.');
+      return;
+    }
+    const name = `tsp${cities.length}`;
+    const content = writeTsplibInstance(name, matrix, `Villes : ${cities.map(city => city.name).join(', ')}`);
+    const extension = content.includes('TYPE : ATSP') ? 'atsp' : 'tsp';
+    downloadFile(content, `${name}.${extension}`, 'text/plain');
   };
 
   return (
     <div className="bg-white rounded-xl shadow-lg p-8">
       <div className="flex items-center justify-between mb-8">
         <div>
-          <h2 className="text-2xl font-bold text-gray-900">Matrice des coûts</h2>
+          <h2 className="text-2xl font-bold text-gray-900">
+            {problem.timeWindows === 'off' ? 'Matrice des coûts' : 'Matrice des temps de trajet'}
+          </h2>
           <p className="text-gray-600 mt-1">
-            Définissez les coûts de déplacement entre chaque paire de villes
+            {problem.timeWindows === 'off'
+              ? 'Définissez les coûts de déplacement entre chaque paire de villes'
+              : 'Définissez la durée du trajet entre chaque paire de villes, dans l\'unité des fenêtres horaires'}
           </p>
           <p className="text-blue-600 text-sm mt-2">
             💡 Le graphe se mettra à jour automatiquement selon vos valeurs !
@@ -116,6 +297,52 @@ export const MatrixEditor: React.FC<MatrixEditorProps> = ({
         </div>
         
         <div className="flex items-center space-x-3">
+          <div className="flex items-center rounded-lg border border-blue-200 overflow-hidden">
+            <select
+              value={metric}
+              onChange={(e) => setMetric(e.target.value as DistanceMetric)}
+              className="px-2 py-2 text-sm bg-white text-gray-700 border-0 focus:ring-0"
+            >
+              <optgroup label="Coordonnées planes (x, y)">
+                {DISTANCE_METRICS.filter(option => option.kind === 'planar').map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </optgroup>
+              <optgroup label="Latitude / longitude">
+                {DISTANCE_METRICS.filter(option => option.kind === 'geo').map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </optgroup>
+            </select>
+            <button
+              onClick={fillFromCoordinates}
+              disabled={!allCitiesPlaced}
+              title={allCitiesPlaced
+                ? 'Calculer les coûts à partir des coordonnées'
+                : isGeoMetric(metric)
+                ? 'Toutes les villes doivent avoir une latitude et une longitude'
+                : 'Toutes les villes doivent avoir des coordonnées (x, y)'}
+              className="px-4 py-2 bg-blue-100 hover:bg-blue-200 disabled:bg-gray-100 disabled:text-gray-400 
+                       text-blue-700 transition-colors duration-200 flex items-center space-x-2"
+            >
+              <Ruler className="h-4 w-4" />
+              <span>Depuis les coordonnées</span>
+            </button>
+          </div>
+
+          <select
+            value={costDecimals}
+            onChange={(e) => onSettingsChange({ ...settings, costDecimals: Number(e.target.value) })}
+            title="Précision des coûts saisis (virgule ou point décimal)"
+            className="px-2 py-2 text-sm bg-white text-gray-700 border border-gray-200 rounded-lg"
+          >
+            {COST_DECIMAL_OPTIONS.map(decimals => (
+              <option key={decimals} value={decimals}>
+                {decimals === 0 ? 'Coûts entiers' : `Précision ${(10 ** -decimals).toFixed(decimals).replace('.', ',')}`}
+              </option>
+            ))}
+          </select>
+
           <button
             onClick={generateRandomMatrix}
             className="px-4 py-2 bg-purple-100 hover:bg-purple-200 text-purple-700 
@@ -126,11 +353,15 @@ export const MatrixEditor: React.FC<MatrixEditorProps> = ({
           </button>
           
           <button
-            onClick={makeSymmetric}
-            className="px-4 py-2 bg-green-100 hover:bg-green-200 text-green-700 
-                     rounded-lg transition-colors duration-200"
+            onClick={toggleSymmetricMode}
+            title={symmetricMode
+              ? 'Mode symétrique actif : chaque coût saisi vaut dans les deux sens'
+              : 'Rendre la matrice symétrique (moyenne des deux sens) et saisir un seul sens par paire'}
+            className={`px-4 py-2 rounded-lg transition-colors duration-200 ${symmetricMode
+              ? 'bg-green-600 hover:bg-green-700 text-white'
+              : 'bg-green-100 hover:bg-green-200 text-green-700'}`}
           >
-            Symétrique
+            Symétrique{symmetricMode && ' ✓'}
           </button>
           
           <button
@@ -141,9 +372,122 @@ export const MatrixEditor: React.FC<MatrixEditorProps> = ({
             <Download className="h-4 w-4" />
             <span>Export</span>
           </button>
+
+          <label
+            title="Fichier CSV, TSV ou « ; », avec ou sans noms de villes en en-tête"
+            className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 cursor-pointer
+                     rounded-lg transition-colors duration-200 flex items-center space-x-2"
+          >
+            <Upload className="h-4 w-4" />
+            <span>Import</span>
+            <input type="file" accept=".csv,.tsv,.txt" onChange={importMatrix} className="hidden" />
+          </label>
+
+          <button
+            onClick={exportTsplib}
+            className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 
+                     rounded-lg transition-colors duration-200 flex items-center space-x-2"
+          >
+            <FileText className="h-4 w-4" />
+            <span>TSPLIB</span>
+          </button>
         </div>
       </div>
 
+      {importErrors.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-6">
+          <p className="text-red-800 text-sm font-semibold mb-1">
+            Import impossible : la matrice n'a pas été modifiée
+          </p>
+          {importErrors.slice(0, 10).map(error => (
+            <p key={error} className="text-red-800 text-sm">⚠️ {error}</p>
+          ))}
+          {importErrors.length > 10 && (
+            <p className="text-red-800 text-sm">… et {importErrors.length - 10} autre(s) erreur(s)</p>
+          )}
+        </div>
+      )}
+
+      {/* Type de tournée : circuit fermé ou chemin ouvert, nombre de voyageurs */}
+      <div className="bg-gray-50 rounded-lg p-4 mb-6 flex flex-wrap items-center gap-4">
+        <span className="text-sm font-semibold text-gray-700">Type de tournée</span>
+        <div className="flex rounded-lg border border-gray-200 overflow-hidden">
+          {([['circuit', 'Circuit (retour au départ)'], ['path', 'Chemin ouvert']] as const).map(([route, label]) => (
+            <button
+              key={route}
+              onClick={() => onProblemChange({ ...problem, route })}
+              className={`px-3 py-1 text-sm transition-colors duration-200 ${problem.route === route
+                ? 'bg-blue-600 text-white'
+                : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {openPath && (
+          <>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <span>Départ</span>
+              <select
+                value={cities[openPath.start]?.id}
+                onChange={(e) => onProblemChange({ ...problem, startId: e.target.value })}
+                className="px-2 py-1 bg-white border border-gray-200 rounded-lg"
+              >
+                {cities.map(city => (
+                  <option key={city.id} value={city.id}>{city.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <span>Arrivée</span>
+              <select
+                value={openPath.end === null ? '' : cities[openPath.end].id}
+                onChange={(e) => onProblemChange({ ...problem, endId: e.target.value || null })}
+                className="px-2 py-1 bg-white border border-gray-200 rounded-lg"
+              >
+                <option value="">Libre (meilleure ville d'arrivée)</option>
+                {cities.filter((_, index) => index !== openPath.start).map(city => (
+                  <option key={city.id} value={city.id}>{city.name}</option>
+                ))}
+              </select>
+            </label>
+          </>
+        )}
+
+        {problem.route === 'circuit' && (
+          <>
+            <label
+              title="Voyageurs partant tous du dépôt ; chacun dessert au moins une ville"
+              className="flex items-center space-x-2 text-sm text-gray-700"
+            >
+              <span>Voyageurs</span>
+              <input
+                type="number"
+                min={1}
+                max={Math.max(1, cities.length - 1)}
+                value={problem.salesmen}
+                onChange={(e) => onProblemChange({
+                  ...problem,
+                  salesmen: Math.min(Math.max(1, Math.floor(Number(e.target.value)) || 1), Math.max(1, cities.length - 1))
+                })}
+                className="w-16 px-2 py-1 bg-white border border-gray-200 rounded-lg text-center"
+              />
+            </label>
+            {salesmen && (
+              <select
+                value={problem.objective}
+                onChange={(e) => onProblemChange({ ...problem, objective: e.target.value as 'total' | 'longest' })}
+                className="px-2 py-1 text-sm bg-white border border-gray-200 rounded-lg"
+              >
+                <option value="total">Minimiser le coût total</option>
+                <option value="longest">Minimiser la plus longue tournée (≤ {MTSP_LONGEST_MAX_CITIES} villes)</option>
+              </select>
+            )}
+          </>
+        )}
+      </div>
+
       {/* Matrix */}
       <div className="overflow-x-auto mb-8">
         <table className="w-full border-collapse border border-gray-300">
@@ -176,42 +520,144 @@ export const MatrixEditor: React.FC<MatrixEditorProps> = ({
                     </span>
                   </div>
                 </td>
-                {cities.map((toCity, j) => (
-                  <td key={toCity.id} className="border border-gray-300 p-2">
-                    {i === j ? (
-                      <div className="text-center text-gray-400 font-bold">—</div>
-                    ) : (
-                                             <input
-                         type="number"
-                         value={matrix[i]?.[j] === 0 ? '' : matrix[i]?.[j] || ''}
-                         onChange={(e) => updateMatrix(i, j, e.target.value)}
-                         className="w-full px-2 py-2 text-center border-0 focus:ring-2 focus:ring-blue-500 
-                                  rounded transition-all duration-200"
-                         min="0"
-                                                    step="1"
-                         placeholder=""
-                       />
-                    )}
-                  </td>
-                ))}
+                {cities.map((toCity, j) => {
+                  // Arc imposé : case encadrée, punaise toujours visible (sinon au survol)
+                  const mandatory = i !== j && isMandatory(i, j);
+                  const pinButton = (
+                    <button
+                      onClick={() => toggleMandatory(i, j)}
+                      title={mandatory
+                        ? `Arc ${fromCity.name} → ${toCity.name} imposé — cliquer pour le libérer`
+                        : `Imposer l'arc ${fromCity.name} → ${toCity.name}`}
+                      className={`absolute top-0 left-0 px-1 transition-opacity duration-200 ${mandatory
+                        ? 'text-emerald-600 opacity-100'
+                        : 'text-gray-400 hover:text-emerald-600 opacity-0 group-hover:opacity-100'}`}
+                    >
+                      <Pin className="h-3 w-3" />
+                    </button>
+                  );
+                  return (
+                    <td key={toCity.id} className={`border border-gray-300 p-2 ${mandatory ? 'bg-emerald-50 ring-2 ring-inset ring-emerald-400' : ''}`}>
+                      {i === j ? (
+                        <div className="text-center text-gray-400 font-bold">—</div>
+                      ) : symmetricMode && i > j ? (
+                        <div
+                          title={`Mode symétrique : même coût que ${toCity.name} → ${fromCity.name}`}
+                          className="relative group text-center text-gray-400 py-2"
+                        >
+                          {isForbidden(matrix[i]?.[j]) ? '∞' : formatCostInput(matrix[i]?.[j] ?? NaN)}
+                          {!isForbidden(matrix[i]?.[j]) && pinButton}
+                        </div>
+                      ) : isForbidden(matrix[i]?.[j]) ? (
+                        <button
+                          onClick={() => toggleForbidden(i, j)}
+                          title="Arc interdit — cliquer pour le rétablir"
+                          className="w-full py-2 text-center font-bold text-red-700 bg-red-50 hover:bg-red-100 
+                                   rounded transition-colors duration-200"
+                        >
+                          ∞
+                        </button>
+                      ) : (
+                        <div className="relative group">
+                                               <input
+                           type="text"
+                           inputMode="decimal"
+                           value={draft && draft.i === i && draft.j === j
+                             ? draft.text
+                             : matrix[i]?.[j] === undefined ? '' : formatCostInput(matrix[i][j])}
+                           onChange={(e) => updateMatrix(i, j, e.target.value)}
+                           onBlur={() => setDraft(null)}
+                           className={`w-full px-2 py-2 text-center border-0 focus:ring-2 focus:ring-blue-500 
+                                    rounded transition-all duration-200 ${mandatory ? 'bg-emerald-50 font-semibold' : ''}`}
+                           placeholder=""
+                         />
+                          {pinButton}
+                          <button
+                            onClick={() => toggleForbidden(i, j)}
+                            title={`Interdire l'arc ${fromCity.name} → ${toCity.name}`}
+                            className="absolute top-0 right-0 px-1 text-xs text-gray-400 hover:text-red-600 
+                                     opacity-0 group-hover:opacity-100 transition-opacity duration-200"
+                          >
+                            ∞
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  );
+                })}
               </tr>
             ))}
           </tbody>
         </table>
       </div>
 
+      {/* Arcs imposés (📌) */}
+      {markedArcs.length > 0 && (
+        <div className="bg-emerald-50 border border-emerald-200 rounded-lg p-3 mb-6 text-sm text-emerald-800">
+          📌 Arcs imposés, inclus d'office dans la tournée : {markedArcs.map(([i, j]) => `${cityNames[i]} → ${cityNames[j]}`).join(', ')}
+          {mandatoryArcs.length < markedArcs.length && (
+            <span className="block text-amber-700 mt-1">
+              ⚠️ Avec plusieurs voyageurs, les arcs imposés partant du dépôt ou y arrivant sont ignorés.
+            </span>
+          )}
+        </div>
+      )}
+
       {/* Validation */}
       <div className="flex items-center justify-between">
         <div>
           {!isValidMatrix() && (
             <div className="bg-red-50 border border-red-200 rounded-lg p-3">
               <p className="text-red-800 text-sm">
-                ⚠️ Tous les coûts de déplacement doivent être positifs (sauf diagonale)
+                ⚠️ Tous les coûts de déplacement doivent être des nombres positifs ou nuls (sauf diagonale), avec une virgule ou un point décimal
               </p>
             </div>
           )}
           
-          {isValidMatrix() && (
+          {feasibility?.feasible === false && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-800 text-sm">
+                ⚠️ Aucun {routeLabel} réalisable avec les arcs interdits (∞){mandatoryArcs.length > 0 && ' et imposés (📌)'} : {feasibility.reason}.
+              </p>
+            </div>
+          )}
+
+          {feasibility?.feasible === null && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+              <p className="text-amber-800 text-sm">
+                Matrice valide. Au-delà de {HAMILTONIAN_CHECK_MAX_CITIES} villes, l'existence d'un {routeLabel} évitant
+                les arcs interdits n'est pas vérifiée à l'avance.
+              </p>
+            </div>
+          )}
+
+          {tooLargeForLongest && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-800 text-sm">
+                ⚠️ La minimisation de la plus longue tournée est résolue exactement jusqu'à {MTSP_LONGEST_MAX_CITIES} villes :
+                choisissez le coût total ou réduisez l'instance.
+              </p>
+            </div>
+          )}
+
+          {tooLargeForBudget && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-800 text-sm">
+                ⚠️ La sélection des villes sous budget est résolue exactement jusqu'à {PRIZE_BUDGET_MAX_CITIES} villes :
+                choisissez le mode profit ou réduisez l'instance.
+              </p>
+            </div>
+          )}
+
+          {partialToursOnly && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+              <p className="text-amber-800 text-sm">
+                Aucun circuit ne passe par toutes les villes ({fullFeasibility?.reason}) : certaines villes facultatives devront être écartées.
+              </p>
+            </div>
+          )}
+
+          {feasibility?.feasible && (
             <div className="bg-green-50 border border-green-200 rounded-lg p-3">
               <p className="text-green-800 text-sm">
                 ✓ Matrice valide ! Prêt pour lancer l'algorithme LITTLE.
@@ -222,7 +668,7 @@ export const MatrixEditor: React.FC<MatrixEditorProps> = ({
         
         <button
           onClick={handleConfirm}
-          disabled={!isValidMatrix()}
+          disabled={!isValidMatrix() || feasibility?.feasible === false || tooLargeForLongest || tooLargeForBudget}
           className="px-8 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 
                    text-white rounded-lg transition-colors duration-200 flex items-center space-x-2"
         >
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { ListOrdered, Plus, Trash2 } from 'lucide-react';
+import { City, PrecedenceConstraint, ProblemSettings } from '../types';
+import { hasPrecedenceCycle } from '../algorithms/precedence';
+import { resolveDepot, resolvePrecedences, resolveSalesmen } from '../utils/problem';
+
+interface PrecedencePanelProps {
+  cities: City[];
+  problem: ProblemSettings;
+  onProblemChange: (problem: ProblemSettings) => void;
+}
+
+// Contraintes « visiter A avant B » (ex. enlèvement avant livraison) sur la tournée partant du dépôt
+export const PrecedencePanel: React.FC<PrecedencePanelProps> = ({
+  cities,
+  problem,
+  onProblemChange
+}) => {
+  const [beforeId, setBeforeId] = useState(cities[0]?.id ?? '');
+  const [afterId, setAfterId] = useState(cities[1]?.id ?? '');
+
+  const depot = resolveDepot(problem, cities);
+  const cityName = (id: string) => cities.find(city => city.id === id)?.name ?? '?';
+  const multipleSalesmen = resolveSalesmen(problem, cities) !== undefined;
+  // Le dépôt a pu changer depuis la saisie des contraintes
+  const contradictory = hasPrecedenceCycle(resolvePrecedences({ ...problem, salesmen: 1 }, cities), depot);
+
+  const addConstraint = () => {
+    if (!beforeId || !afterId || beforeId === afterId) {
+      alert('Choisissez deux villes différentes.');
+      return;
+    }
+    if (afterId === cities[depot]?.id) {
+      alert(`${cityName(afterId)} est le point de départ de la tournée : aucune ville ne peut la précéder.`);
+      return;
+    }
+    if (problem.precedences.some(constraint => constraint.beforeId === beforeId && constraint.afterId === afterId)) {
+      return;
+    }
+
+    const constraint: PrecedenceConstraint = { beforeId, afterId };
+    const updated = { ...problem, precedences: [...problem.precedences, constraint] };
+    if (hasPrecedenceCycle(resolvePrecedences({ ...updated, salesmen: 1 }, cities), depot)) {
+      alert(`Contrainte contradictoire : ${cityName(afterId)} doit déjà être visitée avant ${cityName(beforeId)}.`);
+      return;
+    }
+    onProblemChange(updated);
+  };
+
+  const removeConstraint = (index: number) => {
+    onProblemChange({ ...problem, precedences: problem.precedences.filter((_, k) => k !== index) });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <div className="flex items-center space-x-3 mb-4">
+        <div className="p-2 bg-orange-100 rounded-lg">
+          <ListOrdered className="h-5 w-5 text-orange-600" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Contraintes de précédence</h3>
+          <p className="text-sm text-gray-600">
+            Imposez l'ordre de visite de certaines villes sur la tournée partant de {cities[depot]?.name}
+            (ex. enlèvement avant livraison)
+          </p>
+        </div>
+      </div>
+
+      {multipleSalesmen && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mb-4">
+          <p className="text-amber-800 text-sm">
+            ⚠️ Les précédences ne s'appliquent qu'avec un seul voyageur : elles sont ignorées pour cette résolution.
+          </p>
+        </div>
+      )}
+
+      {contradictory && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+          <p className="text-red-800 text-sm">
+            ⚠️ Contraintes incompatibles avec le départ depuis {cities[depot]?.name} : aucune tournée ne peut les respecter.
+          </p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 mb-4 text-sm text-gray-700">
+        <span>Visiter</span>
+        <select
+          value={beforeId}
+          onChange={(e) => setBeforeId(e.target.value)}
+          className="px-2 py-1 bg-white border border-gray-200 rounded-lg"
+        >
+          {cities.map(city => (
+            <option key={city.id} value={city.id}>{city.name}</option>
+          ))}
+        </select>
+        <span>avant</span>
+        <select
+          value={afterId}
+          onChange={(e) => setAfterId(e.target.value)}
+          className="px-2 py-1 bg-white border border-gray-200 rounded-lg"
+        >
+          {cities.map(city => (
+            <option key={city.id} value={city.id}>{city.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={addConstraint}
+          className="px-3 py-1 bg-orange-100 hover:bg-orange-200 text-orange-700
+                   rounded-lg transition-colors duration-200 flex items-center space-x-1"
+        >
+          <Plus className="h-4 w-4" />
+          <span>Ajouter</span>
+        </button>
+      </div>
+
+      {problem.precedences.length === 0 ? (
+        <p className="text-sm text-gray-500">Aucune contrainte : toutes les villes peuvent être visitées dans n'importe quel ordre.</p>
+      ) : (
+        <ul className="space-y-2">
+          {problem.precedences.map((constraint, index) => (
+            <li
+              key={`${constraint.beforeId}-${constraint.afterId}`}
+              className="flex items-center justify-between px-3 py-2 bg-gray-50 rounded-lg text-sm"
+            >
+              <span>
+                <span className="font-medium">{cityName(constraint.beforeId)}</span> avant{' '}
+                <span className="font-medium">{cityName(constraint.afterId)}</span>
+              </span>
+              <button
+                onClick={() => removeConstraint(index)}
+                title="Supprimer la contrainte"
+                className="p-1 text-red-600 hover:bg-red-50 rounded-lg transition-colors duration-200"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { FolderOpen, Copy, Trash2, Save, X } from 'lucide-react';
+import { ProjectData, ProjectSummary, deleteProject, duplicateProject, listProjects, loadProject, saveProject } from '../utils/projects';
+
+interface ProjectManagerProps {
+  session: ProjectData;
+  currentProjectId: string | null;
+  onOpen: (projectId: string, session: ProjectData) => void;
+  onCurrentProjectChange: (projectId: string | null) => void;
+  onClose: () => void;
+}
+
+export const ProjectManager: React.FC<ProjectManagerProps> = ({
+  session,
+  currentProjectId,
+  onOpen,
+  onCurrentProjectChange,
+  onClose
+}) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>(listProjects);
+  const [newName, setNewName] = useState('');
+
+  const canSave = session.cities.length >= 3;
+
+  const saveAs = () => {
+    if (!newName.trim() || !canSave) return;
+    const summary = saveProject(null, newName.trim(), session);
+    if (!summary) {
+      alert('Enregistrement impossible : espace de stockage du navigateur insuffisant.');
+      return;
+    }
+    setProjects(listProjects());
+    setNewName('');
+    onCurrentProjectChange(summary.id);
+  };
+
+  const open = (project: ProjectSummary) => {
+    const data = loadProject(project.id);
+    if (!data) {
+      alert(`Le projet « ${project.name} » est illisible ou a été supprimé.`);
+      return;
+    }
+    onOpen(project.id, data);
+  };
+
+  const duplicate = (project: ProjectSummary) => {
+    if (!duplicateProject(project.id)) {
+      alert(`Impossible de dupliquer le projet « ${project.name} ».`);
+    }
+    setProjects(listProjects());
+  };
+
+  const remove = (project: ProjectSummary) => {
+    if (!confirm(`Supprimer définitivement le projet « ${project.name} » ?`)) return;
+    deleteProject(project.id);
+    setProjects(listProjects());
+    if (project.id === currentProjectId) onCurrentProjectChange(null);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Projets</h3>
+          <p className="text-sm text-gray-600">
+            L'état courant est enregistré automatiquement dans ce navigateur
+            {currentProjectId ? ', ainsi que dans le projet ouvert' : ''}.
+          </p>
+        </div>
+        <button onClick={onClose} title="Fermer" className="p-1 text-gray-500 hover:text-gray-700">
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      {/* Save as */}
+      <div className="flex space-x-3 mb-4">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyPress={(e) => e.key === 'Enter' && saveAs()}
+          placeholder="Nom du nouveau projet"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500
+                   focus:border-transparent transition-all duration-200"
+        />
+        <button
+          onClick={saveAs}
+          disabled={!newName.trim() || !canSave}
+          title={canSave ? undefined : 'Définissez au moins 3 villes avant d\'enregistrer'}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white
+                   rounded-lg transition-colors duration-200 flex items-center space-x-2"
+        >
+          <Save className="h-4 w-4" />
+          <span>Enregistrer sous</span>
+        </button>
+      </div>
+
+      {/* Projects list */}
+      {projects.length === 0 ? (
+        <p className="text-sm text-gray-500">Aucun projet enregistré.</p>
+      ) : (
+        <div className="space-y-2">
+          {projects.map(project => (
+            <div
+              key={project.id}
+              className={`flex items-center justify-between p-3 rounded-lg border ${
+                project.id === currentProjectId ? 'border-blue-300 bg-blue-50' : 'border-gray-200 bg-gray-50'
+              }`}
+            >
+              <div>
+                <div className="font-medium text-gray-900">
+                  {project.name}
+                  {project.id === currentProjectId && (
+                    <span className="ml-2 text-xs text-blue-600">(ouvert)</span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {project.cityCount} villes · modifié le {new Date(project.updatedAt).toLocaleString('fr-FR')}
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => open(project)}
+                  title="Ouvrir"
+                  className="p-2 text-blue-600 hover:bg-blue-100 rounded-lg transition-colors duration-200"
+                >
+                  <FolderOpen className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => duplicate(project)}
+                  title="Dupliquer"
+                  className="p-2 text-gray-600 hover:bg-gray-200 rounded-lg transition-colors duration-200"
+                >
+                  <Copy className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => remove(project)}
+                  title="Supprimer"
+                  className="p-2 text-red-600 hover:bg-red-100 rounded-lg transition-colors duration-200"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,55 +1,116 @@
-import React from 'react';
-import { CheckCircle, Download, BarChart3 } from 'lucide-react';
-import { City, TSPResult } from '../App';
+import React, { useState } from 'react';
+import { CheckCircle, Download, BarChart3, FileText, Upload } from 'lucide-react';
+import { City, ProblemSettings, TSPResult } from '../types';
+import { calculateTourCost, rotateTour } from '../algorithms/little';
+import { formatRoute } from '../algorithms/openPath';
+import { HEURISTIC_LABELS } from '../algorithms/heuristics';
+import { calculateToursCosts } from '../algorithms/multipleTsp';
+import { computeSchedule, evaluateRoute } from '../algorithms/timeWindows';
+import { downloadFile } from '../utils/download';
+import { parseTsplibTour, writeTsplibTour } from '../utils/tsplib';
+import { createSessionFile, stringifySession } from '../utils/session';
+import { formatCost, roundCost } from '../utils/costs';
+import { resolveDepot, resolvePrizes, resolveTimeWindows } from '../utils/problem';
+import { tourColor } from '../utils/tourColors';
 import { DecisionTree } from './DecisionTree';
 import { GraphVisualization } from './GraphVisualization';
+import { LocalSearchPanel } from './LocalSearchPanel';
+import { ScheduleTimeline } from './ScheduleTimeline';
+import { VerificationPanel } from './VerificationPanel';
 
 interface ResultDisplayProps {
   cities: City[];
   result: TSPResult;
   costMatrix: number[][];
+  problem: ProblemSettings;
+  onResultChange: (result: TSPResult) => void; // Circuit amélioré par recherche locale
 }
 
 export const ResultDisplay: React.FC<ResultDisplayProps> = ({
   cities,
-  result,
-  costMatrix
+  result: solverResult,
+  costMatrix,
+  problem,
+  onResultChange
 }) => {
+  // Circuit présenté à partir du dépôt choisi (même circuit, autre point de départ) :
+  // itinéraire, tableau des segments et exports commencent tous au dépôt.
+  // Les tournées de plusieurs voyageurs partent déjà du dépôt.
+  const depot = resolveDepot(problem, cities);
+  const result: TSPResult = solverResult.open || solverResult.tours
+    ? solverResult
+    : { ...solverResult, path: rotateTour(solverResult.path, depot) };
+  const [importedTour, setImportedTour] = useState<{ name: string; path: number[]; cost: number } | null>(null);
+  // Recherche locale : mouvement rejoué sur le graphe (null : circuit final)
+  const [replayIndex, setReplayIndex] = useState<number | null>(null);
+  // Fenêtres horaires : la matrice donne les temps de trajet, le coût inclut les pénalités de retard
+  const timeWindows = resolveTimeWindows(problem, cities);
+  // Villes facultatives : villes écartées grisées, récompenses collectées et profit
+  const prizes = resolvePrizes(problem, cities);
+  const skipped = result.skipped ?? [];
+  // Circuit construit par une heuristique ou amélioré par recherche locale : pas d'arborescence, optimalité non garantie
+  const solverLabel = result.localSearch ? 'la recherche locale' : result.heuristic ? 'l\'heuristique' : 'LITTLE';
+
   const exportResults = () => {
-    const data = {
-      cities: cities.map((city, index) => ({ ...city, index: index + 1 })),
-      costMatrix,
-      optimalPath: result.path.map(i => cities[i].name),
-      optimalCost: result.cost,
-      steps: result.steps.length,
-      timestamp: new Date().toISOString()
-    };
-
-    const blob = new Blob([JSON.stringify(data, null, 2)], {
-      type: 'application/json'
-    });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'tsp_result.json';
-    a.click();
+    const data = createSessionFile(cities, costMatrix, result, problem);
+    downloadFile(stringifySession(data, 2), 'tsp_result.json', 'application/json');
+  };
+
+  const exportTour = () => {
+    const name = `tsp${cities.length}`;
+    const route = result.open ? 'chemin' : 'circuit';
+    const comment = result.localSearch
+      ? `${route === 'chemin' ? 'Chemin' : 'Circuit'} amélioré par recherche locale (optimum local), coût ${formatCost(result.cost)}`
+      : result.heuristic
+      ? `${route === 'chemin' ? 'Chemin' : 'Circuit'} heuristique (${HEURISTIC_LABELS[result.heuristic]}), coût ${formatCost(result.cost)}`
+      : `${result.interrupted ? `Meilleur ${route} trouvé` : `${route === 'chemin' ? 'Chemin' : 'Circuit'} optimal`} (LITTLE), coût ${formatCost(result.cost)}`;
+    downloadFile(writeTsplibTour(name, result.path, comment), `${name}.tour`, 'text/plain');
   };
 
+  // Tournée de référence (.tour TSPLIB) à comparer avec le résultat
+  const importTour = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const tour = parseTsplibTour(await file.text());
+      if (tour.dimension !== cities.length) {
+        throw new Error(`la tournée comporte ${tour.dimension} villes, l'instance ${cities.length}`);
+      }
+      const cost = timeWindows
+        ? evaluateRoute(result.open ? tour.tour : rotateTour(tour.tour, depot), costMatrix, timeWindows, !result.open)
+        : calculateTourCost(tour.tour, costMatrix, result.open);
+      setImportedTour({ name: tour.name, path: tour.tour, cost });
+    } catch (error) {
+      alert(`Import du fichier .tour impossible : ${(error as Error).message}`);
+    }
+  };
+
+  const cityName = (i: number) => cities[i]?.name || `Ville ${i + 1}`;
+  // Plusieurs voyageurs : une tournée par véhicule, chacune refermée sur le dépôt
+  const routes = result.tours ?? [result.path];
+  const tourCosts = result.tours ? calculateToursCosts(result.tours, costMatrix) : [];
+
+  // Chemin ouvert : pas de segment de retour vers le départ
   const getPathSegments = () => {
-    return result.path.map((cityIndex, index) => {
-      const nextIndex = (index + 1) % result.path.length;
-      const nextCityIndex = result.path[nextIndex];
+    return routes.flatMap((route, tour) => route.slice(0, result.open ? -1 : undefined).map((cityIndex, index) => {
+      const nextIndex = (index + 1) % route.length;
+      const nextCityIndex = route[nextIndex];
       const cost = costMatrix[cityIndex][nextCityIndex];
 
       return {
+        tour,
         from: cities[cityIndex].name,
         to: cities[nextCityIndex].name,
         cost: cost
       };
-    });
+    }));
   };
 
   const pathSegments = getPathSegments();
+  const totalCost = pathSegments.reduce((sum, segment) => roundCost(sum + segment.cost), 0);
+  const collectedReward = result.path.reduce((sum, city) => roundCost(sum + (cities[city]?.reward ?? 0)), 0);
 
   return (
     <div className="space-y-6">
@@ -60,9 +121,21 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({
             <CheckCircle className="h-8 w-8" />
           </div>
           <div>
-            <h2 className="text-3xl font-bold">Solution optimale trouvée !</h2>
+            <h2 className="text-3xl font-bold">
+              {result.localSearch ? 'Solution améliorée' : result.heuristic ? 'Solution heuristique' : result.interrupted ? 'Meilleure solution trouvée' : 'Solution optimale trouvée !'}
+            </h2>
             <p className="text-green-100 mt-2 text-lg">
-              L'algorithme LITTLE a résolu le problème en {result.steps.length} étapes
+              {result.localSearch
+                ? `Recherche locale : coût ${formatCost(result.localSearch.initialCost)} → ${formatCost(result.cost)} en ${result.localSearch.moves} mouvement(s) — optimum local, optimalité non garantie`
+                : result.heuristic
+                ? `${HEURISTIC_LABELS[result.heuristic]} : ${result.open ? 'chemin construit' : 'circuit construit'} sans garantie d'optimalité`
+                : result.interrupted
+                ? `Résolution interrompue après ${result.steps.length} étapes : l'optimalité n'est pas prouvée`
+                : result.tours && problem.objective === 'longest'
+                ? `Plus longue des ${result.tours.length} tournées minimisée par programmation dynamique`
+                : result.skipped && prizes?.budget !== undefined
+                ? 'Récompenses maximisées sous budget par programmation dynamique'
+                : `L'algorithme LITTLE a résolu le problème en ${result.steps.length} étapes`}
             </p>
           </div>
         </div>
@@ -72,7 +145,10 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({
             <div className="flex items-center space-x-3">
               <BarChart3 className="h-6 w-6" />
               <div>
-                <div className="text-2xl font-bold">{cities.length}</div>
+                <div className="text-2xl font-bold">
+                  {cities.length - skipped.length}
+                  {skipped.length > 0 && <span className="text-lg font-normal text-green-100"> / {cities.length}</span>}
+                </div>
                 <div className="text-sm text-green-100">Villes visitées</div>
               </div>
             </div>
@@ -90,13 +166,192 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({
         </div>
       </div>
 
+      {/* Optimality check against an exact reference solver */}
+      <VerificationPanel
+        cities={cities}
+        result={result}
+        costMatrix={costMatrix}
+        problem={problem}
+      />
+
+      {/* Itinéraire détaillé */}
+      <div className="bg-white rounded-xl shadow-lg p-6">
+        {result.tours ? (
+          <div className="mb-4">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">
+              {result.tours.length} tournées depuis {cityName(depot)}
+              {problem.objective === 'longest' && ` — plus longue tournée : ${formatCost(result.cost)}`}
+            </h3>
+            {result.tours.map((tour, k) => (
+              <div key={k} className="flex items-center space-x-2 text-sm text-gray-700">
+                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: tourColor(k) }} />
+                <span className="font-medium">Véhicule {k + 1}</span>
+                <span>({formatCost(tourCosts[k])}) :</span>
+                <span>{formatRoute(tour, cityName)}</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            {result.open ? 'Chemin' : 'Circuit'} : {formatRoute(result.path, cityName, result.open)}
+          </h3>
+        )}
+        {result.skipped && (
+          <div className="mb-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-3">
+              <div className="bg-gray-50 rounded-lg p-3">
+                <div className="text-sm text-gray-600">Récompenses collectées</div>
+                <div className="text-xl font-bold text-gray-900">{formatCost(collectedReward)}</div>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3">
+                <div className="text-sm text-gray-600">
+                  {prizes?.budget !== undefined ? `Longueur (budget ${formatCost(prizes.budget)})` : 'Coût de la tournée'}
+                </div>
+                <div className="text-xl font-bold text-gray-900">{formatCost(totalCost)}</div>
+              </div>
+              <div className="bg-green-50 rounded-lg p-3">
+                <div className="text-sm text-gray-600">Profit (récompenses − coût)</div>
+                <div className="text-xl font-bold text-green-700">{formatCost(roundCost(collectedReward - totalCost))}</div>
+              </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-gray-600">Villes écartées :</span>
+              {skipped.length === 0 && <span className="text-gray-500">aucune</span>}
+              {skipped.map(city => (
+                <span key={city} className="px-2 py-0.5 bg-gray-100 text-gray-400 line-through rounded">
+                  {cityName(city)} ({formatCost(cities[city]?.reward ?? 0)})
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b border-gray-200">
+              {result.tours && <th className="py-2 pr-4">Véhicule</th>}
+              <th className="py-2 pr-4">#</th>
+              <th className="py-2 pr-4">De</th>
+              <th className="py-2 pr-4">Vers</th>
+              <th className="py-2 text-right">{timeWindows ? 'Trajet' : 'Coût'}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pathSegments.map((segment, index) => (
+              <tr key={index} className="border-b border-gray-100">
+                {result.tours && (
+                  <td className="py-2 pr-4 font-medium" style={{ color: tourColor(segment.tour) }}>{segment.tour + 1}</td>
+                )}
+                <td className="py-2 pr-4 text-gray-500">{index + 1}</td>
+                <td className="py-2 pr-4">{segment.from}</td>
+                <td className="py-2 pr-4">{segment.to}</td>
+                <td className="py-2 text-right font-mono">{formatCost(segment.cost)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="font-semibold">
+              <td colSpan={result.tours ? 4 : 3} className="py-2">{timeWindows ? 'Temps de trajet total' : 'Total'}</td>
+              <td className="py-2 text-right font-mono">{formatCost(totalCost)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      {timeWindows && !result.tours && (
+        <ScheduleTimeline
+          cities={cities}
+          stops={computeSchedule(result.path, costMatrix, timeWindows, !result.open)}
+          timeWindows={timeWindows}
+          closed={!result.open}
+        />
+      )}
+
+      {/* Export / comparaison TSPLIB */}
+      <div className="bg-white rounded-xl shadow-lg p-6">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">Exporter le résultat</h3>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={exportResults}
+              className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 
+                       rounded-lg transition-colors duration-200 flex items-center space-x-2"
+            >
+              <Download className="h-4 w-4" />
+              <span>JSON</span>
+            </button>
+            {/* Le format .tour décrit un seul circuit passant par toutes les villes : indisponible avec
+                plusieurs voyageurs ou des villes écartées */}
+            {!result.tours && skipped.length === 0 && (
+              <>
+                <button
+                  onClick={exportTour}
+                  className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 
+                           rounded-lg transition-colors duration-200 flex items-center space-x-2"
+                >
+                  <FileText className="h-4 w-4" />
+                  <span>Tournée TSPLIB (.tour)</span>
+                </button>
+                <label
+                  className="px-4 py-2 bg-blue-100 hover:bg-blue-200 text-blue-700 cursor-pointer
+                           rounded-lg transition-colors duration-200 flex items-center space-x-2"
+                >
+                  <Upload className="h-4 w-4" />
+                  <span>Comparer un .tour</span>
+                  <input type="file" accept=".tour,.txt" onChange={importTour} className="hidden" />
+                </label>
+              </>
+            )}
+          </div>
+        </div>
+
+        {importedTour && (
+          <div className="mt-4 p-3 bg-gray-50 rounded-lg text-sm text-gray-700">
+            <div>
+              Tournée « {importedTour.name} » : coût <span className="font-semibold">{formatCost(importedTour.cost)}</span>
+              {' '}(écart avec {solverLabel} : {result.cost - importedTour.cost > 0 ? '+' : ''}{formatCost(result.cost - importedTour.cost)})
+            </div>
+            <div className="text-gray-500 mt-1">
+              {formatRoute(result.open ? importedTour.path : rotateTour(importedTour.path, depot), cityName, result.open)}
+            </div>
+          </div>
+        )}
+      </div>
+
       <div className="grid grid-cols-1 gap-6">
-        {/* Decision Tree */}
-        <DecisionTree
-          steps={result.steps}
+        <GraphVisualization
+          cities={cities}
+          costMatrix={costMatrix}
+          result={result}
+          move={replayIndex !== null ? result.steps.filter(step => step.move)[replayIndex]?.move : null}
+        />
+
+        <LocalSearchPanel
           cities={cities}
-          currentStep={result.steps.length - 1}
+          costMatrix={costMatrix}
+          problem={problem}
+          result={result}
+          importedTour={importedTour && {
+            name: importedTour.name,
+            path: result.open ? importedTour.path : rotateTour(importedTour.path, depot)
+          }}
+          onResultChange={onResultChange}
+          replayIndex={replayIndex}
+          onReplayChange={setReplayIndex}
         />
+
+        {/* Decision Tree (méthode de Little uniquement, recherche locale éventuelle à la suite) */}
+        {result.heuristic || (result.localSearch && result.steps[0]?.branchKind !== 'root') ? null : result.steps.length > 0 ? (
+          <DecisionTree
+            steps={result.steps}
+            cities={cities}
+            currentStep={result.steps.length - 1}
+          />
+        ) : (
+          <div className="bg-white rounded-xl shadow-lg p-6 text-sm text-gray-600">
+            Les étapes de résolution ne sont pas enregistrées dans cette session :
+            relancez l'algorithme pour afficher l'arborescence.
+          </div>
+        )}
       </div>
 
 
@@ -0,0 +1,134 @@
+import React from 'react';
+import { Clock } from 'lucide-react';
+import { City } from '../types';
+import { ScheduleStop, TimeWindowSettings, latenessCost, totalLateness } from '../algorithms/timeWindows';
+import { formatCost, roundCost } from '../utils/costs';
+
+interface ScheduleTimelineProps {
+  cities: City[];
+  stops: ScheduleStop[];
+  timeWindows: TimeWindowSettings;
+  closed: boolean; // Dernière étape : retour au dépôt
+}
+
+// Horaires de la tournée (fenêtres horaires) : tableau des étapes et frise chronologique de chacune
+export const ScheduleTimeline: React.FC<ScheduleTimelineProps> = ({
+  cities,
+  stops,
+  timeWindows,
+  closed
+}) => {
+  if (stops.length === 0) return null;
+
+  const cityName = (i: number) => cities[i]?.name || `Ville ${i + 1}`;
+  const formatWindow = ([open, close]: [number, number]) =>
+    open === 0 && close === Infinity ? '—' : `${formatCost(open)} – ${close === Infinity ? '∞' : formatCost(close)}`;
+
+  const lateness = totalLateness(stops);
+  const waiting = stops.reduce((sum, stop) => roundCost(sum + stop.wait), 0);
+  const end = stops[stops.length - 1].departure;
+
+  // Échelle commune des frises : du départ à la fin de tournée ou à la dernière fermeture de fenêtre
+  const origin = stops[0].arrival;
+  const horizon = Math.max(
+    end,
+    ...stops.map(stop => timeWindows.windows[stop.city][1]).filter(close => close !== Infinity)
+  );
+  const span = Math.max(horizon - origin, 1);
+  const position = (time: number) => `${Math.min(100, Math.max(0, ((time - origin) / span) * 100))}%`;
+  const width = (from: number, to: number) =>
+    `${Math.max(0, ((Math.min(to, horizon) - Math.max(from, origin)) / span) * 100)}%`;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <div className="flex items-center space-x-3 mb-4">
+        <div className="p-2 bg-indigo-100 rounded-lg">
+          <Clock className="h-5 w-5 text-indigo-600" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Horaires de la tournée</h3>
+          <p className="text-sm text-gray-600">Arrivée, attente, intervention et départ à chaque étape</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        <div className="bg-gray-50 rounded-lg p-3">
+          <div className="text-sm text-gray-600">Fin de tournée</div>
+          <div className="text-xl font-bold text-gray-900">{formatCost(end)}</div>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-3">
+          <div className="text-sm text-gray-600">Attente totale</div>
+          <div className="text-xl font-bold text-gray-900">{formatCost(waiting)}</div>
+        </div>
+        <div className={`rounded-lg p-3 ${lateness > 0 ? 'bg-red-50' : 'bg-green-50'}`}>
+          <div className="text-sm text-gray-600">Retard total</div>
+          <div className={`text-xl font-bold ${lateness > 0 ? 'text-red-700' : 'text-green-700'}`}>{formatCost(lateness)}</div>
+        </div>
+        {timeWindows.mode === 'penalty' && (
+          <div className="bg-gray-50 rounded-lg p-3">
+            <div className="text-sm text-gray-600">Pénalités (× {formatCost(timeWindows.latePenalty)})</div>
+            <div className="text-xl font-bold text-gray-900">{formatCost(latenessCost(stops, timeWindows))}</div>
+          </div>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b border-gray-200">
+              <th className="py-2 pr-4">#</th>
+              <th className="py-2 pr-4">Ville</th>
+              <th className="py-2 pr-4">Fenêtre</th>
+              <th className="py-2 pr-4 text-right">Arrivée</th>
+              <th className="py-2 pr-4 text-right">Attente</th>
+              <th className="py-2 pr-4 text-right">Départ</th>
+              <th className="py-2 pr-4 text-right">Retard</th>
+              <th className="py-2 w-1/3">Chronologie</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stops.map((stop, index) => {
+              const isReturn = closed && index === stops.length - 1;
+              const [open, close] = timeWindows.windows[stop.city];
+              return (
+                <tr key={index} className={`border-b border-gray-100 ${stop.lateness > 0 ? 'bg-red-50' : ''}`}>
+                  <td className="py-2 pr-4 text-gray-500">{index + 1}</td>
+                  <td className="py-2 pr-4">{isReturn ? `Retour à ${cityName(stop.city)}` : cityName(stop.city)}</td>
+                  <td className="py-2 pr-4 font-mono text-gray-600">{formatWindow([open, close])}</td>
+                  <td className="py-2 pr-4 text-right font-mono">{index === 0 ? '—' : formatCost(stop.arrival)}</td>
+                  <td className="py-2 pr-4 text-right font-mono">{stop.wait > 0 ? formatCost(stop.wait) : '—'}</td>
+                  <td className="py-2 pr-4 text-right font-mono">{isReturn ? '—' : formatCost(stop.departure)}</td>
+                  <td className={`py-2 pr-4 text-right font-mono ${stop.lateness > 0 ? 'text-red-700 font-semibold' : ''}`}>
+                    {stop.lateness > 0 ? `+${formatCost(stop.lateness)}` : '—'}
+                  </td>
+                  <td className="py-2">
+                    {/* Fenêtre en vert, attente en gris, intervention en indigo, arrivée en retard en rouge */}
+                    <div className="relative h-4 bg-gray-100 rounded">
+                      {(open > 0 || close !== Infinity) && (
+                        <div
+                          className="absolute inset-y-0 bg-green-200 rounded"
+                          style={{ left: position(open), width: width(open, close) }}
+                        />
+                      )}
+                      <div
+                        className="absolute inset-y-1 bg-gray-400 rounded"
+                        style={{ left: position(stop.arrival), width: width(stop.arrival, stop.start) }}
+                      />
+                      <div
+                        className="absolute inset-y-0 bg-indigo-500 rounded"
+                        style={{ left: position(stop.start), width: width(stop.start, stop.departure), minWidth: '2px' }}
+                      />
+                      {stop.lateness > 0 && (
+                        <div className="absolute inset-y-0 w-1 bg-red-600" style={{ left: position(stop.arrival) }} />
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
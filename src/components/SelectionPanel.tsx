@@ -0,0 +1,156 @@
+import React from 'react';
+import { Coins } from 'lucide-react';
+import { City, ProblemSettings } from '../types';
+import { PRIZE_BUDGET_MAX_CITIES } from '../algorithms/prizeCollecting';
+import { resolveDepot, resolvePrizes } from '../utils/problem';
+
+interface SelectionPanelProps {
+  cities: City[];
+  onCitiesChange: (cities: City[]) => void;
+  problem: ProblemSettings;
+  onProblemChange: (problem: ProblemSettings) => void;
+}
+
+const SELECTION_MODES: Array<{ value: ProblemSettings['selection']; label: string }> = [
+  { value: 'off', label: 'Toutes les villes sont visitées' },
+  { value: 'profit', label: 'Maximiser récompenses − coût' },
+  { value: 'budget', label: `Maximiser les récompenses sous budget (≤ ${PRIZE_BUDGET_MAX_CITIES} villes)` }
+];
+
+// Villes facultatives (TSP sélectif) : récompense de chaque ville et choix de celles à visiter
+export const SelectionPanel: React.FC<SelectionPanelProps> = ({
+  cities,
+  onCitiesChange,
+  problem,
+  onProblemChange
+}) => {
+  const depot = resolveDepot(problem, cities);
+  // Villes réellement facultatives : ni le dépôt, ni une ville d'un arc imposé
+  const prizes = resolvePrizes(problem, cities);
+
+  const updateCity = (index: number, changes: Partial<City>) => {
+    onCitiesChange(cities.map((city, i) => i === index ? { ...city, ...changes } : city));
+  };
+
+  // Champ vide : récompense nulle
+  const updateReward = (index: number, text: string) => {
+    const value = text.trim() === '' ? undefined : Math.max(0, Number(text));
+    if (value !== undefined && isNaN(value)) return;
+    updateCity(index, { reward: value });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-yellow-100 rounded-lg">
+            <Coins className="h-5 w-5 text-yellow-600" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Villes facultatives</h3>
+            <p className="text-sm text-gray-600">
+              Récompense collectée à chaque visite ; les villes facultatives peuvent être écartées
+            </p>
+          </div>
+        </div>
+        <select
+          value={problem.selection}
+          onChange={(e) => onProblemChange({ ...problem, selection: e.target.value as ProblemSettings['selection'] })}
+          className="px-2 py-1 text-sm bg-white border border-gray-200 rounded-lg"
+        >
+          {SELECTION_MODES.map(mode => (
+            <option key={mode.value} value={mode.value}>{mode.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {problem.selection !== 'off' && (
+        <>
+          {!prizes && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mb-4">
+              <p className="text-amber-800 text-sm">
+                ⚠️ Les villes facultatives ne s'appliquent qu'à un circuit avec un seul voyageur : toutes les villes seront visitées.
+              </p>
+            </div>
+          )}
+
+          {problem.selection === 'budget' && (
+            <>
+              <label className="flex items-center space-x-2 text-sm text-gray-700 mb-4">
+                <span>Longueur maximale de la tournée</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={problem.tourBudget}
+                  onChange={(e) => onProblemChange({ ...problem, tourBudget: Math.max(0, Number(e.target.value) || 0) })}
+                  className="w-24 px-2 py-1 border border-gray-200 rounded-lg text-center"
+                />
+              </label>
+              {prizes && (problem.precedences.length > 0 || problem.timeWindows !== 'off') && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mb-4">
+                  <p className="text-amber-800 text-sm">
+                    ⚠️ Sous budget, l'ordre de visite n'est pas contraint : précédences et fenêtres horaires sont ignorées
+                    (leurs villes restent obligatoires).
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+
+          <p className="text-sm text-gray-500 mb-3">
+            {problem.selection === 'profit'
+              ? 'La tournée retenue maximise la somme des récompenses collectées moins son coût.'
+              : 'La tournée retenue collecte le plus de récompenses sans dépasser le budget, la plus courte en cas d\'égalité.'}
+            {' '}Le dépôt et les villes d'un arc imposé sont toujours visités.
+            {problem.selection === 'profit' && ' Une ville n\'est visitée qu\'après celles qui doivent la précéder : écarter l\'une écarte aussi les suivantes.'}
+          </p>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-gray-200">
+                  <th className="py-2 pr-4">Ville</th>
+                  <th className="py-2 pr-4 text-center">Facultative</th>
+                  <th className="py-2 text-center">Récompense</th>
+                </tr>
+              </thead>
+              <tbody>
+                {cities.map((city, index) => {
+                  const constrained = !!city.optional && !!prizes && !prizes.optional[index] && index !== depot;
+                  return (
+                    <tr key={city.id} className="border-b border-gray-100">
+                      <td className="py-2 pr-4">
+                        {city.name}
+                        {index === depot && <span className="ml-2 text-xs text-amber-600">(dépôt)</span>}
+                        {constrained && <span className="ml-2 text-xs text-gray-500">obligatoire (contrainte)</span>}
+                      </td>
+                      <td className="py-2 pr-4 text-center">
+                        <input
+                          type="checkbox"
+                          checked={!!city.optional && index !== depot}
+                          disabled={index === depot}
+                          onChange={(e) => updateCity(index, { optional: e.target.checked || undefined })}
+                          className="h-4 w-4 text-yellow-600 rounded"
+                        />
+                      </td>
+                      <td className="py-2 text-center">
+                        <input
+                          type="number"
+                          min={0}
+                          value={city.reward ?? ''}
+                          placeholder="0"
+                          onChange={(e) => updateReward(index, e.target.value)}
+                          className="w-24 px-2 py-1 border border-gray-200 rounded-lg text-center"
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
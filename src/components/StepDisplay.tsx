@@ -1,6 +1,7 @@
 import React from 'react';
 import { Calculator, TrendingDown, GitBranch, CheckCircle } from 'lucide-react';
-import { LittleStep, City } from '../App';
+import { LittleStep, City, ReducedMatrix, RegretMatrix } from '../types';
+import { formatCost } from '../utils/costs';
 
 interface StepDisplayProps {
   step: LittleStep;
@@ -31,46 +32,57 @@ export const StepDisplay: React.FC<StepDisplayProps> = ({ step, cities }) => {
     }
   };
 
-  const renderMatrix = (matrix: number[][], title: string, highlight?: [number, number]) => {
-    if (!matrix || matrix.length === 0) return null;
+  // En-têtes : villes d'origine des lignes et colonnes encore actives
+  // ∗ : ville ajoutée par la transformation (ville fictive du chemin ouvert, copies du dépôt)
+  const cityName = (i: number) => cities[i]?.name || `Ville ${i + 1}`;
+  const cityLabel = (i: number) => i >= cities.length ? '∗' : (cities[i]?.name || `Ville ${i + 1}`).charAt(0).toUpperCase();
+
+  const renderHeader = (matrix: ReducedMatrix) => (
+    <thead>
+      <tr>
+        <th className="border border-gray-300 bg-white p-2 font-semibold min-w-[60px]">
+          De \ Vers
+        </th>
+        {matrix.cols.map(j => (
+          <th key={j} className="border border-gray-300 bg-white p-2 font-semibold min-w-[60px]">
+            {cityLabel(j)}
+          </th>
+        ))}
+      </tr>
+    </thead>
+  );
+
+  const renderMatrix = (matrix: ReducedMatrix, title: string, highlight?: [number, number]) => {
+    if (!matrix || matrix.rows.length === 0) return null;
 
     return (
       <div className="bg-gray-50 rounded-lg p-4">
         <h4 className="font-semibold text-gray-900 mb-3">{title}</h4>
         <div className="overflow-x-auto">
           <table className="w-full border-collapse border border-gray-300 text-sm">
-            <thead>
-              <tr>
-                                 <th className="border border-gray-300 bg-white p-2 font-semibold min-w-[60px]">
-                   De \ Vers
-                 </th>
-                                 {cities.map((city, j) => (
-                   <th key={j} className="border border-gray-300 bg-white p-2 font-semibold min-w-[60px]">
-                     {city.name.charAt(0).toUpperCase()}
-                   </th>
-                 ))}
-               </tr>
-             </thead>
-             <tbody>
-               {matrix.map((row, i) => (
-                 <tr key={i}>
-                   <td className="border border-gray-300 bg-white p-2 font-semibold min-w-[60px]">
-                     {cities[i].name.charAt(0).toUpperCase()}
-                   </td>
-                   {row.map((cell, j) => {
-                    const isHighlighted = highlight && highlight[0] === i && highlight[1] === j;
-                    const isInfinity = cell === Infinity;
-                    const isDisabled = cell === -999; // Cellules désactivées (ligne/colonne supprimées)
-                    const isDiagonal = i === j;
-                    
+            {renderHeader(matrix)}
+            <tbody>
+              {matrix.values.map((row, r) => (
+                <tr key={matrix.rows[r]}>
+                  <td className="border border-gray-300 bg-white p-2 font-semibold min-w-[60px]">
+                    {cityLabel(matrix.rows[r])}
+                  </td>
+                  {row.map((cell, c) => {
+                    const from = matrix.rows[r];
+                    const to = matrix.cols[c];
+                    const isHighlighted = highlight && highlight[0] === from && highlight[1] === to;
+                    const isDiagonal = from === to;
+                    const isInfinity = cell === Infinity; // Arc interdit ou bloqué
+
                     return (
-                      <td key={j} className={`
+                      <td key={to} className={`
                         border border-gray-300 p-2 text-center min-w-[60px]
                         ${isHighlighted ? 'bg-yellow-200' : ''}
-                        ${isDiagonal || isDisabled ? 'bg-gray-100 text-gray-500' : 'bg-white'}
-                        ${cell === 0 && !isInfinity && !isDiagonal && !isDisabled ? 'bg-red-100 text-red-700 font-bold' : ''}
+                        ${isDiagonal ? 'bg-gray-100 text-gray-500' : 'bg-white'}
+                        ${cell === 0 && !isDiagonal ? 'bg-red-100 text-red-700 font-bold' : ''}
+                        ${isInfinity && !isDiagonal ? 'text-gray-400' : ''}
                       `}>
-                        {isDiagonal || isDisabled ? '—' : (isInfinity ? '∞' : cell.toFixed(cell % 1 === 0 ? 0 : 1))}
+                        {isDiagonal ? '—' : formatCost(cell)}
                       </td>
                     );
                   })}
@@ -83,7 +95,8 @@ export const StepDisplay: React.FC<StepDisplayProps> = ({ step, cities }) => {
     );
   };
 
-  const renderRegrets = (regrets: number[][]) => {
+  // Les regrets sont alignés sur les lignes et colonnes de la matrice de l'étape
+  const renderRegrets = (matrix: ReducedMatrix, regrets: RegretMatrix) => {
     if (!regrets || regrets.length === 0) return null;
 
     return (
@@ -91,31 +104,20 @@ export const StepDisplay: React.FC<StepDisplayProps> = ({ step, cities }) => {
         <h4 className="font-semibold text-gray-900 mb-3">Matrice des regrets</h4>
         <div className="overflow-x-auto">
           <table className="w-full border-collapse border border-gray-300 text-sm">
-            <thead>
-              <tr>
-                                 <th className="border border-gray-300 bg-white p-2 font-semibold min-w-[60px]">
-                   De \ Vers
-                 </th>
-                                 {cities.map((city, j) => (
-                   <th key={j} className="border border-gray-300 bg-white p-2 font-semibold min-w-[60px]">
-                     {city.name.charAt(0).toUpperCase()}
-                   </th>
-                 ))}
-              </tr>
-            </thead>
+            {renderHeader(matrix)}
             <tbody>
-                             {regrets.map((row, i) => (
-                 <tr key={i}>
-                   <td className="border border-gray-300 bg-white p-2 font-semibold min-w-[60px]">
-                     {cities[i].name.charAt(0).toUpperCase()}
-                   </td>
-                  {row.map((cell, j) => (
-                                       <td key={j} className={`
-                     border border-gray-300 p-2 text-center min-w-[60px]
-                     ${cell > 0 ? 'bg-blue-100 font-semibold' : 'bg-white'}
-                   `}>
-                     {cell > 0 ? Math.round(cell) : '—'}
-                   </td>
+              {regrets.map((row, r) => (
+                <tr key={matrix.rows[r]}>
+                  <td className="border border-gray-300 bg-white p-2 font-semibold min-w-[60px]">
+                    {cityLabel(matrix.rows[r])}
+                  </td>
+                  {row.map((cell, c) => (
+                    <td key={matrix.cols[c]} className={`
+                      border border-gray-300 p-2 text-center min-w-[60px]
+                      ${cell !== null ? 'bg-blue-100 font-semibold' : 'bg-white'}
+                    `}>
+                      {cell === null ? '—' : formatCost(cell)}
+                    </td>
                   ))}
                 </tr>
               ))}
@@ -141,7 +143,7 @@ export const StepDisplay: React.FC<StepDisplayProps> = ({ step, cities }) => {
                  <h3 className="text-xl font-bold">Étape {step.step}</h3>
                  {!isFinalSolutionStep && (
                    <span className={`px-3 py-1 bg-${color}-700 rounded-full text-sm font-medium`}>
-                     Borne: {step.bound.toFixed(1)}
+                     Borne: {formatCost(step.bound)}
                    </span>
                  )}
                </div>
@@ -156,23 +158,43 @@ export const StepDisplay: React.FC<StepDisplayProps> = ({ step, cities }) => {
          <div className="mb-6 p-4 bg-gray-50 rounded-lg">
            <p className="text-gray-800 whitespace-pre-line">
              {isFinalSolutionStep
-               ? step.description.replace(/Circuit optimal:.*/g, 'Solution optimale trouvée')
+               ? step.description.replace(/(Circuit optimal|Chemin optimal|Tournées optimales):.*/g, 'Solution optimale trouvée')
                : step.description
              }
            </p>
          </div>
 
+        {/* Branche coupée par une contrainte de précédence */}
+        {step.precedenceViolation && (
+          <div className="mb-6 p-4 bg-orange-50 border border-orange-200 rounded-lg">
+            <p className="text-orange-800 text-sm">
+              ✂️ Fils inclusion coupé : avec l'arc {step.selectedArc && `(${cityName(step.selectedArc[0])}, ${cityName(step.selectedArc[1])})`},
+              {' '}{cityName(step.precedenceViolation[1])} serait visitée avant {cityName(step.precedenceViolation[0])},
+              alors que la contrainte impose {cityName(step.precedenceViolation[0])} avant {cityName(step.precedenceViolation[1])}.
+            </p>
+          </div>
+        )}
 
+        {/* Branche coupée par une fenêtre horaire stricte */}
+        {step.lateArrival && (
+          <div className="mb-6 p-4 bg-orange-50 border border-orange-200 rounded-lg">
+            <p className="text-orange-800 text-sm">
+              ⏰ Fils inclusion coupé : avec l'arc {step.selectedArc && `(${cityName(step.selectedArc[0])}, ${cityName(step.selectedArc[1])})`},
+              {' '}on arriverait à {cityName(step.lateArrival[0])} à {formatCost(step.lateArrival[1])}
+              {cities[step.lateArrival[0]]?.windowEnd !== undefined && `, après la fermeture de sa fenêtre (${formatCost(cities[step.lateArrival[0]].windowEnd!)})`}.
+            </p>
+          </div>
+        )}
 
         {/* Matrices */}
         <div className="space-y-6">
-          {step.matrix.length > 0 && renderMatrix(
+          {step.matrix.rows.length > 0 && renderMatrix(
             step.matrix, 
             'Matrice des coûts', 
             step.selectedArc
           )}
           
-          {step.regrets && renderRegrets(step.regrets)}
+          {step.regrets && renderRegrets(step.matrix, step.regrets)}
         </div>
 
         
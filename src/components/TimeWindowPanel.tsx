@@ -0,0 +1,135 @@
+import React from 'react';
+import { Clock } from 'lucide-react';
+import { City, ProblemSettings } from '../types';
+import { resolveDepot, resolveSalesmen } from '../utils/problem';
+
+interface TimeWindowPanelProps {
+  cities: City[];
+  onCitiesChange: (cities: City[]) => void;
+  problem: ProblemSettings;
+  onProblemChange: (problem: ProblemSettings) => void;
+}
+
+type TimeField = 'windowStart' | 'windowEnd' | 'serviceTime';
+
+const TIME_WINDOW_MODES: Array<{ value: ProblemSettings['timeWindows']; label: string }> = [
+  { value: 'off', label: 'Sans horaires' },
+  { value: 'strict', label: 'Fenêtres impératives (retard interdit)' },
+  { value: 'penalty', label: 'Retards autorisés mais pénalisés' }
+];
+
+// Fenêtres horaires (TSPTW) : créneau d'arrivée et durée d'intervention de chaque ville
+export const TimeWindowPanel: React.FC<TimeWindowPanelProps> = ({
+  cities,
+  onCitiesChange,
+  problem,
+  onProblemChange
+}) => {
+  const depot = resolveDepot(problem, cities);
+  const multipleSalesmen = resolveSalesmen(problem, cities) !== undefined;
+
+  // Champ vide : pas de contrainte (ouverture 0, fermeture ∞, service nul)
+  const updateCity = (index: number, field: TimeField, text: string) => {
+    const value = text.trim() === '' ? undefined : Math.max(0, Number(text));
+    if (value !== undefined && isNaN(value)) return;
+    onCitiesChange(cities.map((city, i) => i === index ? { ...city, [field]: value } : city));
+  };
+
+  const timeInput = (city: City, index: number, field: TimeField, placeholder: string) => (
+    <input
+      type="number"
+      min={0}
+      value={city[field] ?? ''}
+      placeholder={placeholder}
+      onChange={(e) => updateCity(index, field, e.target.value)}
+      className="w-24 px-2 py-1 border border-gray-200 rounded-lg text-center"
+    />
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-indigo-100 rounded-lg">
+            <Clock className="h-5 w-5 text-indigo-600" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Fenêtres horaires</h3>
+            <p className="text-sm text-gray-600">
+              Créneaux de rendez-vous et durées d'intervention ; la matrice donne alors les temps de trajet
+            </p>
+          </div>
+        </div>
+        <select
+          value={problem.timeWindows}
+          onChange={(e) => onProblemChange({ ...problem, timeWindows: e.target.value as ProblemSettings['timeWindows'] })}
+          className="px-2 py-1 text-sm bg-white border border-gray-200 rounded-lg"
+        >
+          {TIME_WINDOW_MODES.map(mode => (
+            <option key={mode.value} value={mode.value}>{mode.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {problem.timeWindows !== 'off' && (
+        <>
+          {multipleSalesmen && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mb-4">
+              <p className="text-amber-800 text-sm">
+                ⚠️ Les fenêtres horaires ne s'appliquent qu'avec un seul voyageur : elles sont ignorées pour cette résolution.
+              </p>
+            </div>
+          )}
+
+          {problem.timeWindows === 'penalty' && (
+            <label className="flex items-center space-x-2 text-sm text-gray-700 mb-4">
+              <span>Pénalité par unité de retard</span>
+              <input
+                type="number"
+                min={0}
+                value={problem.latePenalty}
+                onChange={(e) => onProblemChange({ ...problem, latePenalty: Math.max(0, Number(e.target.value) || 0) })}
+                className="w-24 px-2 py-1 border border-gray-200 rounded-lg text-center"
+              />
+            </label>
+          )}
+
+          <p className="text-sm text-gray-500 mb-3">
+            Temps exprimés dans l'unité de la matrice (ex. minutes depuis le départ de {cities[depot]?.name},
+            qui a lieu à l'ouverture de sa fenêtre). Arrivé en avance, on attend l'ouverture ; la fenêtre du dépôt borne le retour.
+          </p>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-gray-200">
+                  <th className="py-2 pr-4">Ville</th>
+                  <th className="py-2 pr-4 text-center">Ouverture</th>
+                  <th className="py-2 pr-4 text-center">Fermeture</th>
+                  <th className="py-2 text-center">Durée de service</th>
+                </tr>
+              </thead>
+              <tbody>
+                {cities.map((city, index) => {
+                  const emptyWindow = (city.windowStart ?? 0) > (city.windowEnd ?? Infinity);
+                  return (
+                    <tr key={city.id} className={`border-b border-gray-100 ${emptyWindow ? 'bg-red-50' : ''}`}>
+                      <td className="py-2 pr-4">
+                        {city.name}
+                        {index === depot && <span className="ml-2 text-xs text-amber-600">(dépôt)</span>}
+                        {emptyWindow && <span className="ml-2 text-xs text-red-600">fenêtre vide</span>}
+                      </td>
+                      <td className="py-2 pr-4 text-center">{timeInput(city, index, 'windowStart', '0')}</td>
+                      <td className="py-2 pr-4 text-center">{timeInput(city, index, 'windowEnd', '∞')}</td>
+                      <td className="py-2 text-center">{timeInput(city, index, 'serviceTime', '0')}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
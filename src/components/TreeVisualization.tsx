@@ -1,23 +1,11 @@
 import React, { useEffect, useRef } from 'react';
 import { GitBranch } from 'lucide-react';
-
-interface TreeNode {
-  id: string;
-  type: 'include' | 'exclude' | 'root';
-  arc?: [number, number];
-  bound: number;
-  level: number;
-  x: number;
-  y: number;
-  parent?: string;
-  children: string[];
-  isActive: boolean;
-  branchValue?: number;
-}
+import { City, LittleStep } from '../types';
+import { TreeNode, buildBranchTree, formatTreeArc, formatTreeBound } from '../utils/branchTree';
 
 interface TreeVisualizationProps {
-  steps: any[];
-  cities: any[];
+  steps: LittleStep[];
+  cities: City[];
   currentStepIndex: number;
 }
 
@@ -61,96 +49,8 @@ export const TreeVisualization: React.FC<TreeVisualizationProps> = ({
     );
   }
   const buildTree = () => {
-    const nodeMap = new Map<string, TreeNode>();
-    
-    // Always create at least a root node
-    const rootNode: TreeNode = {
-        id: 'root',
-      type: 'root',
-      bound: steps.length > 0 ? steps[0]?.bound || 0 : 100,
-        level: 0,
-      x: 0,
-      y: 0,
-      children: [],
-      isActive: true
-    };
-    nodeMap.set('root', rootNode);
-
-    // Build progressively up to currentStepIndex
-    if (steps.length > 0) {
-      let nodeCounter = 1;
-      let currentParent = 'root';
-
-      // Only show nodes up to current step (progressive building)
-      const filteredSteps = steps.filter((_, index) => index <= currentStepIndex);
-
-      filteredSteps.forEach((step, i) => {
-        if (step.type === 'regret' && step.selectedArc) {
-          const [arcI, arcJ] = step.selectedArc;
-
-          const parentNode = nodeMap.get(currentParent);
-          if (!parentNode) return;
-
-          // Find the following branch step
-          const branchStep = steps.find(s => s.type === 'branch' && s.step === step.step + 1);
-
-          // Parse bounds from branchStep description if available
-          let parsedExcludeBound: number | null = null;
-          let parsedIncludeBound: number | null = null;
-          if (branchStep && typeof branchStep.description === 'string') {
-            const exclMatch = branchStep.description.match(/exclure\)\s*:\s*([0-9]+(?:\.[0-9]+)?)/i);
-            const inclMatch = branchStep.description.match(/inclure\)\s*:\s*([0-9]+(?:\.[0-9]+)?)/i);
-            if (exclMatch) parsedExcludeBound = parseFloat(exclMatch[1]);
-            if (inclMatch) parsedIncludeBound = parseFloat(inclMatch[1]);
-          }
-
-          const includeBound = parsedIncludeBound ?? branchStep?.bound ?? parentNode.bound;
-          const excludeIncrement = step.regrets?.[arcI]?.[arcJ] ?? 0;
-          const excludeBound = parsedExcludeBound ?? (parentNode.bound + excludeIncrement);
-
-          // Exclude branch (red) - left branch
-          const excludeId = `exclude_${nodeCounter}`;
-          const excludeNode: TreeNode = {
-            id: excludeId,
-            type: 'exclude',
-            arc: [arcI, arcJ],
-            bound: excludeBound,
-            level: parentNode.level + 1,
-            x: 0,
-            y: 0,
-            parent: currentParent,
-            children: [],
-            isActive: true,
-            branchValue: excludeBound - parentNode.bound
-          };
-          nodeMap.set(excludeId, excludeNode);
-
-          // Include branch (blue) - right branch
-          const includeId = `include_${nodeCounter}`;
-          const includeNode: TreeNode = {
-            id: includeId,
-            type: 'include',
-            arc: [arcI, arcJ],
-            bound: includeBound,
-            level: parentNode.level + 1,
-            x: 0,
-            y: 0,
-            parent: currentParent,
-            children: [],
-            isActive: true,
-            branchValue: includeBound - parentNode.bound
-          };
-          nodeMap.set(includeId, includeNode);
-
-          // Update parent's children
-          parentNode.children.push(excludeId, includeId);
-
-          // Choose next parent based on better bound (smaller is better)
-          currentParent = excludeNode.bound <= includeNode.bound ? excludeId : includeId;
-          nodeCounter++;
-        }
-      });
-    }
+    // Only show nodes up to current step (progressive building)
+    const nodeMap = buildBranchTree(steps.slice(0, currentStepIndex + 1), currentStepIndex);
 
     // Calculate positions
     calculatePositions(nodeMap);
@@ -271,10 +171,10 @@ export const TreeVisualization: React.FC<TreeVisualizationProps> = ({
       ctx.arc(node.x, node.y, radius, 0, 2 * Math.PI);
       ctx.fill();
 
-      // Node border (dashed)
-      ctx.strokeStyle = node.isActive ? '#FFFFFF' : '#D1D5DB';
-      ctx.lineWidth = 3;
-      ctx.setLineDash([5, 5]);
+      // Node border (dashed), solid green on the path to the best tour so far
+      ctx.strokeStyle = node.isOptimal ? '#10B981' : node.isActive ? '#FFFFFF' : '#D1D5DB';
+      ctx.lineWidth = node.isOptimal ? 5 : 3;
+      ctx.setLineDash(node.isOptimal ? [] : [5, 5]);
       ctx.stroke();
       ctx.setLineDash([]); // Reset to solid
 
@@ -288,22 +188,43 @@ export const TreeVisualization: React.FC<TreeVisualizationProps> = ({
         ctx.fillText('R', node.x, node.y - 5);
       } else if (node.arc) {
         const [i, j] = node.arc;
-        const cityI = cities[i]?.name.charAt(0) || String.fromCharCode(65 + i);
-        const cityJ = cities[j]?.name.charAt(0) || String.fromCharCode(65 + j);
+        const cityI = i >= cities.length ? '∗' : cities[i]?.name.charAt(0) || String.fromCharCode(65 + i);
+        const cityJ = j >= cities.length ? '∗' : cities[j]?.name.charAt(0) || String.fromCharCode(65 + j);
         ctx.fillText(`${cityI}${cityJ}`, node.x, node.y - 5);
       }
 
       // Bound value above node
       ctx.fillStyle = node.isActive ? '#374151' : '#9CA3AF';
       ctx.font = '12px Arial';
-      ctx.fillText(node.bound.toString(), node.x, node.y - radius - 15);
+      ctx.fillText(formatTreeBound(node.bound), node.x, node.y - radius - 15);
+
+      // Arcs imposés : pré-engagés à la racine, avant toute séparation
+      if (node.preCommitted) {
+        ctx.fillStyle = '#059669';
+        ctx.font = 'bold 12px Arial';
+        ctx.textAlign = 'left';
+        ctx.fillText(`📌 ${node.preCommitted.map(arc => formatTreeArc(arc, cities)).join(' ')}`, node.x + radius + 10, node.y);
+        ctx.textAlign = 'center';
+      }
+
+      // Pruned nodes are crossed out
+      if (node.isPruned) {
+        ctx.strokeStyle = '#6B7280';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(node.x - 12, node.y + 8);
+        ctx.lineTo(node.x + 12, node.y + 20);
+        ctx.moveTo(node.x + 12, node.y + 8);
+        ctx.lineTo(node.x - 12, node.y + 20);
+        ctx.stroke();
+      }
     });
 
     ctx.restore();
   };
 
   const getNodeColor = (node: TreeNode): string => {
-    if (!node.isActive) return '#E5E7EB';
+    if (!node.isActive || node.isPruned) return '#E5E7EB';
     
     switch (node.type) {
       case 'root': return '#60A5FA'; // Light blue
@@ -456,6 +377,20 @@ export const TreeVisualization: React.FC<TreeVisualizationProps> = ({
               <div className="w-4 h-4 bg-red-600 rounded-full"></div>
               <span className="text-gray-600">Exclure arc</span>
             </div>
+            <div className="flex items-center space-x-2">
+              <div className="w-4 h-4 rounded-full border-4 border-emerald-500"></div>
+              <span className="text-gray-600">Meilleur circuit</span>
+            </div>
+            <div className="flex items-center space-x-2">
+              <span className="text-gray-700 font-bold">×</span>
+              <span className="text-gray-600">Sommet élagué</span>
+            </div>
+            {steps[0]?.mandatoryArcs && (
+              <div className="flex items-center space-x-2">
+                <span className="text-emerald-600 font-bold">📌</span>
+                <span className="text-gray-600">Arcs imposés (inclus à la racine)</span>
+              </div>
+            )}
           </div>
           <div className="text-gray-600">
             Étape {currentStepIndex + 1} / {steps.length}
@@ -0,0 +1,187 @@
+import React, { useMemo } from 'react';
+import { ShieldCheck, AlertTriangle, Info } from 'lucide-react';
+import { City, ProblemSettings, TSPResult } from '../types';
+import {
+  solveExact,
+  solveExactWithPrecedences,
+  solveExactWithPrizes,
+  solveExactWithTimeWindows,
+  BRUTE_FORCE_MAX_CITIES,
+  HELD_KARP_MAX_CITIES
+} from '../algorithms/exact';
+import { buildOpenPathMatrix, formatRoute, toOpenPath } from '../algorithms/openPath';
+import { buildDepotCopiesMatrix, flattenTours, formatTours, splitDepotTour } from '../algorithms/multipleTsp';
+import { restrictToMandatoryArcs } from '../algorithms/mandatoryArcs';
+import {
+  resolveDepot,
+  resolveMandatoryArcs,
+  resolveOpenPath,
+  resolvePrecedences,
+  resolvePrizes,
+  resolveSalesmen,
+  resolveTimeWindows
+} from '../utils/problem';
+import { formatCost } from '../utils/costs';
+
+interface VerificationPanelProps {
+  cities: City[];
+  result: TSPResult;
+  costMatrix: number[][];
+  problem: ProblemSettings;
+}
+
+export const VerificationPanel: React.FC<VerificationPanelProps> = ({
+  cities,
+  result,
+  costMatrix,
+  problem
+}) => {
+  const salesmen = resolveSalesmen(problem, cities);
+  // Fenêtres horaires : seule l'énumération exhaustive sert de référence
+  const timeWindows = resolveTimeWindows(problem, cities);
+  const maxCities = timeWindows ? BRUTE_FORCE_MAX_CITIES : HELD_KARP_MAX_CITIES;
+  const prizes = resolvePrizes(problem, cities);
+
+  // Chemin ouvert, plusieurs voyageurs : optimum du problème augmenté (ville fictive, copies du dépôt),
+  // ramené à un chemin ou découpé en tournées. Précédences : Held–Karp contraint depuis l'origine.
+  // Arcs imposés : matrice (augmentée) restreinte, où leurs arcs concurrents sont interdits.
+  // Villes facultatives : meilleure tournée sur chaque sous-ensemble de villes contenant les obligatoires,
+  // précédences comprises
+  const reference = useMemo(() => {
+    const openPath = resolveOpenPath(problem, cities);
+    const team = resolveSalesmen(problem, cities);
+    const precedences = resolvePrecedences(problem, cities);
+    const windows = resolveTimeWindows(problem, cities);
+    const mandatoryArcs = resolveMandatoryArcs(problem, cities);
+    const selection = resolvePrizes(problem, cities);
+    const restrict = (matrix: number[][]) => restrictToMandatoryArcs(matrix, mandatoryArcs);
+    if (windows) {
+      return solveExactWithTimeWindows(costMatrix, windows, resolveDepot(problem, cities), openPath, precedences, mandatoryArcs, selection);
+    }
+    if (selection) {
+      return solveExactWithPrizes(restrict(costMatrix), selection, resolveDepot(problem, cities), precedences);
+    }
+    if (openPath) {
+      const matrix = restrict(buildOpenPathMatrix(costMatrix, openPath));
+      const exact = precedences.length > 0
+        ? solveExactWithPrecedences(matrix, openPath.start, precedences)
+        : solveExact(matrix);
+      return exact && { ...exact, path: toOpenPath(exact.path, costMatrix.length) };
+    }
+    if (team) {
+      const exact = solveExact(restrict(buildDepotCopiesMatrix(costMatrix, team)));
+      const tours = exact ? splitDepotTour(exact.path, team.depot, costMatrix.length) : [];
+      return exact && { ...exact, path: flattenTours(tours), tours };
+    }
+    if (precedences.length > 0) {
+      return solveExactWithPrecedences(restrict(costMatrix), resolveDepot(problem, cities), precedences);
+    }
+    return solveExact(restrict(costMatrix));
+  }, [costMatrix, problem, cities]);
+
+  const cityName = (i: number) => cities[i]?.name || `Ville ${i + 1}`;
+
+  // La plus longue tournée et la sélection sous budget sont déjà calculées par un solveur exact :
+  // pas de second solveur de référence
+  if (salesmen?.objective === 'longest' || prizes?.budget !== undefined) {
+    return (
+      <div className="bg-white rounded-xl shadow-lg p-6">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-gray-100 rounded-lg">
+            <Info className="h-5 w-5 text-gray-600" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Vérification de l'optimalité</h3>
+            <p className="text-sm text-gray-600">
+              {salesmen ? 'La répartition minimisant la plus longue tournée' : 'La sélection des villes sous budget'} est
+              calculée par programmation dynamique exacte : son optimalité ne nécessite pas de vérification séparée.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!reference) {
+    return (
+      <div className="bg-white rounded-xl shadow-lg p-6">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-gray-100 rounded-lg">
+            <Info className="h-5 w-5 text-gray-600" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Vérification de l'optimalité</h3>
+            <p className="text-sm text-gray-600">
+              Vérification exacte indisponible au-delà de {maxCities} villes{timeWindows && ' avec fenêtres horaires'}
+              (instance actuelle : {costMatrix.length} villes).
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Instance sans circuit réalisable : les deux coûts valent Infinity
+  const isOptimal = result.cost === reference.cost;
+  const gap = isOptimal ? 0 : result.cost - reference.cost;
+  const methodLabel = reference.method === 'brute-force'
+    ? 'Énumération exhaustive'
+    : 'Programmation dynamique (Held–Karp)';
+  // Heuristique : l'écart à l'optimum mesure la qualité du circuit construit
+  const solverLabel = result.localSearch ? 'la recherche locale' : result.heuristic ? 'l\'heuristique' : 'LITTLE';
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <div className="flex items-center space-x-3 mb-6">
+        <div className={`p-2 rounded-lg ${isOptimal ? 'bg-green-100' : 'bg-amber-100'}`}>
+          {isOptimal
+            ? <ShieldCheck className="h-5 w-5 text-green-600" />
+            : <AlertTriangle className="h-5 w-5 text-amber-600" />}
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Vérification de l'optimalité</h3>
+          <p className="text-sm text-gray-600">
+            Solveur de référence : {methodLabel}
+            {(result.heuristic || result.localSearch) && ` — l'écart mesure la qualité de ${solverLabel}`}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div className="bg-gray-50 rounded-lg p-4">
+          <div className="text-sm text-gray-600">{result.localSearch ? 'Coût après recherche locale' : result.heuristic ? 'Coût heuristique' : 'Coût LITTLE'}</div>
+          <div className="text-2xl font-bold text-gray-900">{formatCost(result.cost)}</div>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Optimum de référence</div>
+          <div className="text-2xl font-bold text-gray-900">{formatCost(reference.cost)}</div>
+        </div>
+        <div className={`rounded-lg p-4 ${isOptimal ? 'bg-green-50' : 'bg-amber-50'}`}>
+          <div className="text-sm text-gray-600">Écart</div>
+          <div className={`text-2xl font-bold ${isOptimal ? 'text-green-700' : 'text-amber-700'}`}>
+            {isOptimal ? '0' : `+${formatCost(gap)} (${((gap / reference.cost) * 100).toFixed(2)} %)`}
+          </div>
+        </div>
+      </div>
+
+      {isOptimal ? (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+          <p className="text-green-800 text-sm">
+            ✓ Le coût trouvé par {solverLabel} correspond à l'optimum de référence.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+          <p className="text-amber-800 text-sm">
+            {'tours' in reference
+              ? `⚠️ Les tournées de ${solverLabel} ne sont pas optimales. Tournées de référence :`
+              : `⚠️ Le ${result.open ? 'chemin' : 'circuit'} de ${solverLabel} n'est pas optimal. ${result.open ? 'Chemin' : 'Circuit'} de référence :`}
+          </p>
+          <p className="text-amber-900 text-sm font-medium mt-1">
+            {'tours' in reference ? formatTours(reference.tours, cityName) : formatRoute(reference.path, cityName, result.open)}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import { vi } from 'vitest';
+
+// Remplace Worker dans les tests : le module du worker est exécuté dans le thread du test, avec un `self`
+// qui lui est propre ; ses messages reviennent au composant comme ceux d'un vrai worker.
+
+export class InlineWorker {
+  static instances: InlineWorker[] = [];
+
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  readonly url: URL;
+  readonly requests: unknown[] = [];
+  private terminated = false;
+  private readonly ready: Promise<(event: MessageEvent) => void>;
+
+  constructor(url: URL | string) {
+    this.url = new URL(url);
+    InlineWorker.instances.push(this);
+
+    const scope = {
+      onmessage: null as ((event: MessageEvent) => void) | null,
+      postMessage: (data: unknown) => {
+        if (!this.terminated) this.onmessage?.({ data } as MessageEvent);
+      }
+    };
+    // Le module lit `self` à son évaluation : il est rechargé pour chaque worker
+    const original = Object.getOwnPropertyDescriptor(globalThis, 'self');
+    Object.defineProperty(globalThis, 'self', { value: scope, configurable: true, writable: true });
+    vi.resetModules();
+    this.ready = import(/* @vite-ignore */ this.url.protocol === 'file:' ? this.url.href : this.url.pathname).finally(() => {
+      if (original) Object.defineProperty(globalThis, 'self', original);
+    }).then(() => scope.onmessage!);
+  }
+
+  postMessage(data: unknown) {
+    this.requests.push(data);
+    void this.ready.then(handler => {
+      if (!this.terminated) handler({ data } as MessageEvent);
+    });
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+// Installe InlineWorker à la place de Worker ; à appeler dans beforeEach
+export const installInlineWorker = () => {
+  InlineWorker.instances = [];
+  vi.stubGlobal('Worker', InlineWorker);
+};
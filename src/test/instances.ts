@@ -0,0 +1,14 @@
+import { City } from '../types';
+
+// Six villes, coûts asymétriques : les arêtes les moins chères donnent un circuit de coût 14, que la
+// recherche locale ramène à 11 par un mouvement 2-opt, un 3-opt puis un Or-opt
+export const SIX_CITIES: City[] = ['A', 'B', 'C', 'D', 'E', 'F'].map((name, i) => ({ id: `city-${i}`, name }));
+
+export const ASYMMETRIC_MATRIX: number[][] = [
+  [0, 6, 3, 3, 6, 1],
+  [5, 0, 2, 7, 1, 4],
+  [9, 1, 0, 1, 3, 9],
+  [3, 9, 2, 0, 1, 3],
+  [6, 3, 5, 1, 0, 3],
+  [2, 8, 7, 2, 3, 0]
+];
@@ -0,0 +1,129 @@
+export interface City {
+  id: string;
+  name: string;
+  x?: number;
+  y?: number;
+  lat?: number; // Latitude en degrés décimaux
+  lon?: number; // Longitude en degrés décimaux
+  windowStart?: number; // Fenêtre horaire d'arrivée (même unité que la matrice des temps de trajet)
+  windowEnd?: number;
+  serviceTime?: number; // Durée de l'intervention sur place
+  optional?: boolean; // Ville facultative : peut être écartée de la tournée (mode villes facultatives)
+  reward?: number; // Récompense collectée si la ville est visitée
+}
+
+/**
+ * Matrice de travail de la méthode de Little : seules les lignes et colonnes encore actives sont
+ * conservées, chacune avec l'indice de sa ville d'origine. Un arc interdit ou bloqué vaut Infinity ;
+ * une ligne ou colonne supprimée (arc inclus) n'apparaît simplement plus.
+ */
+export interface ReducedMatrix {
+  rows: number[]; // Ville d'origine de chaque ligne active
+  cols: number[]; // Ville d'origine de chaque colonne active
+  values: number[][]; // values[r][c] : coût réduit de l'arc rows[r] → cols[c]
+}
+
+// Regret de chaque zéro (null pour les cases non nulles), aligné sur rows/cols de la matrice
+export type RegretMatrix = Array<Array<number | null>>;
+
+export type BranchKind = 'root' | 'exclusion' | 'inclusion';
+
+// Fils créé lors de la séparation d'un sommet sur un arc
+export interface BranchChild {
+  nodeId: number;
+  bound: number;
+  reduction: number; // Exclusion : regret ρ de l'arc ; inclusion : somme soustraite lors de la réduction
+  pruned: boolean;
+}
+
+export interface LittleStep {
+  step: number;
+  type: 'reduction' | 'regret' | 'branch' | 'final';
+  title: string;
+  matrix: ReducedMatrix;
+  bound: number; // Infinity : sommet sans circuit réalisable
+  description: string;
+  selectedArc?: [number, number];
+  regrets?: RegretMatrix;
+  eliminated?: boolean;
+  // Sommet de l'arborescence concerné par l'étape
+  nodeId?: number;
+  parentId?: number;
+  branchKind?: BranchKind;
+  arc?: [number, number]; // Arc exclu ou inclus pour obtenir ce sommet
+  // Séparation du sommet sur selectedArc (étapes d'évaluation)
+  exclusion?: BranchChild;
+  inclusion?: BranchChild;
+  blockedArcs?: Array<[number, number]>;
+  pruned?: boolean;
+  incumbent?: boolean; // Un nouveau meilleur circuit a été trouvé en ce sommet
+  precedenceViolation?: [number, number]; // Fils inclusion coupé : la précédence [avant, après] serait violée
+  lateArrival?: [number, number]; // Fils inclusion coupé (fenêtres strictes) : [ville, heure d'arrivée] en retard
+  mandatoryArcs?: Array<[number, number]>; // Racine : arcs imposés, inclus d'office avant toute séparation
+  move?: TourMove; // Recherche locale : mouvement appliqué au circuit
+}
+
+// Voisinages de la recherche locale (voir algorithms/localSearch.ts)
+export type LocalSearchMove = '2-opt' | 'or-opt' | '3-opt';
+
+// Mouvement de recherche locale, en indices de villes (arcs de la ville fictive d'un chemin ouvert omis)
+export interface TourMove {
+  kind: LocalSearchMove;
+  removed: Array<[number, number]>; // Arcs retirés du circuit
+  added: Array<[number, number]>; // Arcs ajoutés
+  path: number[]; // Itinéraire après le mouvement
+  costBefore: number;
+  costAfter: number;
+}
+
+export interface TSPResult {
+  path: number[];
+  cost: number;
+  steps: LittleStep[];
+  interrupted?: boolean; // Résolution annulée : meilleur circuit trouvé, optimalité non prouvée
+  open?: boolean; // Chemin ouvert : pas d'arc de retour de la dernière ville vers la première
+  tours?: number[][]; // Plusieurs voyageurs : tournées partant du dépôt (retour implicite), path les enchaîne
+  skipped?: number[]; // Villes facultatives : villes écartées, absentes de path
+  heuristic?: HeuristicMethod; // Circuit construit par une heuristique : optimalité non garantie
+  localSearch?: { initialCost: number; moves: number }; // Circuit amélioré par recherche locale (optimum local)
+}
+
+// Variante du problème, enregistrée avec l'instance (session, projet, lien de partage)
+export interface ProblemSettings {
+  route: 'circuit' | 'path'; // Circuit avec retour au départ, ou chemin ouvert
+  startId: string | null; // Dépôt : départ du circuit ou du chemin (première ville si null)
+  endId: string | null; // Ville d'arrivée imposée du chemin ; null : arrivée libre
+  salesmen: number; // Nombre de voyageurs partant du dépôt (circuit uniquement)
+  objective: 'total' | 'longest'; // Plusieurs voyageurs : coût total ou plus longue tournée à minimiser
+  precedences: PrecedenceConstraint[]; // Un seul voyageur : ordre de visite imposé depuis le dépôt
+  timeWindows: 'off' | 'strict' | 'penalty'; // Fenêtres horaires des villes : ignorées, impératives ou retards pénalisés
+  latePenalty: number; // Coût d'une unité de retard (mode pénalité)
+  mandatoryArcs: MandatoryArcConstraint[]; // Arcs faisant obligatoirement partie de la tournée
+  selection: 'off' | 'profit' | 'budget'; // Villes facultatives : toutes visitées, profit maximal ou récompenses sous budget
+  tourBudget: number; // Longueur maximale de la tournée (mode budget)
+}
+
+// « beforeId avant afterId » sur la tournée partant du dépôt
+export interface PrecedenceConstraint {
+  beforeId: string;
+  afterId: string;
+}
+
+// Arc fromId → toId imposé (ex. liaison par ferry)
+export interface MandatoryArcConstraint {
+  fromId: string;
+  toId: string;
+}
+
+// Étapes de l'assistant (App)
+export type WizardStep = 'cities' | 'matrix' | 'algorithm' | 'result';
+
+// Heuristiques de construction (voir algorithms/heuristics.ts)
+export type HeuristicMethod = 'nearest-neighbour' | 'greedy-edge' | 'cheapest-insertion' | 'farthest-insertion';
+
+// Réglages du solveur, partagés par lien (voir utils/share.ts)
+export interface SolverSettings {
+  autoPlaySpeed: number; // Délai entre deux étapes en lecture automatique (ms)
+  costDecimals: number; // Décimales conservées à la saisie des coûts
+  method: 'little' | HeuristicMethod; // Méthode exacte de Little ou heuristique de construction
+}
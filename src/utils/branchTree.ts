@@ -0,0 +1,96 @@
+import { City, LittleStep } from '../types';
+import { formatCost, roundCost } from './costs';
+
+export interface TreeNode {
+  id: string;
+  type: 'include' | 'exclude' | 'root';
+  arc?: [number, number];
+  bound: number;
+  level: number;
+  x: number;
+  y: number;
+  parent?: string;
+  children: string[];
+  isActive: boolean;
+  isOptimal?: boolean;
+  isPruned?: boolean;
+  branchValue?: number; // Value on the branch leading to this node
+  preCommitted?: Array<[number, number]>; // Racine : arcs imposés, inclus avant toute séparation
+}
+
+export const treeNodeId = (nodeId: number): string => nodeId === 0 ? 'root' : `node_${nodeId}`;
+
+/**
+ * Construit l'arborescence de séparation à partir des champs structurés des étapes
+ * (nodeId, exclusion, inclusion...). Les sommets créés après l'étape activeUntil sont inactifs.
+ * Les positions x/y sont laissées à 0 : elles dépendent du canvas de chaque vue.
+ */
+export const buildBranchTree = (steps: LittleStep[], activeUntil: number): Map<string, TreeNode> => {
+  const nodeMap = new Map<string, TreeNode>();
+
+  const rootStep = steps.find(step => step.branchKind === 'root');
+  nodeMap.set('root', {
+    id: 'root',
+    type: 'root',
+    bound: rootStep?.bound ?? steps[0]?.bound ?? 0,
+    level: 0,
+    x: 0,
+    y: 0,
+    children: [],
+    isActive: true,
+    ...(rootStep?.mandatoryArcs && { preCommitted: rootStep.mandatoryArcs })
+  });
+
+  steps.forEach((step, i) => {
+    if (step.nodeId === undefined) return;
+    const node = nodeMap.get(treeNodeId(step.nodeId));
+    if (!node) return;
+
+    if (step.pruned) node.isPruned = true;
+
+    if (!step.selectedArc || !step.exclusion || !step.inclusion) return;
+
+    // Exclude branch (red) on the left, include branch (blue) on the right
+    const branches: Array<['exclude' | 'include', NonNullable<LittleStep['exclusion']>]> = [
+      ['exclude', step.exclusion],
+      ['include', step.inclusion]
+    ];
+
+    for (const [type, child] of branches) {
+      const childId = treeNodeId(child.nodeId);
+      nodeMap.set(childId, {
+        id: childId,
+        type,
+        arc: step.selectedArc,
+        bound: child.bound,
+        level: node.level + 1,
+        x: 0,
+        y: 0,
+        parent: node.id,
+        children: [],
+        isActive: i <= activeUntil,
+        isPruned: child.pruned,
+        branchValue: roundCost(child.bound - node.bound)
+      });
+      node.children.push(childId);
+    }
+  });
+
+  // Marquer le chemin de la racine jusqu'au sommet du meilleur circuit
+  const incumbentStep = [...steps].reverse().find(step => step.incumbent && step.nodeId !== undefined);
+  let optimalId: string | undefined = incumbentStep ? treeNodeId(incumbentStep.nodeId!) : undefined;
+  while (optimalId) {
+    const node = nodeMap.get(optimalId);
+    if (!node) break;
+    node.isOptimal = true;
+    optimalId = node.parent;
+  }
+
+  return nodeMap;
+};
+
+export const formatTreeBound = (bound: number): string => formatCost(bound);
+
+// Initiales des deux villes d'un arc (« AB »), ∗ pour une ville ajoutée par le solveur
+export const formatTreeArc = ([i, j]: [number, number], cities: City[]): string =>
+  [i, j].map(k => k >= cities.length ? '∗' : cities[k]?.name.charAt(0) || String.fromCharCode(65 + k)).join('');
@@ -0,0 +1,45 @@
+// Arc interdit (pas de route de i vers j) dans la matrice saisie. Infinity plutôt qu'une grande valeur :
+// aucun coût réel, aussi grand soit-il, ne peut être confondu avec un arc interdit.
+export const FORBIDDEN_COST = Infinity;
+
+export const isForbidden = (value: number): boolean => value === FORBIDDEN_COST;
+
+// Matrice symétrique : c(i, j) = c(j, i) pour tout couple, cases vides (NaN) et arcs interdits compris
+export const isSymmetricMatrix = (matrix: number[][]): boolean =>
+  matrix.every((row, i) => row.every((value, j) => Object.is(value, matrix[j][i])));
+
+// Décimales conservées dans les calculs (réductions, regrets, bornes) : les coûts saisis en ont au plus 3,
+// les sommes et différences restent donc exactes à cette résolution.
+export const COMPUTATION_DECIMALS = 6;
+
+// Précisions proposées pour la saisie des coûts
+export const COST_DECIMAL_OPTIONS = [0, 1, 2, 3];
+
+/**
+ * Arrondit un coût à la précision donnée. Appliqué après chaque opération du solveur, il élimine les
+ * erreurs d'arrondi flottant (0.1 + 0.2) qui fausseraient la recherche des zéros et la comparaison des bornes.
+ */
+export const roundCost = (value: number, decimals = COMPUTATION_DECIMALS): number => {
+  if (!isFinite(value)) return value;
+  // Un double ne garantit que 15 chiffres significatifs : pour les grands coûts, les décimales au-delà sont du bruit
+  const digits = Math.min(decimals, Math.max(0, 15 - Math.ceil(Math.log10(Math.abs(value)))));
+  const scale = 10 ** digits;
+  return Math.round(value * scale) / scale + 0; // + 0 : évite d'afficher -0
+};
+
+/**
+ * Lit un coût saisi au clavier : virgule ou point décimal, espaces de groupement tolérés.
+ * NaN si la saisie est vide ou invalide.
+ */
+export const parseCost = (text: string): number => {
+  const normalized = text.trim().replace(/\s/g, '').replace(',', '.');
+  return normalized === '' || !/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(normalized) ? NaN : Number(normalized);
+};
+
+// Affichage d'un coût : notation française (1 234,5), ∞ pour un arc interdit ou une borne infinie
+export const formatCost = (value: number): string =>
+  value === Infinity ? '∞' : roundCost(value).toLocaleString('fr-FR', { maximumFractionDigits: COMPUTATION_DECIMALS });
+
+// Valeur d'une case de saisie : virgule décimale, sans séparateur de milliers
+export const formatCostInput = (value: number): string =>
+  isNaN(value) ? '' : String(roundCost(value)).replace('.', ',');
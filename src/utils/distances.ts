@@ -0,0 +1,94 @@
+import { City } from '../types';
+
+export type PlanarMetric = 'euclidean' | 'manhattan' | 'chebyshev' | 'euc2d';
+export type GeoMetric = 'haversine' | 'geo';
+export type DistanceMetric = PlanarMetric | GeoMetric;
+
+export const DISTANCE_METRICS: Array<{ value: DistanceMetric; label: string; kind: 'planar' | 'geo' }> = [
+  { value: 'euclidean', label: 'Euclidienne', kind: 'planar' },
+  { value: 'manhattan', label: 'Manhattan', kind: 'planar' },
+  { value: 'chebyshev', label: 'Chebyshev', kind: 'planar' },
+  { value: 'euc2d', label: 'Euclidienne arrondie (TSPLIB EUC_2D)', kind: 'planar' },
+  { value: 'haversine', label: 'Grand cercle (haversine, km)', kind: 'geo' },
+  { value: 'geo', label: 'Géographique (TSPLIB GEO, km)', kind: 'geo' }
+];
+
+const EARTH_RADIUS_KM = 6371;
+// Constantes imposées par TSPLIB pour GEO
+const TSPLIB_PI = 3.141592;
+const TSPLIB_EARTH_RADIUS_KM = 6378.388;
+
+export const hasCoordinates = (city: City): city is City & { x: number; y: number } =>
+  typeof city.x === 'number' && typeof city.y === 'number' && !isNaN(city.x) && !isNaN(city.y);
+
+export const hasLatLon = (city: City): city is City & { lat: number; lon: number } =>
+  typeof city.lat === 'number' && typeof city.lon === 'number' && !isNaN(city.lat) && !isNaN(city.lon);
+
+export const isGeoMetric = (metric: DistanceMetric): metric is GeoMetric =>
+  metric === 'haversine' || metric === 'geo';
+
+export const planarDistance = (
+  a: { x: number; y: number },
+  b: { x: number; y: number },
+  metric: PlanarMetric
+): number => {
+  const dx = Math.abs(a.x - b.x);
+  const dy = Math.abs(a.y - b.y);
+
+  switch (metric) {
+    case 'euclidean': return Math.round(Math.sqrt(dx * dx + dy * dy) * 100) / 100;
+    case 'manhattan': return dx + dy;
+    case 'chebyshev': return Math.max(dx, dy);
+    // TSPLIB : nint(sqrt(xd² + yd²))
+    case 'euc2d': return Math.round(Math.sqrt(dx * dx + dy * dy));
+  }
+};
+
+// Distance orthodromique en km (arrondie à 0,1 km), latitude/longitude en degrés décimaux
+export const haversineDistance = (
+  a: { lat: number; lon: number },
+  b: { lat: number; lon: number }
+): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return Math.round(2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h))) * 10) / 10;
+};
+
+// Distance TSPLIB GEO (km entiers) ; latitude/longitude en degrés décimaux
+export const tsplibGeoDistance = (
+  a: { lat: number; lon: number },
+  b: { lat: number; lon: number }
+): number => {
+  const toRadians = (degrees: number) => (TSPLIB_PI * degrees) / 180;
+  const q1 = Math.cos(toRadians(a.lon) - toRadians(b.lon));
+  const q2 = Math.cos(toRadians(a.lat) - toRadians(b.lat));
+  const q3 = Math.cos(toRadians(a.lat) + toRadians(b.lat));
+  return Math.floor(TSPLIB_EARTH_RADIUS_KM * Math.acos(0.5 * ((1 + q1) * q2 - (1 - q1) * q3)) + 1);
+};
+
+export const canUseMetric = (cities: City[], metric: DistanceMetric): boolean =>
+  cities.length > 0 && cities.every(isGeoMetric(metric) ? hasLatLon : hasCoordinates);
+
+/**
+ * Matrice des distances entre villes à partir de leurs coordonnées (diagonale à 0).
+ * Les métriques planes utilisent x/y, les métriques géographiques lat/lon.
+ * Retourne null si une ville n'a pas les coordonnées requises.
+ */
+export const buildDistanceMatrix = (cities: City[], metric: DistanceMetric): number[][] | null => {
+  if (isGeoMetric(metric)) {
+    if (!cities.every(hasLatLon)) return null;
+    const distance = metric === 'haversine' ? haversineDistance : tsplibGeoDistance;
+    return cities.map((from, i) =>
+      cities.map((to, j) => i === j ? 0 : distance(from, to))
+    );
+  }
+
+  if (!cities.every(hasCoordinates)) return null;
+
+  return cities.map((from, i) =>
+    cities.map((to, j) => i === j ? 0 : planarDistance(from, to, metric))
+  );
+};
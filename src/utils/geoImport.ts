@@ -0,0 +1,41 @@
+export interface GeoCityInput {
+  name: string;
+  lat: number;
+  lon: number;
+}
+
+/**
+ * Lit des lignes « nom;latitude;longitude » (séparateur ; ou tabulation, virgule décimale acceptée).
+ * Les lignes vides sont ignorées ; chaque ligne invalide produit un message d'erreur.
+ */
+export const parseLatLonLines = (text: string): { cities: GeoCityInput[]; errors: string[] } => {
+  const cities: GeoCityInput[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (line === '') return;
+
+    const fields = line.split(/[;\t]/).map(field => field.trim());
+    if (fields.length !== 3) {
+      errors.push(`Ligne ${index + 1} : 3 champs attendus (nom;lat;lon), ${fields.length} trouvé(s)`);
+      return;
+    }
+
+    const [name, latText, lonText] = fields;
+    const lat = Number(latText.replace(',', '.'));
+    const lon = Number(lonText.replace(',', '.'));
+
+    if (!name) {
+      errors.push(`Ligne ${index + 1} : nom de ville manquant`);
+    } else if (latText === '' || isNaN(lat) || lat < -90 || lat > 90) {
+      errors.push(`Ligne ${index + 1} : latitude invalide « ${latText} » (attendu entre -90 et 90)`);
+    } else if (lonText === '' || isNaN(lon) || lon < -180 || lon > 180) {
+      errors.push(`Ligne ${index + 1} : longitude invalide « ${lonText} » (attendu entre -180 et 180)`);
+    } else {
+      cities.push({ name, lat, lon });
+    }
+  });
+
+  return { cities, errors };
+};
@@ -0,0 +1,94 @@
+import { FORBIDDEN_COST } from './costs';
+
+export interface ImportedMatrix {
+  names: string[] | null; // Noms lus dans la ligne et/ou la colonne d'en-tête
+  matrix: number[][];
+}
+
+// Cellules de diagonale tolérées en plus des nombres
+const DIAGONAL_PLACEHOLDERS = ['', '-', '—', 'x', 'inf', '∞'];
+// Arc interdit hors diagonale
+const FORBIDDEN_MARKERS = ['inf', '∞', 'x'];
+
+const detectSeparator = (line: string): string => {
+  if (line.includes('\t')) return '\t';
+  if (line.includes(';')) return ';';
+  return ',';
+};
+
+const unquote = (cell: string): string => cell.trim().replace(/^"(.*)"$/, '$1').trim();
+
+/**
+ * Lit une matrice de coûts CSV / TSV / « ; » (export Excel français : ; et virgule décimale).
+ * Détecte une ligne et/ou une colonne d'en-tête contenant les noms des villes.
+ * La matrice n'est retournée que si elle est carrée et que toutes les cellules sont valides ;
+ * sinon les erreurs sont listées ligne par ligne et cellule par cellule.
+ */
+export const parseMatrixText = (text: string): { result: ImportedMatrix | null; errors: string[] } => {
+  const lines = text.split(/\r?\n/)
+    .map((line, index) => ({ line, number: index + 1 }))
+    .filter(({ line }) => line.trim() !== '');
+
+  if (lines.length === 0) {
+    return { result: null, errors: ['Fichier vide'] };
+  }
+
+  const separator = detectSeparator(lines[0].line);
+  const rows = lines.map(({ line, number }) => ({
+    number,
+    cells: line.split(separator).map(unquote)
+  }));
+
+  // Avec « , » comme séparateur, la virgule ne peut pas être décimale
+  const toNumber = (cell: string): number =>
+    cell === '' ? NaN : Number(separator === ',' ? cell : cell.replace(',', '.'));
+  const isLabel = (cell: string) =>
+    cell !== '' && isNaN(toNumber(cell)) && ![...DIAGONAL_PLACEHOLDERS, ...FORBIDDEN_MARKERS].includes(cell.toLowerCase());
+
+  // En-tête de ligne : toutes les cellules (hors coin) sont des noms
+  const hasHeaderRow = rows[0].cells.slice(1).every(isLabel) && rows[0].cells.length > 1;
+  const dataRows = hasHeaderRow ? rows.slice(1) : rows;
+  // En-tête de colonne : chaque ligne de données commence par un nom
+  const hasHeaderColumn = dataRows.length > 0 && dataRows.every(row => isLabel(row.cells[0]));
+
+  const errors: string[] = [];
+  const n = dataRows.length;
+
+  if (n < 3) {
+    return { result: null, errors: [`Au moins 3 lignes de données attendues, ${n} trouvée(s)`] };
+  }
+
+  let names: string[] | null = null;
+  if (hasHeaderRow) {
+    names = hasHeaderColumn || rows[0].cells.length === n + 1 ? rows[0].cells.slice(1) : rows[0].cells;
+    if (names.length !== n) {
+      errors.push(`Ligne ${rows[0].number} : ${n} noms de villes attendus dans l'en-tête, ${names.length} trouvé(s)`);
+    }
+  } else if (hasHeaderColumn) {
+    names = dataRows.map(row => row.cells[0]);
+  }
+
+  const matrix: number[][] = dataRows.map((row, i) => {
+    const cells = hasHeaderColumn ? row.cells.slice(1) : row.cells;
+    if (cells.length !== n) {
+      errors.push(`Ligne ${row.number} : ${n} valeurs attendues (matrice carrée), ${cells.length} trouvée(s)`);
+    }
+
+    return cells.slice(0, n).map((cell, j) => {
+      if (i === j && DIAGONAL_PLACEHOLDERS.includes(cell.toLowerCase())) return 0;
+      if (i !== j && FORBIDDEN_MARKERS.includes(cell.toLowerCase())) return FORBIDDEN_COST;
+      const value = toNumber(cell);
+      if (cell === '') {
+        errors.push(`Ligne ${row.number}, colonne ${j + 1} : valeur manquante`);
+      } else if (isNaN(value)) {
+        errors.push(`Ligne ${row.number}, colonne ${j + 1} : valeur invalide « ${cell} »`);
+      } else if (value < 0) {
+        errors.push(`Ligne ${row.number}, colonne ${j + 1} : coût négatif (${cell})`);
+      }
+      return i === j ? 0 : value;
+    });
+  });
+
+  if (errors.length > 0) return { result: null, errors };
+  return { result: { names, matrix }, errors };
+};
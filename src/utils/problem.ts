@@ -0,0 +1,131 @@
+import { City, MandatoryArcConstraint, PrecedenceConstraint, ProblemSettings } from '../types';
+import { OpenPathEnds } from '../algorithms/openPath';
+import { SalesmenSettings } from '../algorithms/multipleTsp';
+import { Precedence } from '../algorithms/precedence';
+import { TimeWindowSettings } from '../algorithms/timeWindows';
+import { MandatoryArc } from '../algorithms/mandatoryArcs';
+import { PrizeSettings } from '../algorithms/prizeCollecting';
+
+export const DEFAULT_PROBLEM_SETTINGS: ProblemSettings = {
+  route: 'circuit',
+  startId: null,
+  endId: null,
+  salesmen: 1,
+  objective: 'total',
+  precedences: [],
+  timeWindows: 'off',
+  latePenalty: 1,
+  mandatoryArcs: [],
+  selection: 'off',
+  tourBudget: 100
+};
+
+/**
+ * Relit la variante du problème (session, lien) ; les villes inconnues sont ignorées.
+ */
+export const parseProblemSettings = (raw: unknown, cities: City[]): ProblemSettings => {
+  const problem = { ...DEFAULT_PROBLEM_SETTINGS };
+  if (typeof raw !== 'object' || raw === null) return problem;
+
+  const {
+    route, startId, endId, salesmen, objective, precedences, timeWindows, latePenalty, mandatoryArcs, selection, tourBudget
+  } = raw as Record<string, unknown>;
+  const isCityId = (id: unknown): id is string => typeof id === 'string' && cities.some(city => city.id === id);
+  if (route === 'circuit' || route === 'path') problem.route = route;
+  if (isCityId(startId)) problem.startId = startId;
+  if (isCityId(endId)) problem.endId = endId;
+  if (typeof salesmen === 'number' && Number.isInteger(salesmen) && salesmen >= 1) problem.salesmen = salesmen;
+  if (objective === 'total' || objective === 'longest') problem.objective = objective;
+  if (Array.isArray(precedences)) {
+    problem.precedences = precedences.filter((constraint): constraint is PrecedenceConstraint =>
+      typeof constraint === 'object' && constraint !== null &&
+      isCityId(constraint.beforeId) && isCityId(constraint.afterId) && constraint.beforeId !== constraint.afterId
+    );
+  }
+  if (timeWindows === 'off' || timeWindows === 'strict' || timeWindows === 'penalty') problem.timeWindows = timeWindows;
+  if (typeof latePenalty === 'number' && latePenalty >= 0) problem.latePenalty = latePenalty;
+  if (Array.isArray(mandatoryArcs)) {
+    problem.mandatoryArcs = mandatoryArcs.filter((arc): arc is MandatoryArcConstraint =>
+      typeof arc === 'object' && arc !== null && isCityId(arc.fromId) && isCityId(arc.toId) && arc.fromId !== arc.toId
+    );
+  }
+  if (selection === 'off' || selection === 'profit' || selection === 'budget') problem.selection = selection;
+  if (typeof tourBudget === 'number' && tourBudget >= 0) problem.tourBudget = tourBudget;
+  return problem;
+};
+
+// Indice du dépôt (ville de départ choisie), première ville par défaut
+export const resolveDepot = (problem: ProblemSettings, cities: City[]): number =>
+  Math.max(0, cities.findIndex(city => city.id === problem.startId));
+
+/**
+ * Départ et arrivée du chemin ouvert en indices de villes, undefined pour un circuit.
+ * Départ par défaut : première ville ; une arrivée confondue avec le départ est ignorée.
+ */
+export const resolveOpenPath = (problem: ProblemSettings, cities: City[]): OpenPathEnds | undefined => {
+  if (problem.route !== 'path') return undefined;
+  const start = resolveDepot(problem, cities);
+  const end = cities.findIndex(city => city.id === problem.endId);
+  return { start, end: end === -1 || end === start ? null : end };
+};
+
+/**
+ * Plusieurs voyageurs depuis le dépôt, undefined pour un seul voyageur ou un chemin ouvert.
+ * Chaque voyageur dessert au moins une ville : au plus n - 1 voyageurs.
+ */
+export const resolveSalesmen = (problem: ProblemSettings, cities: City[]): SalesmenSettings | undefined => {
+  if (problem.route !== 'circuit' || problem.salesmen < 2) return undefined;
+  return {
+    depot: resolveDepot(problem, cities),
+    count: Math.min(problem.salesmen, Math.max(1, cities.length - 1)),
+    objective: problem.objective
+  };
+};
+
+// Précédences en indices de villes ; sans objet avec plusieurs voyageurs
+export const resolvePrecedences = (problem: ProblemSettings, cities: City[]): Precedence[] => {
+  if (resolveSalesmen(problem, cities)) return [];
+  const index = (id: string) => cities.findIndex(city => city.id === id);
+  return problem.precedences
+    .map(({ beforeId, afterId }): Precedence => [index(beforeId), index(afterId)])
+    .filter(([before, after]) => before !== -1 && after !== -1);
+};
+
+/**
+ * Fenêtres horaires et durées de service des villes, undefined si elles sont ignorées (mode « off »,
+ * plusieurs voyageurs). Ville sans fenêtre : [0, ∞].
+ */
+export const resolveTimeWindows = (problem: ProblemSettings, cities: City[]): TimeWindowSettings | undefined => {
+  if (problem.timeWindows === 'off' || resolveSalesmen(problem, cities)) return undefined;
+  return {
+    windows: cities.map(city => [city.windowStart ?? 0, city.windowEnd ?? Infinity]),
+    serviceTimes: cities.map(city => city.serviceTime ?? 0),
+    mode: problem.timeWindows,
+    latePenalty: problem.latePenalty
+  };
+};
+
+// Arcs imposés en indices de villes ; avec plusieurs voyageurs, ceux du dépôt (partagé par les tournées) sont ignorés
+export const resolveMandatoryArcs = (problem: ProblemSettings, cities: City[]): MandatoryArc[] => {
+  const salesmen = resolveSalesmen(problem, cities);
+  const index = (id: string) => cities.findIndex(city => city.id === id);
+  return problem.mandatoryArcs
+    .map(({ fromId, toId }): MandatoryArc => [index(fromId), index(toId)])
+    .filter(([from, to]) => from !== -1 && to !== -1 && !(salesmen && (from === salesmen.depot || to === salesmen.depot)));
+};
+
+/**
+ * Récompenses et villes facultatives, undefined si toutes les villes sont à visiter (mode « off »,
+ * chemin ouvert, plusieurs voyageurs). Le dépôt et les villes d'un arc imposé restent obligatoires ;
+ * une ville « après » d'une précédence n'est visitée que si sa ville « avant » l'est aussi.
+ */
+export const resolvePrizes = (problem: ProblemSettings, cities: City[]): PrizeSettings | undefined => {
+  if (problem.selection === 'off' || problem.route !== 'circuit' || resolveSalesmen(problem, cities)) return undefined;
+  const depot = resolveDepot(problem, cities);
+  const constrained = new Set(resolveMandatoryArcs(problem, cities).flat());
+  return {
+    rewards: cities.map(city => city.reward ?? 0),
+    optional: cities.map((city, i) => !!city.optional && i !== depot && !constrained.has(i)),
+    ...(problem.selection === 'budget' && { budget: problem.tourBudget })
+  };
+};
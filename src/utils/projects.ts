@@ -0,0 +1,138 @@
+import { SolverSettings, WizardStep } from '../types';
+import { SessionData, createSessionFile, parseSessionFile, stringifySession } from './session';
+import { parseSolverSettings } from './solverSettings';
+
+// Persistance locale : sauvegarde automatique de l'état courant + projets nommés.
+// Chaque projet est stocké au format tsp_result.json (voir session.ts), avec les réglages du solveur.
+
+const STORAGE_PREFIX = 'little-tsp';
+const AUTOSAVE_KEY = `${STORAGE_PREFIX}:autosave`;
+const PROJECTS_KEY = `${STORAGE_PREFIX}:projects`;
+const projectKey = (id: string) => `${STORAGE_PREFIX}:project:${id}`;
+
+const WIZARD_STEPS: WizardStep[] = ['cities', 'matrix', 'algorithm', 'result'];
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: string; // ISO 8601
+  cityCount: number;
+}
+
+// Session et réglages du solveur (méthode, décimales, vitesse de lecture)
+export interface ProjectData extends SessionData {
+  settings: SolverSettings;
+}
+
+export interface AutosaveState {
+  session: ProjectData;
+  step: WizardStep;
+  projectId: string | null; // Projet nommé mis à jour en même temps que la sauvegarde automatique
+}
+
+// Écrit la session ; si le quota est dépassé, réessaie sans le détail des étapes
+const writeSession = (key: string, data: SessionData, extra: Record<string, unknown> = {}): boolean => {
+  const write = (result: SessionData['result']) =>
+    localStorage.setItem(key, stringifySession({ ...createSessionFile(data.cities, data.costMatrix, result, data.problem), ...extra }));
+
+  try {
+    write(data.result);
+    return true;
+  } catch {
+    try {
+      write(data.result && { ...data.result, steps: [] });
+      return true;
+    } catch (error) {
+      console.warn('Sauvegarde locale impossible :', error);
+      return false;
+    }
+  }
+};
+
+const readSession = (key: string): (SessionData & { raw: Record<string, unknown> }) | null => {
+  const text = localStorage.getItem(key);
+  if (!text) return null;
+  try {
+    return { ...parseSessionFile(text), raw: JSON.parse(text) };
+  } catch (error) {
+    console.warn(`Sauvegarde locale « ${key} » illisible :`, error);
+    return null;
+  }
+};
+
+export const listProjects = (): ProjectSummary[] => {
+  try {
+    const projects = JSON.parse(localStorage.getItem(PROJECTS_KEY) ?? '[]') as ProjectSummary[];
+    return [...projects].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  } catch {
+    return [];
+  }
+};
+
+const writeProjectList = (projects: ProjectSummary[]) => {
+  localStorage.setItem(PROJECTS_KEY, JSON.stringify(projects));
+};
+
+/**
+ * Enregistre la session dans un projet ; id null crée un nouveau projet.
+ * Retourne le résumé du projet, ou null si l'écriture a échoué.
+ */
+export const saveProject = (id: string | null, name: string, data: ProjectData): ProjectSummary | null => {
+  const summary: ProjectSummary = {
+    id: id ?? `${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
+    name,
+    updatedAt: new Date().toISOString(),
+    cityCount: data.cities.length
+  };
+  if (!writeSession(projectKey(summary.id), data, { settings: data.settings })) return null;
+
+  writeProjectList([...listProjects().filter(project => project.id !== summary.id), summary]);
+  return summary;
+};
+
+// Réglages absents (projets antérieurs) ou invalides : valeurs par défaut
+const toProjectData = (session: SessionData & { raw: Record<string, unknown> }): ProjectData => ({
+  cities: session.cities,
+  costMatrix: session.costMatrix,
+  result: session.result,
+  problem: session.problem,
+  settings: parseSolverSettings(session.raw.settings)
+});
+
+export const loadProject = (id: string): ProjectData | null => {
+  const session = readSession(projectKey(id));
+  return session && toProjectData(session);
+};
+
+export const duplicateProject = (id: string): ProjectSummary | null => {
+  const original = listProjects().find(project => project.id === id);
+  const data = loadProject(id);
+  if (!original || !data) return null;
+  return saveProject(null, `${original.name} (copie)`, data);
+};
+
+export const deleteProject = (id: string) => {
+  localStorage.removeItem(projectKey(id));
+  writeProjectList(listProjects().filter(project => project.id !== id));
+};
+
+export const saveAutosave = (state: AutosaveState): boolean =>
+  writeSession(AUTOSAVE_KEY, state.session, { settings: state.session.settings, step: state.step, projectId: state.projectId });
+
+export const loadAutosave = (): AutosaveState | null => {
+  const session = readSession(AUTOSAVE_KEY);
+  if (!session) return null;
+
+  const step = WIZARD_STEPS.includes(session.raw.step as WizardStep) ? session.raw.step as WizardStep : 'cities';
+  const projectId = typeof session.raw.projectId === 'string' ? session.raw.projectId : null;
+  return {
+    session: toProjectData(session),
+    // L'étape résultat n'est restaurée que si un résultat a été enregistré
+    step: step === 'result' && !session.result ? 'algorithm' : step,
+    projectId: listProjects().some(project => project.id === projectId) ? projectId : null
+  };
+};
+
+export const clearAutosave = () => {
+  localStorage.removeItem(AUTOSAVE_KEY);
+};
@@ -0,0 +1,266 @@
+import { City, HeuristicMethod, LittleStep, ProblemSettings, ReducedMatrix, TSPResult } from '../types';
+import { DEFAULT_PROBLEM_SETTINGS, parseProblemSettings } from './problem';
+import { HEURISTIC_LABELS } from '../algorithms/heuristics';
+
+// Version du format tsp_result.json ; les fichiers sans champ version sont les anciens exports.
+// v2 : matrices des étapes au format { rows, cols, values }, valeurs infinies notées "Infinity".
+// v3 : arc interdit noté "Infinity" dans costMatrix (1e9 auparavant).
+export const SESSION_VERSION = 3;
+
+export interface SessionData {
+  cities: City[];
+  costMatrix: number[][];
+  result: TSPResult | null;
+  problem: ProblemSettings;
+}
+
+export interface SessionFile {
+  version: number;
+  timestamp: string;
+  cities: Array<City & { index: number }>;
+  costMatrix: Array<Array<number | null>>;
+  problem?: ProblemSettings; // Absent des fichiers antérieurs : circuit
+  optimalPath?: string[]; // Noms des villes, pour lecture humaine
+  optimalCost?: number;
+  result?: {
+    path: number[];
+    cost: number;
+    interrupted?: boolean;
+    open?: boolean;
+    tours?: number[][];
+    skipped?: number[];
+    heuristic?: HeuristicMethod;
+    localSearch?: { initialCost: number; moves: number };
+    steps: LittleStep[];
+  };
+}
+
+export const createSessionFile = (
+  cities: City[],
+  costMatrix: number[][],
+  result: TSPResult | null,
+  problem: ProblemSettings = DEFAULT_PROBLEM_SETTINGS
+): SessionFile => ({
+  version: SESSION_VERSION,
+  timestamp: new Date().toISOString(),
+  cities: cities.map((city, index) => ({ ...city, index: index + 1 })),
+  // JSON ne représente pas NaN (case non renseignée) : null
+  costMatrix: costMatrix.map(row => row.map(value => isNaN(value) ? null : value)),
+  problem,
+  ...(result && {
+    optimalPath: result.path.map(i => cities[i].name),
+    optimalCost: result.cost,
+    result: {
+      path: result.path,
+      cost: result.cost,
+      ...(result.interrupted && { interrupted: true }),
+      ...(result.open && { open: true }),
+      ...(result.tours && { tours: result.tours }),
+      ...(result.skipped && { skipped: result.skipped }),
+      ...(result.heuristic && { heuristic: result.heuristic }),
+      ...(result.localSearch && { localSearch: result.localSearch }),
+      steps: result.steps
+    }
+  })
+});
+
+// JSON ne représente pas Infinity (arc écarté, borne d'un sommet irréalisable) : chaîne "Infinity"
+export const stringifySession = (data: object, space?: number): string =>
+  JSON.stringify(data, (_, value) => value === Infinity ? 'Infinity' : value, space);
+
+const readNumber = (value: unknown): number | null =>
+  value === 'Infinity' ? Infinity : typeof value === 'number' ? value : null;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptionalNumber = (value: unknown) => value === undefined || typeof value === 'number';
+
+const parseCities = (value: unknown): City[] => {
+  if (!Array.isArray(value) || value.length < 3) {
+    throw new Error('« cities » doit être une liste d\'au moins 3 villes');
+  }
+  return value.map((city, i) => {
+    if (!isRecord(city) || typeof city.name !== 'string' || city.name.trim() === '') {
+      throw new Error(`Ville ${i + 1} : nom manquant`);
+    }
+    if (!['x', 'y', 'lat', 'lon'].every(key => isOptionalNumber(city[key]))) {
+      throw new Error(`Ville « ${city.name} » : coordonnées invalides`);
+    }
+    if (!['windowStart', 'windowEnd', 'serviceTime'].every(key => isOptionalNumber(city[key]))) {
+      throw new Error(`Ville « ${city.name} » : fenêtre horaire invalide`);
+    }
+    if (!isOptionalNumber(city.reward) || !(city.optional === undefined || typeof city.optional === 'boolean')) {
+      throw new Error(`Ville « ${city.name} » : récompense invalide`);
+    }
+    return {
+      id: typeof city.id === 'string' ? city.id : `${Date.now()}_${i}`,
+      name: city.name,
+      x: city.x as number | undefined,
+      y: city.y as number | undefined,
+      lat: city.lat as number | undefined,
+      lon: city.lon as number | undefined,
+      windowStart: city.windowStart as number | undefined,
+      windowEnd: city.windowEnd as number | undefined,
+      serviceTime: city.serviceTime as number | undefined,
+      optional: city.optional as boolean | undefined,
+      reward: city.reward as number | undefined
+    };
+  });
+};
+
+// Arc interdit des versions 1 et 2 (FORBIDDEN_COST valait alors 1e9)
+const LEGACY_FORBIDDEN_COST = 1e9;
+
+const parseMatrix = (value: unknown, n: number, version: number): number[][] => {
+  if (!Array.isArray(value) || value.length !== n) {
+    throw new Error(`« costMatrix » doit comporter ${n} lignes (une par ville)`);
+  }
+  return value.map((row, i) => {
+    if (!Array.isArray(row) || row.length !== n) {
+      throw new Error(`« costMatrix » ligne ${i + 1} : ${n} valeurs attendues`);
+    }
+    return row.map((cell, j) => {
+      if (cell === null) return NaN;
+      const cost = readNumber(cell);
+      if (cost === null) {
+        throw new Error(`« costMatrix » ligne ${i + 1}, colonne ${j + 1} : nombre attendu`);
+      }
+      return version < 3 && cost >= LEGACY_FORBIDDEN_COST ? Infinity : cost;
+    });
+  });
+};
+
+// Villes facultatives : skipped, villes écartées, absentes du circuit
+const parsePath = (value: unknown, n: number, skipped: number[] = []): number[] => {
+  const visited = n - skipped.length;
+  const isTour = Array.isArray(value) && value.length === visited && new Set(value).size === visited &&
+    value.every(i => Number.isInteger(i) && i >= 0 && i < n && !skipped.includes(i));
+  // Un chemin vide correspond à une instance sans circuit réalisable
+  if (!isTour && !(Array.isArray(value) && value.length === 0)) {
+    throw new Error(`Le circuit doit visiter chacune des ${visited} villes une seule fois`);
+  }
+  return value as number[];
+};
+
+const parseSkipped = (value: unknown, n: number): number[] => {
+  if (!Array.isArray(value) || new Set(value).size !== value.length || value.length >= n ||
+    !value.every(i => Number.isInteger(i) && i >= 0 && i < n)) {
+    throw new Error('« result.skipped » : liste de villes écartées invalide');
+  }
+  return value as number[];
+};
+
+// Tournées de plusieurs voyageurs : chaque ville de path dans exactement une tournée, le dépôt en tête de chacune
+const parseTours = (value: unknown, path: number[]): number[][] => {
+  const depot = path[0];
+  const isTours = Array.isArray(value) && value.every(tour =>
+    Array.isArray(tour) && tour.length >= 2 && tour[0] === depot && tour.every(i => path.includes(i))
+  );
+  const covered = isTours ? (value as number[][]).flatMap(tour => tour.slice(1)) : [];
+  if (!isTours || (path.length > 0 && (covered.length !== path.length - 1 || new Set(covered).size !== covered.length))) {
+    throw new Error('« result.tours » : chaque ville doit appartenir à une seule tournée partant du dépôt');
+  }
+  return value as number[][];
+};
+
+// Grille de nombres (null autorisé : case sans valeur, ex. regret d'un coût non nul) ; null si invalide
+const parseNumberGrid = (value: unknown): Array<Array<number | null>> | null => {
+  if (!Array.isArray(value) || !value.every(row =>
+    Array.isArray(row) && row.every(cell => cell === null || readNumber(cell) !== null)
+  )) {
+    return null;
+  }
+  return value.map((row: unknown[]) => row.map(cell => cell === null ? null : readNumber(cell)));
+};
+
+const isIndexList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(i => Number.isInteger(i));
+
+const parseReducedMatrix = (value: unknown): ReducedMatrix | null => {
+  if (!isRecord(value) || !isIndexList(value.rows) || !isIndexList(value.cols)) return null;
+  const values = parseNumberGrid(value.values);
+  if (!values || values.length !== value.rows.length ||
+      !values.every(row => row.length === (value.cols as number[]).length && row.every(cell => cell !== null))) {
+    return null;
+  }
+  return { rows: value.rows, cols: value.cols, values: values as number[][] };
+};
+
+const parseSteps = (value: unknown): LittleStep[] => {
+  const invalid = () => new Error('« result.steps » : liste d\'étapes invalide');
+  if (!Array.isArray(value)) throw invalid();
+
+  return value.map(step => {
+    if (!isRecord(step) || typeof step.step !== 'number' || typeof step.title !== 'string') throw invalid();
+    const matrix = parseReducedMatrix(step.matrix);
+    const bound = readNumber(step.bound);
+    const regrets = step.regrets === undefined ? undefined : parseNumberGrid(step.regrets);
+    if (!matrix || bound === null || regrets === null) throw invalid();
+    return { ...step, matrix, bound, ...(regrets && { regrets }) } as LittleStep;
+  });
+};
+
+/**
+ * Relit un fichier tsp_result.json (version courante ou ancien export sans version).
+ * Lève une erreur au message explicite si le fichier ne respecte pas le schéma.
+ */
+export const parseSessionFile = (text: string): SessionData => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Le fichier n\'est pas un JSON valide');
+  }
+  if (!isRecord(data)) throw new Error('Objet JSON attendu');
+
+  const version = data.version ?? 0;
+  if (typeof version !== 'number' || version > SESSION_VERSION) {
+    throw new Error(`Version de session « ${String(version)} » non prise en charge (maximum ${SESSION_VERSION})`);
+  }
+
+  const cities = parseCities(data.cities);
+  const costMatrix = parseMatrix(data.costMatrix, cities.length, version);
+  const problem = parseProblemSettings(data.problem, cities);
+
+  if (version === 0) {
+    // Ancien export : circuit donné par les noms des villes, étapes non enregistrées
+    if (!Array.isArray(data.optimalPath) || typeof data.optimalCost !== 'number') {
+      return { cities, costMatrix, result: null, problem };
+    }
+    const path = parsePath(data.optimalPath.map(name => cities.findIndex(city => city.name === name)), cities.length);
+    return { cities, costMatrix, result: { path, cost: data.optimalCost, steps: [] }, problem };
+  }
+
+  if (data.result === undefined) return { cities, costMatrix, result: null, problem };
+  const cost = isRecord(data.result) ? readNumber(data.result.cost) : null;
+  if (!isRecord(data.result) || cost === null) {
+    throw new Error('« result » : coût du circuit manquant');
+  }
+  const skipped = data.result.skipped !== undefined ? parseSkipped(data.result.skipped, cities.length) : undefined;
+  const path = parsePath(data.result.path, cities.length, skipped);
+  // Recherche locale : coût du circuit de départ et nombre de mouvements (ignoré s'il est mal formé)
+  const localSearch = isRecord(data.result.localSearch) && typeof data.result.localSearch.initialCost === 'number'
+    && typeof data.result.localSearch.moves === 'number'
+    ? { initialCost: data.result.localSearch.initialCost, moves: data.result.localSearch.moves }
+    : undefined;
+
+  return {
+    cities,
+    costMatrix,
+    result: {
+      path,
+      // v1 : coût 1e9 pour une instance sans circuit, étapes au format matriciel n × n (non relues)
+      cost: version === 1 && path.length === 0 ? Infinity : cost,
+      steps: version === 1 ? [] : parseSteps(data.result.steps),
+      ...(data.result.interrupted === true && { interrupted: true }),
+      ...(data.result.open === true && { open: true }),
+      ...(data.result.tours !== undefined && { tours: parseTours(data.result.tours, path) }),
+      ...(skipped && { skipped }),
+      ...(Object.keys(HEURISTIC_LABELS).includes(data.result.heuristic as string) &&
+        { heuristic: data.result.heuristic as HeuristicMethod }),
+      ...(localSearch && { localSearch })
+    },
+    problem
+  };
+};
@@ -0,0 +1,208 @@
+import { City, ProblemSettings, SolverSettings } from '../types';
+import { SESSION_VERSION, parseSessionFile, stringifySession } from './session';
+import { parseSolverSettings } from './solverSettings';
+import { FORBIDDEN_COST, isForbidden, isSymmetricMatrix } from './costs';
+
+// Lien de partage : « #tsp=<version>.<données> », données = JSON compressé (deflate) en base64url
+
+export const SHARE_VERSION = 1;
+const SHARE_PARAM = 'tsp';
+
+export interface SharedInstance {
+  cities: City[];
+  costMatrix: number[][];
+  settings: SolverSettings;
+  problem: ProblemSettings;
+}
+
+interface SharePayload {
+  c: Array<{ n: string; x?: number; y?: number; la?: number; lo?: number; wa?: number; wb?: number; d?: number; h?: 1; g?: number }>;
+  sym?: 1; // Matrice symétrique : seul le triangle supérieur est transmis
+  m: Array<number | null | 'x'>; // null : case vide ; 'x' : arc interdit
+  o?: Partial<SolverSettings>;
+  // Variante : villes désignées par leur indice, v voyageurs, f objectif
+  p?: {
+    r: ProblemSettings['route'];
+    s?: number;
+    e?: number;
+    v?: number;
+    f?: ProblemSettings['objective'];
+    q?: Array<[number, number]>; // Précédences [avant, après]
+    t?: ProblemSettings['timeWindows']; // Fenêtres horaires (wa, wb, d des villes), k : pénalité de retard
+    k?: number;
+    a?: Array<[number, number]>; // Arcs imposés [départ, arrivée]
+    g?: ProblemSettings['selection']; // Villes facultatives (h, g des villes : facultative, récompense), b : budget
+    b?: number;
+  };
+}
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+const encodeCost = (value: number): number | null | 'x' =>
+  isNaN(value) ? null : isForbidden(value) ? 'x' : value;
+
+const decodeCost = (value: unknown): unknown =>
+  value === 'x' ? FORBIDDEN_COST : value;
+
+/**
+ * Construit l'URL de partage de l'instance courante (villes, matrice, réglages du solveur).
+ */
+export const createShareUrl = async (
+  cities: City[],
+  costMatrix: number[][],
+  settings: SolverSettings,
+  problem: ProblemSettings
+): Promise<string> => {
+  const sym = isSymmetricMatrix(costMatrix);
+  const cityIndex = (id: string | null) => {
+    const index = cities.findIndex(city => city.id === id);
+    return index === -1 ? undefined : index;
+  };
+  const payload: SharePayload = {
+    c: cities.map(city => ({
+      n: city.name,
+      x: city.x,
+      y: city.y,
+      la: city.lat,
+      lo: city.lon,
+      wa: city.windowStart,
+      wb: city.windowEnd,
+      d: city.serviceTime,
+      ...(city.optional && { h: 1 as const }),
+      g: city.reward
+    })),
+    ...(sym && { sym: 1 as const }),
+    m: costMatrix.flatMap((row, i) => (sym ? row.slice(i + 1) : row.filter((_, j) => j !== i)).map(encodeCost)),
+    o: settings,
+    p: {
+      r: problem.route,
+      s: cityIndex(problem.startId),
+      e: cityIndex(problem.endId),
+      ...(problem.salesmen > 1 && { v: problem.salesmen, f: problem.objective }),
+      ...(problem.precedences.length > 0 && {
+        q: problem.precedences.map(({ beforeId, afterId }): [number, number] => [cityIndex(beforeId) ?? -1, cityIndex(afterId) ?? -1])
+      }),
+      ...(problem.timeWindows !== 'off' && { t: problem.timeWindows, k: problem.latePenalty }),
+      ...(problem.mandatoryArcs.length > 0 && {
+        a: problem.mandatoryArcs.map(({ fromId, toId }): [number, number] => [cityIndex(fromId) ?? -1, cityIndex(toId) ?? -1])
+      }),
+      ...(problem.selection !== 'off' && { g: problem.selection, b: problem.tourBudget })
+    }
+  };
+
+  const bytes = new TextEncoder().encode(JSON.stringify(payload));
+  const compressed = await transform(bytes, new CompressionStream('deflate-raw'));
+  const url = new URL(window.location.href);
+  url.hash = `${SHARE_PARAM}=${SHARE_VERSION}.${toBase64Url(compressed)}`;
+  return url.toString();
+};
+
+/**
+ * Extrait le contenu d'un fragment « #tsp=... », ou null si le fragment n'est pas un lien de partage.
+ */
+export const getShareFragment = (hash: string): string | null => {
+  const prefix = `#${SHARE_PARAM}=`;
+  return hash.startsWith(prefix) ? hash.slice(prefix.length) : null;
+};
+
+/**
+ * Décode un lien de partage. Lève une erreur au message explicite si le lien est tronqué ou corrompu.
+ */
+export const decodeShareFragment = async (fragment: string): Promise<SharedInstance> => {
+  const separator = fragment.indexOf('.');
+  const version = Number(fragment.slice(0, separator));
+  if (separator <= 0 || !Number.isInteger(version)) {
+    throw new Error('format de lien non reconnu');
+  }
+  if (version > SHARE_VERSION) {
+    throw new Error(`lien créé par une version plus récente de l'application (v${version})`);
+  }
+
+  let payload: SharePayload;
+  try {
+    const bytes = await transform(fromBase64Url(fragment.slice(separator + 1)), new DecompressionStream('deflate-raw'));
+    payload = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error('données du lien tronquées ou corrompues');
+  }
+
+  if (!Array.isArray(payload?.c) || !Array.isArray(payload.m)) {
+    throw new Error('données du lien incomplètes');
+  }
+
+  const n = payload.c.length;
+  const expected = payload.sym ? (n * (n - 1)) / 2 : n * (n - 1);
+  if (payload.m.length !== expected) {
+    throw new Error(`matrice incomplète : ${expected} coûts attendus pour ${n} villes, ${payload.m.length} reçus`);
+  }
+
+  const values = payload.m.map(decodeCost);
+  const costMatrix: unknown[][] = Array(n).fill(null).map(() => Array(n).fill(0));
+  let k = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = payload.sym ? i + 1 : 0; j < n; j++) {
+      if (i === j) continue;
+      costMatrix[i][j] = values[k++];
+      if (payload.sym) costMatrix[j][i] = costMatrix[i][j];
+    }
+  }
+
+  // Mêmes contrôles que pour une session enregistrée (noms, coordonnées, coûts numériques)
+  const ids = payload.c.map((_, i) => `${Date.now()}_${i}`);
+  const cityId = (index: unknown) => typeof index === 'number' ? ids[index] ?? null : null;
+  const session = parseSessionFile(stringifySession({
+    version: SESSION_VERSION,
+    cities: payload.c.map((city, i) => ({
+      id: ids[i],
+      name: city?.n,
+      x: city?.x,
+      y: city?.y,
+      lat: city?.la,
+      lon: city?.lo,
+      windowStart: city?.wa,
+      windowEnd: city?.wb,
+      serviceTime: city?.d,
+      optional: city?.h === 1 || undefined,
+      reward: city?.g
+    })),
+    costMatrix,
+    problem: payload.p && {
+      route: payload.p.r,
+      startId: cityId(payload.p.s),
+      endId: cityId(payload.p.e),
+      salesmen: payload.p.v,
+      objective: payload.p.f,
+      precedences: Array.isArray(payload.p.q)
+        ? payload.p.q.map(pair => ({ beforeId: cityId(pair?.[0]), afterId: cityId(pair?.[1]) }))
+        : [],
+      timeWindows: payload.p.t,
+      latePenalty: payload.p.k,
+      mandatoryArcs: Array.isArray(payload.p.a)
+        ? payload.p.a.map(pair => ({ fromId: cityId(pair?.[0]), toId: cityId(pair?.[1]) }))
+        : [],
+      selection: payload.p.g,
+      tourBudget: payload.p.b
+    }
+  }));
+
+  return {
+    cities: session.cities,
+    costMatrix: session.costMatrix,
+    settings: parseSolverSettings(payload.o),
+    problem: session.problem
+  };
+};
@@ -0,0 +1,34 @@
+import { SolverSettings } from '../types';
+import { COST_DECIMAL_OPTIONS } from './costs';
+
+export const DEFAULT_SOLVER_SETTINGS: SolverSettings = {
+  autoPlaySpeed: 1000,
+  costDecimals: 2,
+  method: 'little'
+};
+
+const AUTO_PLAY_SPEEDS = [500, 1000, 2000];
+const METHODS: Array<SolverSettings['method']> = [
+  'little', 'nearest-neighbour', 'greedy-edge', 'cheapest-insertion', 'farthest-insertion'
+];
+
+/**
+ * Complète des réglages lus depuis l'extérieur (lien, fichier) avec les valeurs par défaut ;
+ * les valeurs inconnues ou invalides sont ignorées.
+ */
+export const parseSolverSettings = (raw: unknown): SolverSettings => {
+  const settings = { ...DEFAULT_SOLVER_SETTINGS };
+  if (typeof raw !== 'object' || raw === null) return settings;
+
+  const { autoPlaySpeed, costDecimals, method } = raw as Record<string, unknown>;
+  if (typeof autoPlaySpeed === 'number' && AUTO_PLAY_SPEEDS.includes(autoPlaySpeed)) {
+    settings.autoPlaySpeed = autoPlaySpeed;
+  }
+  if (typeof costDecimals === 'number' && COST_DECIMAL_OPTIONS.includes(costDecimals)) {
+    settings.costDecimals = costDecimals;
+  }
+  if (METHODS.includes(method as SolverSettings['method'])) {
+    settings.method = method as SolverSettings['method'];
+  }
+  return settings;
+};
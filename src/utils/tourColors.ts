@@ -0,0 +1,4 @@
+// Couleurs des tournées (plusieurs voyageurs), partagées par le graphe et le tableau des segments
+export const TOUR_COLORS = ['#16A34A', '#2563EB', '#DC2626', '#9333EA', '#EA580C', '#0891B2', '#CA8A04', '#DB2777'];
+
+export const tourColor = (index: number): string => TOUR_COLORS[index % TOUR_COLORS.length];
@@ -0,0 +1,288 @@
+import { City } from '../types';
+import { planarDistance, tsplibGeoDistance } from './distances';
+import { isForbidden, isSymmetricMatrix } from './costs';
+
+// Lecture et écriture du format TSPLIB (instances .tsp / .atsp et tournées .tour)
+
+export interface TsplibInstance {
+  name: string;
+  type: 'TSP' | 'ATSP';
+  comment?: string;
+  cities: City[];
+  matrix: number[][];
+}
+
+export interface TsplibTour {
+  name: string;
+  dimension: number;
+  tour: number[]; // Indices à partir de 0
+}
+
+type EdgeWeightFormat =
+  | 'FULL_MATRIX'
+  | 'UPPER_ROW' | 'LOWER_ROW' | 'UPPER_DIAG_ROW' | 'LOWER_DIAG_ROW'
+  | 'UPPER_COL' | 'LOWER_COL' | 'UPPER_DIAG_COL' | 'LOWER_DIAG_COL';
+
+const EDGE_WEIGHT_FORMATS: EdgeWeightFormat[] = [
+  'FULL_MATRIX',
+  'UPPER_ROW', 'LOWER_ROW', 'UPPER_DIAG_ROW', 'LOWER_DIAG_ROW',
+  'UPPER_COL', 'LOWER_COL', 'UPPER_DIAG_COL', 'LOWER_DIAG_COL'
+];
+
+const COORD_WEIGHT_TYPES = ['EUC_2D', 'CEIL_2D', 'ATT', 'GEO'];
+
+interface TsplibSections {
+  header: Map<string, string>;
+  sections: Map<string, string[]>; // Jetons de chaque section
+}
+
+// Sépare l'en-tête « CLÉ : valeur » des sections de données
+const splitSections = (text: string): TsplibSections => {
+  const header = new Map<string, string>();
+  const sections = new Map<string, string[]>();
+  let current: string[] | null = null;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line === '') continue;
+    if (line === 'EOF') break;
+
+    const keyMatch = line.match(/^([A-Z_]+)\s*(?::\s*(.*))?$/);
+    if (keyMatch && keyMatch[1].endsWith('_SECTION')) {
+      current = [];
+      sections.set(keyMatch[1], current);
+      continue;
+    }
+    if (keyMatch && keyMatch[2] !== undefined) {
+      header.set(keyMatch[1], keyMatch[2].trim());
+      current = null;
+      continue;
+    }
+
+    if (!current) {
+      throw new Error(`Ligne inattendue hors section : « ${line} »`);
+    }
+    current.push(...line.split(/\s+/));
+  }
+
+  return { header, sections };
+};
+
+const parseNumbers = (tokens: string[], section: string): number[] =>
+  tokens.map(token => {
+    const value = Number(token);
+    if (isNaN(value)) throw new Error(`Valeur numérique invalide « ${token} » dans ${section}`);
+    return value;
+  });
+
+// Ordre dans lequel chaque format énumère les cases (i, j) de la matrice
+const weightPositions = (format: EdgeWeightFormat, n: number): Array<[number, number]> => {
+  const positions: Array<[number, number]> = [];
+  const rows = (keep: (i: number, j: number) => boolean) => {
+    for (let i = 0; i < n; i++) for (let j = 0; j < n; j++) if (keep(i, j)) positions.push([i, j]);
+  };
+  const cols = (keep: (i: number, j: number) => boolean) => {
+    for (let j = 0; j < n; j++) for (let i = 0; i < n; i++) if (keep(i, j)) positions.push([i, j]);
+  };
+
+  switch (format) {
+    case 'FULL_MATRIX': rows(() => true); break;
+    case 'UPPER_ROW': rows((i, j) => j > i); break;
+    case 'LOWER_ROW': rows((i, j) => j < i); break;
+    case 'UPPER_DIAG_ROW': rows((i, j) => j >= i); break;
+    case 'LOWER_DIAG_ROW': rows((i, j) => j <= i); break;
+    case 'UPPER_COL': cols((i, j) => i < j); break;
+    case 'LOWER_COL': cols((i, j) => i > j); break;
+    case 'UPPER_DIAG_COL': cols((i, j) => i <= j); break;
+    case 'LOWER_DIAG_COL': cols((i, j) => i >= j); break;
+  }
+  return positions;
+};
+
+// Coordonnées « NODE_COORD_SECTION » : lignes « id x y »
+const parseCoords = (tokens: string[], n: number, section: string): Array<{ x: number; y: number }> => {
+  const values = parseNumbers(tokens, section);
+  if (values.length < n * 3) {
+    throw new Error(`${section} : ${n} nœuds attendus, ${Math.floor(values.length / 3)} trouvés`);
+  }
+  const coords: Array<{ x: number; y: number }> = [];
+  for (let k = 0; k < n; k++) {
+    coords.push({ x: values[k * 3 + 1], y: values[k * 3 + 2] });
+  }
+  return coords;
+};
+
+// Format TSPLIB GEO « DDD.MM » (degrés.minutes) vers degrés décimaux
+const geoToDecimal = (value: number): number => {
+  const degrees = Math.trunc(value);
+  return degrees + (5 * (value - degrees)) / 3;
+};
+
+const attDistance = (a: { x: number; y: number }, b: { x: number; y: number }): number => {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  const r = Math.sqrt((dx * dx + dy * dy) / 10);
+  const t = Math.round(r);
+  return t < r ? t + 1 : t;
+};
+
+const coordDistance = (
+  weightType: string,
+  a: { x: number; y: number },
+  b: { x: number; y: number }
+): number => {
+  switch (weightType) {
+    case 'EUC_2D': return planarDistance(a, b, 'euc2d');
+    case 'CEIL_2D': return Math.ceil(Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2));
+    case 'ATT': return attDistance(a, b);
+    default: return tsplibGeoDistance(
+      { lat: geoToDecimal(a.x), lon: geoToDecimal(a.y) },
+      { lat: geoToDecimal(b.x), lon: geoToDecimal(b.y) }
+    );
+  }
+};
+
+/**
+ * Lit une instance TSPLIB (TYPE TSP ou ATSP).
+ * Pris en charge : EDGE_WEIGHT_TYPE EXPLICIT (tous les EDGE_WEIGHT_FORMAT usuels), EUC_2D, CEIL_2D, ATT et GEO.
+ * Lève une erreur explicite si le fichier est incomplet ou non pris en charge.
+ */
+export const parseTsplibInstance = (text: string): TsplibInstance => {
+  const { header, sections } = splitSections(text);
+
+  const type = header.get('TYPE')?.split(/\s+/)[0];
+  if (type !== 'TSP' && type !== 'ATSP') {
+    throw new Error(`TYPE « ${type ?? '?'} » non pris en charge (TSP ou ATSP attendu)`);
+  }
+
+  const n = Number(header.get('DIMENSION'));
+  if (!Number.isInteger(n) || n < 3) {
+    throw new Error('DIMENSION manquante ou invalide (au moins 3 villes)');
+  }
+
+  const name = header.get('NAME') || 'instance';
+  const weightType = header.get('EDGE_WEIGHT_TYPE') ?? 'EXPLICIT';
+  const cities: City[] = Array.from({ length: n }, (_, i) => ({
+    id: `${name}_${i + 1}`,
+    name: `Ville ${i + 1}`
+  }));
+  const matrix: number[][] = Array(n).fill(null).map(() => Array(n).fill(0));
+
+  if (weightType === 'EXPLICIT') {
+    const format = (header.get('EDGE_WEIGHT_FORMAT') ?? 'FULL_MATRIX') as EdgeWeightFormat;
+    if (!EDGE_WEIGHT_FORMATS.includes(format)) {
+      throw new Error(`EDGE_WEIGHT_FORMAT « ${format} » non pris en charge`);
+    }
+    const tokens = sections.get('EDGE_WEIGHT_SECTION');
+    if (!tokens) throw new Error('EDGE_WEIGHT_SECTION manquante');
+
+    const values = parseNumbers(tokens, 'EDGE_WEIGHT_SECTION');
+    const positions = weightPositions(format, n);
+    if (values.length < positions.length) {
+      throw new Error(`EDGE_WEIGHT_SECTION : ${positions.length} valeurs attendues pour ${format}, ${values.length} trouvées`);
+    }
+
+    positions.forEach(([i, j], k) => {
+      matrix[i][j] = values[k];
+      if (format !== 'FULL_MATRIX') matrix[j][i] = values[k];
+    });
+
+    // Coordonnées d'affichage éventuelles
+    const display = sections.get('DISPLAY_DATA_SECTION');
+    if (display) {
+      parseCoords(display, n, 'DISPLAY_DATA_SECTION').forEach((coord, i) => {
+        cities[i].x = coord.x;
+        cities[i].y = coord.y;
+      });
+    }
+  } else if (COORD_WEIGHT_TYPES.includes(weightType)) {
+    const tokens = sections.get('NODE_COORD_SECTION');
+    if (!tokens) throw new Error('NODE_COORD_SECTION manquante');
+
+    const coords = parseCoords(tokens, n, 'NODE_COORD_SECTION');
+    coords.forEach((coord, i) => {
+      if (weightType === 'GEO') {
+        cities[i].lat = geoToDecimal(coord.x);
+        cities[i].lon = geoToDecimal(coord.y);
+      } else {
+        cities[i].x = coord.x;
+        cities[i].y = coord.y;
+      }
+    });
+
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        if (i !== j) matrix[i][j] = coordDistance(weightType, coords[i], coords[j]);
+      }
+    }
+  } else {
+    throw new Error(`EDGE_WEIGHT_TYPE « ${weightType} » non pris en charge`);
+  }
+
+  // La diagonale n'est pas utilisée par l'application
+  for (let i = 0; i < n; i++) matrix[i][i] = 0;
+
+  return { name, type, comment: header.get('COMMENT'), cities, matrix };
+};
+
+/**
+ * Lit un fichier de tournée TSPLIB (TYPE TOUR) : TOUR_SECTION terminée par -1.
+ */
+export const parseTsplibTour = (text: string): TsplibTour => {
+  const { header, sections } = splitSections(text);
+
+  if (header.get('TYPE') !== 'TOUR') {
+    throw new Error(`TYPE « ${header.get('TYPE') ?? '?'} » inattendu (TOUR attendu)`);
+  }
+  const tokens = sections.get('TOUR_SECTION');
+  if (!tokens) throw new Error('TOUR_SECTION manquante');
+
+  const values = parseNumbers(tokens, 'TOUR_SECTION');
+  const end = values.indexOf(-1);
+  const tour = (end === -1 ? values : values.slice(0, end)).map(id => id - 1);
+
+  const dimension = Number(header.get('DIMENSION') ?? tour.length);
+  if (tour.length !== dimension || new Set(tour).size !== dimension || tour.some(i => i < 0 || i >= dimension)) {
+    throw new Error(`TOUR_SECTION invalide : ${dimension} villes distinctes numérotées de 1 à ${dimension} attendues`);
+  }
+
+  return { name: header.get('NAME') || 'tour', dimension, tour };
+};
+
+/**
+ * Écrit une instance au format TSPLIB (EXPLICIT / FULL_MATRIX), en TSP si la matrice est symétrique, ATSP sinon.
+ * TSPLIB n'a pas de valeur infinie : un arc interdit reçoit un coût supérieur à celui de tout circuit autorisé.
+ */
+export const writeTsplibInstance = (name: string, matrix: number[][], comment?: string): string => {
+  const type = isSymmetricMatrix(matrix) ? 'TSP' : 'ATSP';
+  const forbiddenCost = Math.ceil(matrix.flat().filter(value => !isForbidden(value)).reduce((sum, value) => sum + value, 0)) + 1;
+  return [
+    `NAME : ${name}`,
+    `TYPE : ${type}`,
+    ...(comment ? [`COMMENT : ${comment}`] : []),
+    `DIMENSION : ${matrix.length}`,
+    'EDGE_WEIGHT_TYPE : EXPLICIT',
+    'EDGE_WEIGHT_FORMAT : FULL_MATRIX',
+    'EDGE_WEIGHT_SECTION',
+    ...matrix.map(row => row.map(value => isForbidden(value) ? forbiddenCost : value).join(' ')),
+    'EOF',
+    ''
+  ].join('\n');
+};
+
+/**
+ * Écrit une tournée au format TSPLIB (.tour), villes numérotées à partir de 1.
+ */
+export const writeTsplibTour = (name: string, tour: number[], comment?: string): string => {
+  return [
+    `NAME : ${name}`,
+    `TYPE : TOUR`,
+    ...(comment ? [`COMMENT : ${comment}`] : []),
+    `DIMENSION : ${tour.length}`,
+    'TOUR_SECTION',
+    ...tour.map(i => String(i + 1)),
+    '-1',
+    'EOF',
+    ''
+  ].join('\n');
+};
@@ -0,0 +1,115 @@
+import { HeuristicMethod, LittleStep, TSPResult } from '../types';
+import { LittleProgress, solveLittle } from '../algorithms/little';
+import { OpenPathEnds } from '../algorithms/openPath';
+import { SalesmenSettings, solveLongestTour } from '../algorithms/multipleTsp';
+import { Precedence } from '../algorithms/precedence';
+import { TimeWindowSettings } from '../algorithms/timeWindows';
+import { MandatoryArc, restrictToMandatoryArcs } from '../algorithms/mandatoryArcs';
+import { PrizeSettings, solveOrienteering } from '../algorithms/prizeCollecting';
+import { solveHeuristic } from '../algorithms/heuristics';
+
+export interface LittleWorkerRequest {
+  type: 'solve';
+  costMatrix: number[][];
+  cityNames: string[];
+  openPath?: OpenPathEnds;
+  depot?: number;
+  salesmen?: SalesmenSettings;
+  precedences?: Precedence[];
+  timeWindows?: TimeWindowSettings;
+  mandatoryArcs?: MandatoryArc[];
+  prizes?: PrizeSettings;
+  method?: HeuristicMethod; // Heuristique de construction à la place de la méthode de Little
+}
+
+export type LittleWorkerMessage =
+  | { type: 'steps'; steps: LittleStep[] }
+  | { type: 'progress'; progress: LittleProgress }
+  | { type: 'done'; result: Omit<TSPResult, 'steps'> | null }; // Les étapes ont déjà été transmises
+
+const ctx = self as unknown as Worker;
+
+// Les étapes sont envoyées par paquets pour ne pas saturer le thread principal de messages
+const STEP_BATCH_SIZE = 20;
+// Cases de matrices (réduites et regrets) transmises au plus : au-delà, sur une longue résolution, les étapes
+// arrivent sans copie de matrice, sauf celles d'un nouveau meilleur circuit et l'étape finale
+const STEP_MATRIX_MAX_CELLS = 5_000_000;
+
+const EMPTY_MATRIX: LittleStep['matrix'] = { rows: [], cols: [], values: [] };
+
+ctx.onmessage = (event: MessageEvent<LittleWorkerRequest>) => {
+  const { costMatrix, cityNames, openPath, depot, salesmen, precedences, timeWindows, mandatoryArcs, prizes, method } = event.data;
+  let pending: LittleStep[] = [];
+  let matrixCells = 0;
+
+  const post = (message: LittleWorkerMessage) => ctx.postMessage(message);
+
+  const flushSteps = () => {
+    if (pending.length === 0) return;
+    post({ type: 'steps', steps: pending });
+    pending = [];
+  };
+
+  // Plus longue tournée à minimiser : pas de transformation en circuit, résolution directe (une seule étape) ;
+  // les arcs imposés y sont respectés en interdisant leurs arcs concurrents
+  if (salesmen?.objective === 'longest') {
+    const result = solveLongestTour(restrictToMandatoryArcs(costMatrix, mandatoryArcs ?? []), salesmen, cityNames);
+    if (result) post({ type: 'steps', steps: result.steps });
+    post({ type: 'done', result: result && { path: result.path, cost: result.cost, tours: result.tours } });
+    return;
+  }
+
+  // Heuristique de construction : circuit en une passe, étapes transmises par paquets
+  if (method) {
+    const result = solveHeuristic(costMatrix, method, { cityNames, openPath, depot, mandatoryArcs });
+    for (let i = 0; result && i < result.steps.length; i += STEP_BATCH_SIZE) {
+      post({ type: 'steps', steps: result.steps.slice(i, i + STEP_BATCH_SIZE) });
+    }
+    post({
+      type: 'done',
+      result: result && { path: result.path, cost: result.cost, heuristic: method, ...(result.open && { open: true }) }
+    });
+    return;
+  }
+
+  // Villes facultatives sous budget : même principe, résolution directe par programmation dynamique
+  if (prizes?.budget !== undefined) {
+    const result = solveOrienteering(restrictToMandatoryArcs(costMatrix, mandatoryArcs ?? []), prizes, depot ?? 0, cityNames);
+    if (result) post({ type: 'steps', steps: result.steps });
+    post({ type: 'done', result: result && { path: result.path, cost: result.cost, skipped: result.skipped } });
+    return;
+  }
+
+  const result = solveLittle(costMatrix, {
+    cityNames,
+    openPath,
+    depot,
+    salesmen,
+    precedences,
+    timeWindows,
+    mandatoryArcs,
+    prizes,
+    onStep: step => {
+      matrixCells += step.matrix.rows.length * step.matrix.cols.length * (step.regrets ? 2 : 1);
+      const kept = matrixCells <= STEP_MATRIX_MAX_CELLS || step.incumbent || step.type === 'final';
+      pending.push(kept ? step : { ...step, matrix: EMPTY_MATRIX, regrets: undefined });
+      if (pending.length >= STEP_BATCH_SIZE) flushSteps();
+    },
+    onProgress: progress => {
+      flushSteps();
+      post({ type: 'progress', progress });
+    }
+  });
+
+  flushSteps();
+  post({
+    type: 'done',
+    result: result && {
+      path: result.path,
+      cost: result.cost,
+      ...(result.open && { open: true }),
+      ...(result.tours && { tours: result.tours }),
+      ...(result.skipped && { skipped: result.skipped })
+    }
+  });
+};
@@ -0,0 +1,28 @@
+import { LocalSearchMove, TSPResult } from '../types';
+import { improveTour } from '../algorithms/localSearch';
+import { OpenPathEnds } from '../algorithms/openPath';
+import { MandatoryArc } from '../algorithms/mandatoryArcs';
+
+export interface LocalSearchWorkerRequest {
+  type: 'improve';
+  costMatrix: number[][];
+  path: number[]; // Itinéraire à améliorer, partant du dépôt
+  cityNames: string[];
+  openPath?: OpenPathEnds;
+  mandatoryArcs?: MandatoryArc[];
+  moves: LocalSearchMove[];
+}
+
+export type LocalSearchWorkerMessage = { type: 'done'; result: TSPResult | null };
+
+const ctx = self as unknown as Worker;
+
+// Recherche locale hors du thread principal : le 3-opt est cubique en nombre de villes
+ctx.onmessage = (event: MessageEvent<LocalSearchWorkerRequest>) => {
+  const { costMatrix, path, cityNames, openPath, mandatoryArcs, moves } = event.data;
+  const message: LocalSearchWorkerMessage = {
+    type: 'done',
+    result: improveTour(costMatrix, path, { cityNames, openPath, mandatoryArcs, moves })
+  };
+  ctx.postMessage(message);
+};